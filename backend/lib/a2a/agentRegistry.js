@@ -0,0 +1,155 @@
+import { createAgentServer } from './agentServer.js';
+
+/**
+ * Keeps one A2A agent server running per philosopher in the orchestrator's roster.
+ *
+ * The frontend owns the roster, so it registers the full list via `sync()`;
+ * servers for removed philosophers are stopped, new or re-ported ones started,
+ * and unchanged ones left running.
+ */
+
+const MIN_PORT = 1024;
+const MAX_PORT = 65535;
+
+function registryError(message, code = 'INVALID_REQUEST') {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+}
+
+function normalizePhilosopher(entry) {
+  if (!entry || typeof entry !== 'object') {
+    throw registryError('Invalid request: each philosopher must be an object');
+  }
+  const { id, name, school, port, personaSummary, llm } = entry;
+  if (typeof id !== 'string' || !id || typeof name !== 'string' || !name) {
+    throw registryError('Invalid request: philosopher id and name are required');
+  }
+  if (!Number.isInteger(port) || port < MIN_PORT || port > MAX_PORT) {
+    throw registryError(`Invalid request: ${name} has invalid port ${port}`);
+  }
+  return {
+    id,
+    name,
+    school: typeof school === 'string' ? school : '',
+    port,
+    personaSummary: typeof personaSummary === 'string' ? personaSummary : '',
+    llm: normalizeLLMChoice(llm),
+  };
+}
+
+function normalizeLLMChoice(llm) {
+  if (!llm || typeof llm !== 'object') {
+    return undefined;
+  }
+  const provider = typeof llm.provider === 'string' && llm.provider ? llm.provider : undefined;
+  const model = typeof llm.model === 'string' && llm.model.trim() ? llm.model.trim() : undefined;
+  return provider || model ? { provider, model } : undefined;
+}
+
+function sameAgent(a, b) {
+  return (
+    a.port === b.port &&
+    a.name === b.name &&
+    a.school === b.school &&
+    a.personaSummary === b.personaSummary &&
+    a.llm?.provider === b.llm?.provider &&
+    a.llm?.model === b.llm?.model
+  );
+}
+
+export function createAgentRegistry({ llmService, host, publicHost, reservedPorts = [], log }) {
+  const servers = new Map();
+  const failures = new Map();
+  // Syncs run one at a time: overlapping ones would both try to bind the same ports
+  let queue = Promise.resolve();
+
+  const enqueue = task => {
+    const run = queue.then(task);
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  const describe = () =>
+    Array.from(new Set([...servers.keys(), ...failures.keys()])).map(id => {
+      const server = servers.get(id);
+      if (server) {
+        return { id, port: server.philosopher.port, url: server.url, status: 'running', card: server.card };
+      }
+      const failure = failures.get(id);
+      return { id, port: failure.port, status: 'failed', error: failure.error };
+    });
+
+  /** Starts, restarts and stops servers so they match `philosophers`. */
+  const apply = async philosophers => {
+    if (!Array.isArray(philosophers)) {
+      throw registryError('Invalid request: philosophers array is required');
+    }
+    const desired = philosophers.map(normalizePhilosopher);
+
+    const providerKeys = llmService.getProviderKeys();
+    for (const philosopher of desired) {
+      if (philosopher.llm?.provider && !providerKeys.includes(philosopher.llm.provider)) {
+        throw registryError(`Invalid request: ${philosopher.name} uses unknown LLM provider ${philosopher.llm.provider}`);
+      }
+    }
+
+    const ports = new Set();
+    for (const philosopher of desired) {
+      if (ports.has(philosopher.port) || reservedPorts.includes(philosopher.port)) {
+        throw registryError(`Invalid request: port ${philosopher.port} is already in use`);
+      }
+      ports.add(philosopher.port);
+    }
+
+    const desiredIds = new Set(desired.map(philosopher => philosopher.id));
+    const stale = Array.from(servers.values()).filter(server => {
+      const next = desired.find(philosopher => philosopher.id === server.philosopher.id);
+      return !desiredIds.has(server.philosopher.id) || !next || !sameAgent(server.philosopher, next);
+    });
+
+    // Stop first so a philosopher moving to another's old port can bind it
+    await Promise.all(
+      stale.map(async server => {
+        servers.delete(server.philosopher.id);
+        await server.stop();
+        log?.('info', `Stopped A2A agent ${server.philosopher.name} on :${server.philosopher.port}`);
+      }),
+    );
+    failures.clear();
+
+    for (const philosopher of desired) {
+      if (servers.has(philosopher.id)) {
+        continue;
+      }
+      const server = createAgentServer({ philosopher, llmService, host, publicHost, log });
+      try {
+        await server.start();
+        servers.set(philosopher.id, server);
+        log?.('info', `Started A2A agent ${philosopher.name} on :${philosopher.port}`);
+      } catch (error) {
+        failures.set(philosopher.id, { port: philosopher.port, error: error?.message || 'Failed to start' });
+        log?.('error', `Failed to start A2A agent ${philosopher.name} on :${philosopher.port}: ${error?.message}`);
+      }
+    }
+
+    return describe();
+  };
+
+  return {
+    list: describe,
+
+    sync(philosophers) {
+      return enqueue(() => apply(philosophers));
+    },
+
+    stopAll() {
+      return enqueue(async () => {
+        const running = Array.from(servers.values());
+        servers.clear();
+        failures.clear();
+        await Promise.all(running.map(server => server.stop()));
+      });
+    },
+  };
+}
@@ -0,0 +1,389 @@
+import express from 'express';
+import cors from 'cors';
+import { randomBytes } from 'node:crypto';
+import { isAbortError } from '../llm/abort.js';
+import { optionsContainModel, stripModelFromOptions } from '../llm/modelFallback.js';
+
+/**
+ * Agent-to-Agent (A2A) protocol server for a single philosopher.
+ *
+ * Serves the agent card at `/.well-known/agent.json` and a JSON-RPC endpoint at
+ * `/` implementing `tasks/send`, `tasks/sendSubscribe` (SSE) and `tasks/cancel`.
+ * Turns are answered through the shared LLM service; the orchestrator still
+ * assembles the full prompt, so the agent forwards the message text verbatim.
+ */
+
+export const A2A_PROTOCOL_VERSION = '0.2.0';
+
+// Finished tasks are kept for `tasks/get`; only the most recent ones are retained
+const MAX_TRACKED_TASKS = 100;
+const TERMINAL_STATES = new Set(['completed', 'canceled', 'failed']);
+
+const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  TASK_NOT_FOUND: -32001,
+};
+
+function rpcResult(id, result) {
+  return { jsonrpc: '2.0', id: id ?? null, result };
+}
+
+function rpcError(id, code, message) {
+  return { jsonrpc: '2.0', id: id ?? null, error: { code, message } };
+}
+
+function textParts(text) {
+  return [{ type: 'text', text }];
+}
+
+function agentMessage(text) {
+  return { role: 'agent', parts: textParts(text) };
+}
+
+/**
+ * Concatenate the text parts of an A2A message into a single prompt string.
+ */
+function extractMessageText(message) {
+  if (!message || !Array.isArray(message.parts)) {
+    return '';
+  }
+  return message.parts
+    .filter(part => part && part.type === 'text' && typeof part.text === 'string')
+    .map(part => part.text)
+    .join('\n');
+}
+
+/**
+ * LLM options for the philosopher's own provider/model choice; empty when the
+ * philosopher uses the backend default.
+ */
+function llmOptions(philosopher) {
+  const { provider, model } = philosopher.llm ?? {};
+  return {
+    ...(provider ? { provider } : {}),
+    ...(model ? { model } : {}),
+  };
+}
+
+/**
+ * Which provider and model answered, reported as task metadata so the
+ * orchestrator can record it.
+ */
+function answeredBy(metadata) {
+  return {
+    provider: metadata?.provider,
+    providerKey: metadata?.providerKey,
+    requestedModel: metadata?.requestedModel,
+    resolvedModel: metadata?.resolvedModel,
+  };
+}
+
+export function buildAgentCard(philosopher, url) {
+  return {
+    name: philosopher.name,
+    description: philosopher.personaSummary || `${philosopher.name} (${philosopher.school})`,
+    url,
+    version: '1.0.0',
+    protocolVersion: A2A_PROTOCOL_VERSION,
+    provider: { organization: 'Confucian Café' },
+    capabilities: { streaming: true, pushNotifications: false },
+    defaultInputModes: ['text'],
+    defaultOutputModes: ['text'],
+    skills: [
+      {
+        id: 'council-dialogue',
+        name: `${philosopher.name} dialogue turn`,
+        description: `Responds to the council in the voice of ${philosopher.name} (${philosopher.school}).`,
+        tags: ['philosophy', philosopher.school].filter(Boolean),
+      },
+    ],
+  };
+}
+
+/**
+ * @param {object} config
+ * @param {{ id: string, name: string, school: string, port: number, personaSummary?: string, llm?: { provider?: string, model?: string } }} config.philosopher
+ * @param {ReturnType<import('../llm/index.js').createLLMService>} config.llmService
+ * @param {string} [config.host]
+ * @param {string} [config.publicHost] - Hostname advertised in the agent card
+ * @param {(level: string, message: string) => void} [config.log]
+ */
+export function createAgentServer({
+  philosopher,
+  llmService,
+  host = '0.0.0.0',
+  publicHost = 'localhost',
+  log = () => {},
+}) {
+  const url = `http://${publicHost}:${philosopher.port}`;
+  const card = buildAgentCard(philosopher, url);
+  const tasks = new Map();
+  const app = express();
+  let server = null;
+
+  app.use(cors());
+  app.use(express.json({ limit: '50mb' }));
+
+  const recordTask = (id, state, message) => {
+    const task = {
+      id,
+      status: { state, timestamp: new Date().toISOString(), ...(message ? { message } : {}) },
+    };
+    tasks.set(id, { ...tasks.get(id), task });
+    // Evict the oldest finished tasks; running ones stay cancelable however many there are
+    for (const [taskId, entry] of tasks) {
+      if (tasks.size <= MAX_TRACKED_TASKS) {
+        break;
+      }
+      if (TERMINAL_STATES.has(entry.task.status.state)) {
+        tasks.delete(taskId);
+      }
+    }
+    return task;
+  };
+
+  /**
+   * Runs `call` with the philosopher's options; when the provider rejects the
+   * model, retries once with its default model, as `/api/message` does.
+   */
+  const withModelFallback = async (call, canRetry = () => true) => {
+    const options = llmOptions(philosopher);
+    try {
+      return await call(options);
+    } catch (error) {
+      if (error?.code !== 'UNSUPPORTED_MODEL' || !optionsContainModel(options) || !canRetry()) {
+        throw error;
+      }
+      log('warn', `${philosopher.name}: model ${error.requestedModel || options.model} unsupported, falling back to the default model`);
+      return call(stripModelFromOptions(options));
+    }
+  };
+
+  const startTask = (params, res) => {
+    const id = typeof params?.id === 'string' && params.id ? params.id : randomBytes(8).toString('hex');
+    const text = extractMessageText(params?.message);
+    if (!text.trim()) {
+      return { error: 'params.message must contain at least one text part' };
+    }
+
+    const controller = new AbortController();
+    // The orchestrator cancels a turn by dropping the connection ("Stop speaker")
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        controller.abort();
+      }
+    });
+    tasks.set(id, { controller });
+    recordTask(id, 'working');
+    log('info', `${philosopher.name} ← task ${id} (${text.length} chars)`);
+    return { id, text, controller };
+  };
+
+  const handleSend = async (rpcId, params, res) => {
+    const started = startTask(params, res);
+    if (started.error) {
+      res.json(rpcError(rpcId, JSON_RPC_ERRORS.INVALID_PARAMS, started.error));
+      return;
+    }
+
+    const { id, text, controller } = started;
+    try {
+      const response = await withModelFallback(options =>
+        llmService.sendMessage({
+          messages: [{ role: 'user', content: text }],
+          options,
+          signal: controller.signal,
+        }),
+      );
+      const content = typeof response?.content === 'string' ? response.content : '';
+      const task = recordTask(id, 'completed', agentMessage(content));
+      log('info', `${philosopher.name} → task ${id} completed (${content.length} chars)`);
+      res.json(rpcResult(rpcId, {
+        ...task,
+        artifacts: [{ index: 0, parts: textParts(content) }],
+        metadata: answeredBy(response?.metadata),
+      }));
+    } catch (error) {
+      if (isAbortError(error)) {
+        const task = recordTask(id, 'canceled');
+        log('warn', `${philosopher.name} task ${id} cancelled`);
+        // Answer a request canceled through `tasks/cancel`; a dropped one is gone
+        if (!res.destroyed) {
+          res.json(rpcResult(rpcId, task));
+        }
+        return;
+      }
+      const task = recordTask(id, 'failed', agentMessage(error?.message || 'Agent error'));
+      log('error', `${philosopher.name} task ${id} failed: ${error?.message}`);
+      res.json(rpcResult(rpcId, task));
+    }
+  };
+
+  const handleSendSubscribe = async (rpcId, params, res) => {
+    const started = startTask(params, res);
+    if (started.error) {
+      res.json(rpcError(rpcId, JSON_RPC_ERRORS.INVALID_PARAMS, started.error));
+      return;
+    }
+
+    const { id, text, controller } = started;
+    let emittedChars = 0;
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders?.();
+
+    const emit = result => {
+      if (!res.writableEnded && !res.destroyed) {
+        res.write(`data: ${JSON.stringify(rpcResult(rpcId, result))}\n\n`);
+      }
+    };
+
+    const finish = (state, message, metadata) => {
+      const task = recordTask(id, state, message);
+      emit({ id, status: task.status, final: true, ...(metadata ? { metadata } : {}) });
+      res.end();
+    };
+
+    // Close the stream with a final `canceled` event (unless the client left)
+    const cancel = () => {
+      log('warn', `${philosopher.name} task ${id} cancelled`);
+      finish('canceled');
+    };
+
+    emit({ id, status: tasks.get(id).task.status, final: false });
+
+    // Stream errors arrive through onError; rethrow them so a rejected model can fall back
+    const runStream = async options => {
+      let failure;
+      await llmService.streamMessage({
+        messages: [{ role: 'user', content: text }],
+        options,
+        signal: controller.signal,
+        onToken: token => {
+          const chunk = typeof token === 'string' ? token : token != null ? String(token) : '';
+          if (!chunk) {
+            return;
+          }
+          emittedChars += chunk.length;
+          emit({ id, artifact: { index: 0, append: true, parts: textParts(chunk) }, final: false });
+        },
+        onDone: metadata => {
+          log('info', `${philosopher.name} → task ${id} completed (${emittedChars} chars streamed)`);
+          finish('completed', undefined, answeredBy(metadata));
+        },
+        onError: error => {
+          failure ??= error;
+        },
+      });
+      if (failure) {
+        throw failure;
+      }
+    };
+
+    try {
+      // Only a stream that has not sent anything yet can start over
+      await withModelFallback(runStream, () => emittedChars === 0);
+    } catch (error) {
+      if (isAbortError(error)) {
+        cancel();
+        return;
+      }
+      log('error', `${philosopher.name} task ${id} failed: ${error?.message}`);
+      finish('failed', agentMessage(error?.message || 'Agent error'));
+    }
+  };
+
+  const handleCancel = (rpcId, params, res) => {
+    const entry = tasks.get(params?.id);
+    if (!entry) {
+      res.json(rpcError(rpcId, JSON_RPC_ERRORS.TASK_NOT_FOUND, `Task not found: ${params?.id}`));
+      return;
+    }
+    entry.controller?.abort();
+    res.json(rpcResult(rpcId, recordTask(params.id, 'canceled')));
+  };
+
+  const handleGet = (rpcId, params, res) => {
+    const entry = tasks.get(params?.id);
+    if (!entry) {
+      res.json(rpcError(rpcId, JSON_RPC_ERRORS.TASK_NOT_FOUND, `Task not found: ${params?.id}`));
+      return;
+    }
+    res.json(rpcResult(rpcId, entry.task));
+  };
+
+  app.get('/.well-known/agent.json', (req, res) => {
+    res.json(card);
+  });
+
+  app.post('/', async (req, res) => {
+    const body = req.body;
+    if (!body || body.jsonrpc !== '2.0' || typeof body.method !== 'string') {
+      res.json(rpcError(body?.id, JSON_RPC_ERRORS.INVALID_REQUEST, 'Invalid JSON-RPC request'));
+      return;
+    }
+
+    switch (body.method) {
+      case 'tasks/send':
+        await handleSend(body.id, body.params, res);
+        return;
+      case 'tasks/sendSubscribe':
+        await handleSendSubscribe(body.id, body.params, res);
+        return;
+      case 'tasks/cancel':
+        handleCancel(body.id, body.params, res);
+        return;
+      case 'tasks/get':
+        handleGet(body.id, body.params, res);
+        return;
+      default:
+        res.json(rpcError(body.id, JSON_RPC_ERRORS.METHOD_NOT_FOUND, `Method not found: ${body.method}`));
+    }
+  });
+
+  // Malformed JSON bodies surface as JSON-RPC parse errors instead of HTML pages
+  app.use((error, req, res, next) => {
+    if (error?.type === 'entity.parse.failed') {
+      res.status(400).json(rpcError(null, JSON_RPC_ERRORS.PARSE_ERROR, 'Parse error'));
+      return;
+    }
+    res.status(500).json(rpcError(null, JSON_RPC_ERRORS.INTERNAL_ERROR, error?.message || 'Internal error'));
+  });
+
+  return {
+    philosopher,
+    card,
+    url,
+    start() {
+      return new Promise((resolve, reject) => {
+        const instance = app.listen(philosopher.port, host);
+        instance.once('listening', () => {
+          server = instance;
+          resolve();
+        });
+        instance.once('error', reject);
+      });
+    },
+    stop() {
+      for (const entry of tasks.values()) {
+        entry.controller?.abort();
+      }
+      tasks.clear();
+      if (!server) {
+        return Promise.resolve();
+      }
+      const instance = server;
+      server = null;
+      return new Promise(resolve => {
+        instance.close(() => resolve());
+        instance.closeAllConnections?.();
+      });
+    },
+  };
+}
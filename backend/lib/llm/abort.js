@@ -0,0 +1,22 @@
+/**
+ * Helpers for propagating client cancellation down to providers.
+ */
+
+/**
+ * Create an error describing a cancelled request.
+ * @param {string} [message]
+ */
+export function createAbortError(message = 'Request aborted by client') {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  error.code = 'ABORTED';
+  return error;
+}
+
+/**
+ * Detect errors caused by an aborted signal, regardless of which layer raised them.
+ * @param {unknown} error
+ */
+export function isAbortError(error) {
+  return !!error && typeof error === 'object' && (error.code === 'ABORTED' || error.name === 'AbortError');
+}
@@ -0,0 +1,299 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Record/replay layer ("cassettes") around the LLM service.
+ *
+ * In `record` mode every successful call is passed through to the provider and
+ * written to `<directory>/<key>.json`, where the key hashes the messages and
+ * options. In `replay` mode the provider is never called: recordings are served
+ * by key, streamed with the tokens they were recorded with, and a prompt with
+ * no recording fails with `CASSETTE_MISS` and a line diff against the closest
+ * recorded prompt. That makes prompt-template changes regression-testable and
+ * past sessions replayable.
+ */
+
+export const CASSETTE_MODES = ['off', 'record', 'replay'];
+
+const DEFAULT_DIRECTORY = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../../data/cassettes',
+);
+
+// Unchanged lines kept around each difference in a mismatch diff
+const DIFF_CONTEXT_LINES = 2;
+// Prompts are compared line by line; longer diffs are cut short
+const MAX_DIFF_LINES = 80;
+
+function cassetteError(message, code) {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+}
+
+/**
+ * JSON with sorted keys and without undefined values, so equal requests hash
+ * equally whatever order their options were built in.
+ */
+function stableStringify(value) {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : stableStringify(item))).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function cassetteKey(messages, options = {}) {
+  return createHash('sha256')
+    .update(stableStringify({ messages, options }))
+    .digest('hex')
+    .slice(0, 24);
+}
+
+function promptText(messages, options = {}) {
+  const conversation = messages
+    .map(message => `${message.role}: ${typeof message.content === 'string' ? message.content : JSON.stringify(message.content)}`)
+    .join('\n\n');
+  const rest = { ...options };
+  delete rest.system;
+  const header = Object.keys(rest).length ? `options: ${stableStringify(rest)}\n\n` : '';
+  return `${header}${options.system ? `system: ${options.system}\n\n` : ''}${conversation}`;
+}
+
+/** Longest-common-subsequence table over two line arrays. */
+function lcsTable(a, b) {
+  const table = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table;
+}
+
+/** Share of lines the two texts have in common (0–1). */
+export function lineSimilarity(a, b) {
+  const left = a.split('\n');
+  const right = b.split('\n');
+  const common = lcsTable(left, right)[0][0];
+  return (2 * common) / (left.length + right.length);
+}
+
+/**
+ * Line diff from the recorded prompt (`-`) to the requested one (`+`), with a
+ * little context around each change.
+ */
+export function diffLines(recorded, requested) {
+  const a = recorded.split('\n');
+  const b = requested.split('\n');
+  const table = lcsTable(a, b);
+  const ops = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i] });
+      i += 1;
+      j += 1;
+    } else if (i < a.length && (j === b.length || table[i + 1][j] >= table[i][j + 1])) {
+      ops.push({ type: '-', line: a[i] });
+      i += 1;
+    } else {
+      ops.push({ type: '+', line: b[j] });
+      j += 1;
+    }
+  }
+
+  const keep = ops.map((op, index) =>
+    ops
+      .slice(Math.max(0, index - DIFF_CONTEXT_LINES), index + DIFF_CONTEXT_LINES + 1)
+      .some(near => near.type !== ' '),
+  );
+  const lines = [];
+  ops.forEach((op, index) => {
+    if (keep[index]) {
+      lines.push(`${op.type} ${op.line}`);
+    } else if (index === 0 || keep[index - 1]) {
+      lines.push('  …');
+    }
+  });
+  if (lines.length > MAX_DIFF_LINES) {
+    return [...lines.slice(0, MAX_DIFF_LINES), `  … ${lines.length - MAX_DIFF_LINES} more lines`].join('\n');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * @param {ReturnType<import('./index.js').createLLMService>} llmService
+ * @param {object} [config]
+ * @param {'off' | 'record' | 'replay'} [config.mode]
+ * @param {string} [config.directory]
+ * @param {(level: string, message: string) => void} [config.log]
+ */
+export function createCassetteService(
+  llmService,
+  {
+    mode = process.env.LLM_CASSETTE_MODE || 'off',
+    directory = process.env.LLM_CASSETTE_DIR || DEFAULT_DIRECTORY,
+    log = () => {},
+  } = {},
+) {
+  if (!CASSETTE_MODES.includes(mode)) {
+    throw new Error(`Unsupported cassette mode: ${mode} (expected ${CASSETTE_MODES.join(', ')})`);
+  }
+  if (mode === 'off') {
+    return llmService;
+  }
+
+  let recordingsPromise;
+
+  const loadRecordings = async () => {
+    let entries;
+    try {
+      entries = await readdir(directory);
+    } catch (error) {
+      if (error?.code === 'ENOENT') {
+        return new Map();
+      }
+      throw error;
+    }
+    const recordings = new Map();
+    for (const entry of entries.filter(name => name.endsWith('.json'))) {
+      try {
+        const recording = JSON.parse(await readFile(path.join(directory, entry), 'utf8'));
+        recordings.set(recording.key, recording);
+      } catch (error) {
+        log('warn', `Skipping unreadable cassette ${entry}: ${error.message}`);
+      }
+    }
+    return recordings;
+  };
+
+  const recordings = () => {
+    recordingsPromise ??= loadRecordings();
+    return recordingsPromise;
+  };
+
+  const save = async recording => {
+    await mkdir(directory, { recursive: true });
+    const target = path.join(directory, `${recording.key}.json`);
+    // Write to a temp file first so a crash never leaves a half-written cassette
+    const temp = `${target}.${randomBytes(4).toString('hex')}.tmp`;
+    await writeFile(temp, JSON.stringify(recording, null, 2), 'utf8');
+    await rename(temp, target);
+    (await recordings()).set(recording.key, recording);
+    log('info', `Recorded cassette ${recording.key}`);
+  };
+
+  const record = (messages, options, content, metadata, tokens) =>
+    save({
+      key: cassetteKey(messages, options),
+      recordedAt: new Date().toISOString(),
+      messages,
+      options,
+      content,
+      ...(tokens ? { tokens } : {}),
+      metadata,
+    });
+
+  const replay = async (messages, options) => {
+    const key = cassetteKey(messages, options);
+    const loaded = await recordings();
+    const recording = loaded.get(key);
+    if (recording) {
+      log('info', `Replaying cassette ${key}`);
+      return recording;
+    }
+
+    const requested = promptText(messages, options);
+    let closest;
+    let bestScore = -1;
+    for (const candidate of loaded.values()) {
+      const score = lineSimilarity(promptText(candidate.messages, candidate.options), requested);
+      if (score > bestScore) {
+        closest = candidate;
+        bestScore = score;
+      }
+    }
+
+    const error = cassetteError(
+      closest
+        ? `No cassette recorded for this prompt (key ${key}); closest is ${closest.key} (${Math.round(bestScore * 100)}% of lines match)`
+        : `No cassette recorded for this prompt (key ${key}); ${directory} has no recordings`,
+      'CASSETTE_MISS',
+    );
+    error.key = key;
+    if (closest) {
+      error.closestKey = closest.key;
+      error.diff = diffLines(promptText(closest.messages, closest.options), requested);
+    }
+    log('warn', `${error.message}${error.diff ? `\n${error.diff}` : ''}`);
+    throw error;
+  };
+
+  const replayMetadata = recording => ({
+    ...recording.metadata,
+    cassette: { key: recording.key, recordedAt: recording.recordedAt },
+    timestamp: Date.now(),
+  });
+
+  return {
+    ...llmService,
+    cassetteMode: mode,
+
+    async sendMessage({ messages, options, signal }) {
+      if (mode === 'replay') {
+        const recording = await replay(messages, options);
+        return { content: recording.content, metadata: replayMetadata(recording) };
+      }
+
+      const response = await llmService.sendMessage({ messages, options, signal });
+      try {
+        await record(messages, options, response.content, response.metadata);
+      } catch (error) {
+        log('error', `Failed to record cassette: ${error.message}`);
+      }
+      return response;
+    },
+
+    async streamMessage({ messages, options, signal, onToken, onDone, onError }) {
+      if (mode === 'replay') {
+        const recording = await replay(messages, options);
+        for (const token of recording.tokens ?? [recording.content]) {
+          onToken(token);
+        }
+        onDone?.(replayMetadata(recording));
+        return;
+      }
+
+      const tokens = [];
+      let saving;
+      await llmService.streamMessage({
+        messages,
+        options,
+        signal,
+        onToken: token => {
+          tokens.push(token);
+          onToken(token);
+        },
+        onDone: metadata => {
+          saving = record(messages, options, tokens.join(''), metadata, tokens).catch(error => {
+            log('error', `Failed to record cassette: ${error.message}`);
+          });
+          onDone?.(metadata);
+        },
+        onError,
+      });
+      // Finish writing before the call settles, so a replay right after finds it
+      await saving;
+    },
+  };
+}
@@ -1,15 +1,22 @@
 import { assertValidMessages, hasMultimodalContent, buildPrompt } from './promptUtils.js';
 import { claudeProvider } from './providers/claudeProvider.js';
 import { codexProvider } from './providers/codexProvider.js';
+import { openaiCompatibleProvider } from './providers/openaiCompatibleProvider.js';
+import { mockProvider } from './providers/mockProvider.js';
 
 const DEFAULT_PROVIDERS = {
   codex: codexProvider,
   claude: claudeProvider,
+  openai: openaiCompatibleProvider,
+  mock: mockProvider,
 };
 
 const DEFAULT_MODELS = {
   codex: process.env.CODEX_MODEL || 'gpt5-codex',
   claude: process.env.CLAUDE_MODEL || 'sonnet',
+  // Local servers often serve a single model and ignore the name
+  openai: process.env.OPENAI_COMPAT_MODEL || undefined,
+  mock: 'scripted',
 };
 
 const CODEX_MODEL_PATTERN = /(codex|gpt)/i;
@@ -36,6 +43,18 @@ function normalizeClaudeModelName(model, defaultModel) {
   return defaultModel;
 }
 
+/**
+ * Local servers name models freely (`llama3.1:8b`, `Qwen/Qwen2.5-7B-Instruct`),
+ * so the name is passed through; only an `openai/` routing prefix is dropped.
+ */
+function normalizeOpenAIModelName(model, defaultModel) {
+  if (!model || typeof model !== 'string' || !model.trim()) {
+    return defaultModel;
+  }
+
+  return model.trim().replace(/^openai\//i, '');
+}
+
 function resolveProviderKey(providers) {
   const envProvider = process.env.LLM_PROVIDER?.toLowerCase();
   if (envProvider && providers[envProvider]) {
@@ -58,6 +77,24 @@ export function createLLMService({ providers = DEFAULT_PROVIDERS, websearchEnabl
     throw new Error(`Unsupported LLM provider: ${providerKey}`);
   }
 
+  /**
+   * Picks the provider for one request: `options.provider` (e.g. a philosopher's
+   * own choice) when set, otherwise the process-wide default.
+   */
+  const selectProvider = (options = {}) => {
+    const { provider: requestedKey, ...rest } = options ?? {};
+    if (requestedKey === undefined || requestedKey === null || requestedKey === '') {
+      return { key: providerKey, selected: provider, options: rest };
+    }
+    const key = String(requestedKey).toLowerCase();
+    if (!providers[key]) {
+      const error = new Error(`Invalid request: unsupported LLM provider "${requestedKey}"`);
+      error.code = 'INVALID_REQUEST';
+      throw error;
+    }
+    return { key, selected: providers[key], options: rest };
+  };
+
   const validate = messages => {
     assertValidMessages(messages);
     if (hasMultimodalContent(messages)) {
@@ -67,10 +104,10 @@ export function createLLMService({ providers = DEFAULT_PROVIDERS, websearchEnabl
     }
   };
 
-  const normalizeOptionsForProvider = options => {
-    const defaultModel = DEFAULT_MODELS[providerKey];
+  const normalizeOptionsForProvider = (key, options) => {
+    const defaultModel = DEFAULT_MODELS[key];
 
-    if (providerKey === 'codex') {
+    if (key === 'codex') {
       const {
         model,
         providerOptions = {},
@@ -109,7 +146,7 @@ export function createLLMService({ providers = DEFAULT_PROVIDERS, websearchEnabl
       };
     }
 
-    if (providerKey === 'claude') {
+    if (key === 'claude') {
       const { model, ...rest } = options ?? {};
       const requestedModel = model || defaultModel;
       const resolvedModel = normalizeClaudeModelName(requestedModel, defaultModel);
@@ -133,41 +170,77 @@ export function createLLMService({ providers = DEFAULT_PROVIDERS, websearchEnabl
       };
     }
 
+    if (key === 'openai') {
+      const { model, providerOptions = {}, ...rest } = options ?? {};
+      const requestedModel = model || providerOptions.model;
+      const resolvedModel = normalizeOpenAIModelName(requestedModel, defaultModel);
+      const normalizedOptions = {
+        ...rest,
+        ...(Object.keys(providerOptions).length ? { providerOptions } : {}),
+        ...(resolvedModel ? { model: resolvedModel } : {}),
+      };
+
+      return {
+        normalized: normalizedOptions,
+        requestedModel,
+        resolvedModel,
+      };
+    }
+
+    if (key === 'mock') {
+      // Replies come from fixtures whatever the model; keep the name for the record
+      const { model, ...rest } = options ?? {};
+      return {
+        normalized: rest,
+        requestedModel: model,
+        resolvedModel: model || defaultModel,
+      };
+    }
+
     return { normalized: options, requestedModel: undefined, resolvedModel: undefined };
   };
 
   const prepare = (messages, options = {}) => {
-    const { system, ...otherOptions } = options;
-    const { normalized, requestedModel, resolvedModel } = normalizeOptionsForProvider(otherOptions);
+    const { key, selected, options: requestOptions } = selectProvider(options);
+    const { system, ...otherOptions } = requestOptions;
+    const { normalized, requestedModel, resolvedModel } = normalizeOptionsForProvider(key, otherOptions);
     const prompt = buildPrompt(messages, system);
-    return { prompt, providerOptions: normalized ?? {}, requestedModel, resolvedModel };
+    return {
+      key,
+      selected,
+      prompt,
+      providerOptions: normalized ?? {},
+      requestedModel,
+      resolvedModel,
+    };
   };
 
-  const wrapMetadata = metadata => ({
+  const wrapMetadata = (key, selected, metadata) => ({
     ...metadata,
-    provider: provider.name,
-    providerKey,
-    source: provider.name,
+    provider: selected.name,
+    providerKey: key,
+    source: selected.name,
     timestamp: metadata?.timestamp ?? Date.now(),
   });
 
   return {
     providerName: provider.name,
 
-    async sendMessage({ messages, options }) {
+    async sendMessage({ messages, options, signal }) {
       validate(messages);
-      const { prompt, providerOptions, requestedModel, resolvedModel } = prepare(messages, options);
-      const response = await provider.send({
+      const { key, selected, prompt, providerOptions, requestedModel, resolvedModel } = prepare(messages, options);
+      const response = await selected.send({
         prompt,
         options: {
           ...providerOptions,
           requestedModel,
           resolvedModel,
-        }
+        },
+        signal,
       });
       return {
         content: response.content,
-        metadata: wrapMetadata({
+        metadata: wrapMetadata(key, selected, {
           ...(response.metadata || {}),
           requestedModel,
           resolvedModel,
@@ -175,24 +248,25 @@ export function createLLMService({ providers = DEFAULT_PROVIDERS, websearchEnabl
       };
     },
 
-    async streamMessage({ messages, options, onToken, onDone, onError }) {
+    async streamMessage({ messages, options, signal, onToken, onDone, onError }) {
       validate(messages);
-      const { prompt, providerOptions, requestedModel, resolvedModel } = prepare(messages, options);
-      return provider.stream({
+      const { key, selected, prompt, providerOptions, requestedModel, resolvedModel } = prepare(messages, options);
+      return selected.stream({
         prompt,
         options: {
           ...providerOptions,
           requestedModel,
           resolvedModel,
         },
+        signal,
         onToken,
         onDone: metadata => {
           if (typeof onDone === 'function') {
-            onDone({
+            onDone(wrapMetadata(key, selected, {
               ...(metadata || {}),
               requestedModel,
               resolvedModel,
-            });
+            }));
           }
         },
         onError,
@@ -205,6 +279,11 @@ export function createLLMService({ providers = DEFAULT_PROVIDERS, websearchEnabl
 
     getProviderName() {
       return provider.name;
-    }
+    },
+
+    /** Provider keys a request (or a philosopher) may select with `options.provider`. */
+    getProviderKeys() {
+      return Object.keys(providers);
+    },
   };
 }
@@ -0,0 +1,42 @@
+/**
+ * Default-model fallback shared by the HTTP routes and the A2A agents: a request
+ * whose model the provider rejects with `UNSUPPORTED_MODEL` is retried once
+ * without the model.
+ */
+
+/** True when the request names a model, directly or in `providerOptions`. */
+export function optionsContainModel(options) {
+  if (!options || typeof options !== 'object') {
+    return false;
+  }
+
+  if (typeof options.model === 'string' && options.model.trim().length > 0) {
+    return true;
+  }
+
+  const providerOptions = options.providerOptions;
+  return !!(providerOptions && typeof providerOptions === 'object' && typeof providerOptions.model === 'string' && providerOptions.model.trim().length > 0);
+}
+
+/** The same options without any model, so the provider uses its default. */
+export function stripModelFromOptions(options) {
+  if (!options || typeof options !== 'object') {
+    return {};
+  }
+
+  const sanitized = { ...options };
+
+  if (sanitized.providerOptions && typeof sanitized.providerOptions === 'object') {
+    const providerOptions = { ...sanitized.providerOptions };
+    delete providerOptions.model;
+    if (Object.keys(providerOptions).length > 0) {
+      sanitized.providerOptions = providerOptions;
+    } else {
+      delete sanitized.providerOptions;
+    }
+  }
+
+  delete sanitized.model;
+
+  return sanitized;
+}
@@ -1,5 +1,6 @@
 import { query } from '@anthropic-ai/claude-agent-sdk';
 import { extractTextBlocks } from '../promptUtils.js';
+import { createAbortError, isAbortError } from '../abort.js';
 
 const DEFAULT_AGENT_OPTIONS = {
   permissionMode: 'bypassPermissions',
@@ -7,6 +8,22 @@ const DEFAULT_AGENT_OPTIONS = {
   allowedTools: [],
 };
 
+/**
+ * Bridge an incoming AbortSignal to the AbortController the Agent SDK expects.
+ * @param {AbortSignal | undefined} signal
+ */
+function linkAbortController(signal) {
+  const controller = new AbortController();
+  if (signal) {
+    if (signal.aborted) {
+      controller.abort();
+    } else {
+      signal.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+  }
+  return controller;
+}
+
 /**
  * Claude Agent SDK provider implementation.
  */
@@ -15,42 +32,51 @@ export const claudeProvider = {
 
   /**
    * Execute a non-streaming query and collect the full response text.
-   * @param {{ prompt: string, options?: Record<string, unknown> }} params
+   * @param {{ prompt: string, options?: Record<string, unknown>, signal?: AbortSignal }} params
    */
-  async send({ prompt, options = {} }) {
+  async send({ prompt, options = {}, signal }) {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
     const agentQuery = query({
       prompt,
       options: {
         ...DEFAULT_AGENT_OPTIONS,
         ...options,
+        abortController: linkAbortController(signal),
       }
     });
 
     let responseText = '';
     let isComplete = false;
 
-    for await (const message of agentQuery) {
-      if (message.type === 'assistant') {
-        responseText += extractTextBlocks(message.message?.content);
-      }
+    try {
+      for await (const message of agentQuery) {
+        if (message.type === 'assistant') {
+          responseText += extractTextBlocks(message.message?.content);
+        }
 
-      if (message.type === 'result') {
-        isComplete = true;
-        if (message.subtype === 'success') {
-          responseText = typeof message.result === 'string'
-            ? message.result
-            : responseText;
-        } else if (message.subtype === 'error') {
-          const error = new Error(message.error || 'Agent SDK returned an error');
-          error.cause = message;
-          throw error;
+        if (message.type === 'result') {
+          isComplete = true;
+          if (message.subtype === 'success') {
+            responseText = typeof message.result === 'string'
+              ? message.result
+              : responseText;
+          } else if (message.subtype === 'error') {
+            const error = new Error(message.error || 'Agent SDK returned an error');
+            error.cause = message;
+            throw error;
+          }
+          break;
         }
-        break;
       }
+    } catch (error) {
+      throw signal?.aborted || isAbortError(error) ? createAbortError() : error;
     }
 
     if (!isComplete) {
-      throw new Error('Agent SDK query did not complete');
+      throw signal?.aborted ? createAbortError() : new Error('Agent SDK query did not complete');
     }
 
     return {
@@ -67,18 +93,24 @@ export const claudeProvider = {
    * @param {{
    *   prompt: string,
    *   options?: Record<string, unknown>,
+   *   signal?: AbortSignal,
    *   onToken: (token: string) => void,
    *   onDone: () => void,
    *   onError: (error: Error) => void,
    * }} params
    */
-  async stream({ prompt, options = {}, onToken, onDone, onError }) {
+  async stream({ prompt, options = {}, signal, onToken, onDone, onError }) {
     try {
+      if (signal?.aborted) {
+        throw createAbortError();
+      }
+
       const agentQuery = query({
         prompt,
         options: {
           ...DEFAULT_AGENT_OPTIONS,
           ...options,
+          abortController: linkAbortController(signal),
         }
       });
 
@@ -100,7 +132,7 @@ export const claudeProvider = {
         }
       }
     } catch (error) {
-      onError(error);
+      onError(signal?.aborted || isAbortError(error) ? createAbortError() : error);
     }
   }
 };
@@ -1,5 +1,6 @@
 import { spawn as nodeSpawn } from 'node:child_process';
 import readline from 'node:readline';
+import { createAbortError } from '../abort.js';
 
 const DEFAULT_ARGS = ['exec', '--json'];
 
@@ -126,8 +127,13 @@ function handleCodexEvent(event, handlers) {
   }
 }
 
-function spawnCodexProcess(spawnImpl, prompt, options, handlers) {
+function spawnCodexProcess(spawnImpl, prompt, options, handlers, signal) {
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
     const parsedOptions = parseCodexOptions(options);
     const args = buildArgs(parsedOptions);
 
@@ -140,9 +146,23 @@ function spawnCodexProcess(spawnImpl, prompt, options, handlers) {
     const stderrChunks = [];
     const requestedModel = options.requestedModel;
 
+    const onAbort = () => {
+      if (settled) return;
+      settled = true;
+      try {
+        child.kill('SIGTERM');
+      } catch {
+        // ignore
+      }
+      reject(createAbortError());
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
     const safeReject = error => {
       if (settled) return;
       settled = true;
+      signal?.removeEventListener('abort', onAbort);
       try {
         child.kill('SIGKILL');
       } catch {
@@ -154,6 +174,7 @@ function spawnCodexProcess(spawnImpl, prompt, options, handlers) {
     const safeResolve = () => {
       if (settled) return;
       settled = true;
+      signal?.removeEventListener('abort', onAbort);
       resolve();
     };
 
@@ -199,14 +220,14 @@ export function createCodexProvider(spawnImpl = nodeSpawn) {
   return {
     name: providerName,
 
-    async send({ prompt, options = {} }) {
+    async send({ prompt, options = {}, signal }) {
       let buffer = '';
 
       await spawnCodexProcess(spawnImpl, prompt, options, {
         onToken: token => {
           buffer += token;
         },
-      });
+      }, signal);
 
       return {
         content: buffer,
@@ -217,9 +238,9 @@ export function createCodexProvider(spawnImpl = nodeSpawn) {
       };
     },
 
-    async stream({ prompt, options = {}, onToken, onDone, onError }) {
+    async stream({ prompt, options = {}, signal, onToken, onDone, onError }) {
       try {
-        await spawnCodexProcess(spawnImpl, prompt, options, { onToken });
+        await spawnCodexProcess(spawnImpl, prompt, options, { onToken }, signal);
         onDone();
       } catch (error) {
         onError(error);
@@ -0,0 +1,207 @@
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { setTimeout as delay } from 'node:timers/promises';
+import { createAbortError, isAbortError } from '../abort.js';
+
+/**
+ * Scripted provider for offline development and automated tests.
+ *
+ * Philosopher turns are answered from per-philosopher fixture scripts
+ * (`data/mock-llm/<id>.json`) in order, cycling when a script runs out, so the
+ * same sequence of prompts always gets the same replies. Replies use the JSON
+ * shape of the orchestrator's output contract (`reasoning`, `final`,
+ * `addressees`), which exercises addressee routing without a model. Bids,
+ * memory summaries and translations get simple deterministic answers.
+ *
+ * A script entry with an `error` field fails that call instead; setting
+ * `failEvery` fails every Nth call with a transient 503.
+ */
+
+const DEFAULT_FIXTURES_DIR = fileURLToPath(new URL('../../../data/mock-llm', import.meta.url));
+
+const ENV_DEFAULTS = {
+  fixturesDir: process.env.MOCK_LLM_FIXTURES || DEFAULT_FIXTURES_DIR,
+  latencyMs: Number(process.env.MOCK_LLM_LATENCY_MS || 200),
+  tokenDelayMs: Number(process.env.MOCK_LLM_TOKEN_DELAY_MS || 20),
+  failEvery: Number(process.env.MOCK_LLM_FAIL_EVERY || 0),
+};
+
+// Script used for philosophers without a fixture of their own
+const DEFAULT_SCRIPT = 'default';
+
+function mockError(message, status) {
+  const error = new Error(status ? `Mock provider error ${status}: ${message}` : message);
+  if (status) {
+    error.status = status;
+  }
+  return error;
+}
+
+/**
+ * Tell the kinds of prompt the orchestrator sends apart by their wording.
+ */
+export function classifyPrompt(prompt) {
+  const persona = prompt.match(/<SystemPersona philosopher="([^"]+)"/);
+  if (persona) {
+    const topic = prompt.match(/The topic to be discussed today is: (.*)/);
+    return { kind: 'turn', philosopher: persona[1], topic: topic?.[1]?.trim() };
+  }
+  if (/How urgently do you need to speak next\?/.test(prompt)) {
+    return { kind: 'bid', speaker: prompt.match(/^You are (.+?) \(/)?.[1] };
+  }
+  if (/^You maintain the long-term memory of /.test(prompt)) {
+    return { kind: 'summary', speaker: prompt.match(/^You maintain the long-term memory of (.+?) in /)?.[1] };
+  }
+  if (/^(?:Translate|Render) the following text/.test(prompt)) {
+    return { kind: 'translation', classical: /Classical Chinese/.test(prompt) };
+  }
+  return { kind: 'other' };
+}
+
+/** Small stable hash so bids depend on the prompt, not on call order. */
+function hashText(text) {
+  let hash = 0;
+  for (let index = 0; index < text.length; index += 1) {
+    hash = (hash * 31 + text.charCodeAt(index)) >>> 0;
+  }
+  return hash;
+}
+
+function fillTemplate(text, values) {
+  return typeof text === 'string'
+    ? text.replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match)
+    : text;
+}
+
+async function loadScripts(fixturesDir) {
+  let files;
+  try {
+    files = (await readdir(fixturesDir)).filter(file => file.endsWith('.json'));
+  } catch (error) {
+    throw mockError(`Mock provider cannot read fixtures in ${fixturesDir}: ${error.message}`);
+  }
+
+  const scripts = new Map();
+  for (const file of files.sort()) {
+    const fixture = JSON.parse(await readFile(path.join(fixturesDir, file), 'utf8'));
+    if (!Array.isArray(fixture?.replies) || fixture.replies.length === 0) {
+      throw mockError(`Mock fixture ${file} must contain a non-empty "replies" array`);
+    }
+    scripts.set(fixture.philosopher || path.basename(file, '.json'), fixture.replies);
+  }
+  return scripts;
+}
+
+export function createMockProvider({
+  fixturesDir = ENV_DEFAULTS.fixturesDir,
+  latencyMs = ENV_DEFAULTS.latencyMs,
+  tokenDelayMs = ENV_DEFAULTS.tokenDelayMs,
+  failEvery = ENV_DEFAULTS.failEvery,
+} = {}) {
+  const providerName = 'mock';
+  const cursors = new Map();
+  let scriptsPromise;
+  let calls = 0;
+
+  const scripts = () => {
+    scriptsPromise ??= loadScripts(fixturesDir).catch(error => {
+      // Let a corrected fixture be picked up on the next call
+      scriptsPromise = undefined;
+      throw error;
+    });
+    return scriptsPromise;
+  };
+
+  const nextReply = async (philosopher, topic) => {
+    const loaded = await scripts();
+    const key = loaded.has(philosopher) ? philosopher : DEFAULT_SCRIPT;
+    const script = loaded.get(key);
+    if (!script) {
+      throw mockError(`Mock provider has no fixture for ${philosopher} and no ${DEFAULT_SCRIPT}.json`);
+    }
+
+    const index = cursors.get(philosopher) ?? 0;
+    cursors.set(philosopher, index + 1);
+    const entry = script[index % script.length];
+    if (entry.error) {
+      throw mockError(entry.error, entry.status ?? 503);
+    }
+
+    const values = { philosopher, topic: topic || 'the topic at hand' };
+    const reply = {
+      reasoning: fillTemplate(entry.reasoning, values),
+      final: fillTemplate(entry.final, values),
+      ...(Array.isArray(entry.addressees) ? { addressees: entry.addressees } : {}),
+      ...(entry.whisper ? { whisper: true } : {}),
+    };
+    return { content: JSON.stringify(reply), fixture: key, reply: index % script.length };
+  };
+
+  const respond = async prompt => {
+    calls += 1;
+    if (failEvery > 0 && calls % failEvery === 0) {
+      throw mockError(`injected failure on call ${calls}`, 503);
+    }
+
+    const request = classifyPrompt(prompt);
+    switch (request.kind) {
+      case 'turn':
+        return nextReply(request.philosopher, request.topic);
+      case 'bid':
+        return { content: String(hashText(prompt) % 11) };
+      case 'summary':
+        return { content: `${request.speaker ?? 'The speaker'} has so far restated their school's position and answered the council.` };
+      case 'translation': {
+        const text = prompt.split('\n\n').slice(1).join('\n\n');
+        return { content: `${request.classical ? '【文言】' : '【中文】'}${text}` };
+      }
+      default:
+        return { content: 'Mock reply.' };
+    }
+  };
+
+  const wait = (ms, signal) => (ms > 0 ? delay(ms, undefined, { signal }) : Promise.resolve());
+
+  return {
+    name: providerName,
+
+    /**
+     * @param {{ prompt: string, options?: Record<string, unknown>, signal?: AbortSignal }} params
+     */
+    async send({ prompt, signal }) {
+      try {
+        await wait(latencyMs, signal);
+        const { content, ...metadata } = await respond(prompt);
+        return {
+          content,
+          metadata: { provider: providerName, ...metadata, timestamp: Date.now() },
+        };
+      } catch (error) {
+        throw signal?.aborted || isAbortError(error) ? createAbortError() : error;
+      }
+    },
+
+    /**
+     * Stream the scripted reply word by word, `tokenDelayMs` apart.
+     */
+    async stream({ prompt, signal, onToken, onDone, onError }) {
+      try {
+        await wait(latencyMs, signal);
+        const { content, ...metadata } = await respond(prompt);
+        for (const word of content.split(/(?<= )/)) {
+          if (signal?.aborted) {
+            throw createAbortError();
+          }
+          onToken(word);
+          await wait(tokenDelayMs, signal);
+        }
+        onDone({ provider: providerName, ...metadata });
+      } catch (error) {
+        onError(signal?.aborted || isAbortError(error) ? createAbortError() : error);
+      }
+    },
+  };
+}
+
+export const mockProvider = createMockProvider();
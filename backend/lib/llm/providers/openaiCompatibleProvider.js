@@ -0,0 +1,240 @@
+import { createAbortError, isAbortError } from '../abort.js';
+
+/**
+ * Provider for servers speaking the OpenAI-compatible `/v1/chat/completions`
+ * protocol: llama.cpp (`llama-server`), vLLM, Ollama and the like, usually
+ * running on the same machine.
+ */
+
+const ENV_DEFAULTS = {
+  baseUrl: process.env.OPENAI_COMPAT_BASE_URL || 'http://localhost:8080/v1',
+  apiKey: process.env.OPENAI_COMPAT_API_KEY,
+};
+
+function trimTrailingSlash(url) {
+  return url.replace(/\/+$/, '');
+}
+
+function buildBody(prompt, options, stream) {
+  const providerOptions = options.providerOptions ?? {};
+  const body = {
+    messages: [{ role: 'user', content: prompt }],
+    stream,
+  };
+
+  if (options.model) {
+    body.model = String(options.model);
+  }
+
+  const maxTokens = options.maxTokens ?? providerOptions.maxTokens;
+  if (typeof maxTokens === 'number') {
+    body.max_tokens = maxTokens;
+  }
+
+  const temperature = options.temperature ?? providerOptions.temperature;
+  if (typeof temperature === 'number') {
+    body.temperature = temperature;
+  }
+
+  return body;
+}
+
+/**
+ * Tag errors the same way the other providers do, so `/api/message` and
+ * `/api/stream` can fall back to the default model on `UNSUPPORTED_MODEL`.
+ */
+function decorateOpenAIError(errorLike, requestedModel, status) {
+  const error = errorLike instanceof Error ? errorLike : new Error(String(errorLike));
+  // llama.cpp, vLLM and Ollama word this differently:
+  // - "model 'x' not found"
+  // - "The model `x` does not exist."
+  // - "unknown model"
+  if (/model.*?(?:not found|does not exist|unsupported|not supported)|(?:unknown|unsupported|invalid) model/i.test(error.message)) {
+    error.code = 'UNSUPPORTED_MODEL';
+  }
+  if (status && !error.status) {
+    error.status = status;
+  }
+  if (requestedModel && !error.requestedModel) {
+    error.requestedModel = requestedModel;
+  }
+  return error;
+}
+
+async function readErrorMessage(response) {
+  const text = await response.text().catch(() => '');
+  try {
+    const json = JSON.parse(text);
+    return json?.error?.message || json?.error || json?.message || text;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Yield the `data:` payload of every server-sent event in a fetch response body.
+ */
+async function* readServerSentEvents(body) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+      boundary = buffer.search(/\r?\n\r?\n/);
+
+      const data = rawEvent
+        .split(/\r?\n/)
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      if (data) {
+        yield data;
+      }
+    }
+  }
+}
+
+export function createOpenAICompatibleProvider({
+  fetchImpl = globalThis.fetch,
+  baseUrl = ENV_DEFAULTS.baseUrl,
+  apiKey = ENV_DEFAULTS.apiKey,
+} = {}) {
+  const providerName = 'openai-compatible';
+  const endpoint = `${trimTrailingSlash(baseUrl)}/chat/completions`;
+
+  const post = async (prompt, options, stream, signal) => {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+    const requestedModel = options.requestedModel;
+    let response;
+    try {
+      response = await fetchImpl(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify(buildBody(prompt, options, stream)),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted || isAbortError(error)) {
+        throw createAbortError();
+      }
+      throw decorateOpenAIError(
+        new Error(`Cannot reach OpenAI-compatible server at ${baseUrl}: ${error?.cause?.code || error?.cause?.message || error?.message || error}`),
+        requestedModel,
+      );
+    }
+
+    if (!response.ok) {
+      const message = await readErrorMessage(response);
+      throw decorateOpenAIError(
+        new Error(`OpenAI-compatible server error ${response.status}: ${message}`),
+        requestedModel,
+        response.status,
+      );
+    }
+
+    return response;
+  };
+
+  return {
+    name: providerName,
+
+    /**
+     * @param {{ prompt: string, options?: Record<string, unknown>, signal?: AbortSignal }} params
+     */
+    async send({ prompt, options = {}, signal }) {
+      const response = await post(prompt, options, false, signal);
+      let json;
+      try {
+        json = await response.json();
+      } catch (error) {
+        throw signal?.aborted || isAbortError(error)
+          ? createAbortError()
+          : decorateOpenAIError(new Error('OpenAI-compatible server returned invalid JSON'), options.requestedModel);
+      }
+
+      const content = json?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw decorateOpenAIError(new Error('OpenAI-compatible server returned no message content'), options.requestedModel);
+      }
+
+      return {
+        content,
+        metadata: {
+          provider: providerName,
+          servedModel: json.model,
+          usage: json.usage,
+          timestamp: Date.now(),
+        },
+      };
+    },
+
+    /**
+     * Stream `choices[0].delta.content` chunks until `data: [DONE]`.
+     * @param {{
+     *   prompt: string,
+     *   options?: Record<string, unknown>,
+     *   signal?: AbortSignal,
+     *   onToken: (token: string) => void,
+     *   onDone: (metadata?: Record<string, unknown>) => void,
+     *   onError: (error: Error) => void,
+     * }} params
+     */
+    async stream({ prompt, options = {}, signal, onToken, onDone, onError }) {
+      try {
+        const response = await post(prompt, options, true, signal);
+        if (!response.body) {
+          throw decorateOpenAIError(new Error('OpenAI-compatible server returned no stream'), options.requestedModel);
+        }
+
+        let servedModel;
+        let finished = false;
+        for await (const data of readServerSentEvents(response.body)) {
+          if (data === '[DONE]') {
+            finished = true;
+            break;
+          }
+
+          let event;
+          try {
+            event = JSON.parse(data);
+          } catch {
+            throw decorateOpenAIError(new Error(`Failed to parse OpenAI-compatible event: ${data}`), options.requestedModel);
+          }
+
+          if (event.error) {
+            throw decorateOpenAIError(
+              new Error(`OpenAI-compatible stream error: ${event.error.message || event.error}`),
+              options.requestedModel,
+            );
+          }
+
+          servedModel = event.model ?? servedModel;
+          const text = event.choices?.[0]?.delta?.content;
+          if (typeof text === 'string' && text.length > 0) {
+            onToken(text);
+          }
+        }
+
+        // A dropped connection must not pass for a complete (but truncated) reply
+        if (!finished) {
+          throw decorateOpenAIError(new Error('OpenAI-compatible stream ended before [DONE]'), options.requestedModel);
+        }
+        onDone({ provider: providerName, servedModel });
+      } catch (error) {
+        onError(signal?.aborted || isAbortError(error) ? createAbortError() : error);
+      }
+    },
+  };
+}
+
+export const openaiCompatibleProvider = createOpenAICompatibleProvider();
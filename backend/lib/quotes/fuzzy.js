@@ -0,0 +1,99 @@
+/**
+ * Fuzzy text matching for quote verification.
+ *
+ * Chinese is compared on character bigrams after folding common simplified
+ * characters to their traditional forms (the corpus is traditional) and
+ * dropping punctuation. English is compared on content words and word pairs,
+ * so the same vocabulary in a different order scores lower. Scores are
+ * containment ratios: how much of the quoted text appears in the passage, so
+ * an accurate excerpt of a longer passage still scores 1.
+ */
+
+// Simplified → traditional, position by position, for characters that occur in
+// the bundled corpus
+const SIMPLIFIED =
+  '学说乐远来愠为众齐无耻礼从习时于义饮饰恶宫尽沟复归风则顺兴罚万争处几亲誉贵谓胜强' +
+  '将损讳贫国盗贼静朴鲜层台坚刚仪贱举乱爱视杀费务别违农谷数鱼鳖恻隐辞让尧横泛滥过门' +
+  '犹邻轻蓝积虽迩载应穷暗伪听间达师择业兽饥饿顾临赏戏观见问闻长尔与岂后发术恒动变实' +
+  '体当经论语庄';
+const TRADITIONAL =
+  '學說樂遠來慍為眾齊無恥禮從習時於義飲飾惡宮盡溝復歸風則順興罰萬爭處幾親譽貴謂勝強' +
+  '將損諱貧國盜賊靜樸鮮層臺堅剛儀賤舉亂愛視殺費務別違農穀數魚鱉惻隱辭讓堯橫氾濫過門' +
+  '猶鄰輕藍積雖邇載應窮闇偽聽間達師擇業獸饑餓顧臨賞戲觀見問聞長爾與豈後發術恆動變實' +
+  '體當經論語莊';
+const SIMPLIFIED_TO_TRADITIONAL = new Map(
+  Array.from(SIMPLIFIED, (char, index) => [char, TRADITIONAL[index]]),
+);
+
+const CHINESE_PUNCTUATION = /[\s，。、；：？！「」『』“”‘’（）《》〈〉·⋯…—\-,.;:?!"'()[\]]/g;
+
+export function normalizeChinese(text) {
+  if (typeof text !== 'string') {
+    return '';
+  }
+  return Array.from(text.replace(CHINESE_PUNCTUATION, ''))
+    .map(char => SIMPLIFIED_TO_TRADITIONAL.get(char) ?? char)
+    .join('');
+}
+
+function bigrams(text) {
+  const chars = Array.from(text);
+  if (chars.length < 2) {
+    return chars;
+  }
+  const grams = [];
+  for (let index = 0; index < chars.length - 1; index += 1) {
+    grams.push(chars[index] + chars[index + 1]);
+  }
+  return grams;
+}
+
+function containment(quoteItems, passageItems) {
+  if (quoteItems.length === 0) {
+    return 0;
+  }
+  const passageSet = new Set(passageItems);
+  return quoteItems.filter(item => passageSet.has(item)).length / quoteItems.length;
+}
+
+/**
+ * Fraction of the quote's character bigrams found in the passage (0–1).
+ */
+export function chineseContainment(quote, passage) {
+  return containment(bigrams(normalizeChinese(quote)), bigrams(normalizeChinese(passage)));
+}
+
+const ENGLISH_STOPWORDS = new Set(
+  'a an and are as at be but by for from he his i if in is it its not of on or so that the their them then there they this to was we were which who will with you'.split(' '),
+);
+
+function englishWords(text) {
+  if (typeof text !== 'string') {
+    return [];
+  }
+  return text
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .split(/[^a-z]+/)
+    .filter(word => word.length > 1 && !ENGLISH_STOPWORDS.has(word));
+}
+
+function wordPairs(words) {
+  return words.slice(1).map((word, index) => `${words[index]} ${word}`);
+}
+
+/**
+ * Mean of word and word-pair containment of the quote in the passage (0–1).
+ */
+export function englishContainment(quote, passage) {
+  const quoteWords = englishWords(quote);
+  if (quoteWords.length === 0) {
+    return 0;
+  }
+  const passageWords = englishWords(passage);
+  const words = containment(quoteWords, passageWords);
+  if (quoteWords.length === 1) {
+    return words;
+  }
+  return (words + containment(wordPairs(quoteWords), wordPairs(passageWords))) / 2;
+}
@@ -0,0 +1,262 @@
+import { readFile, readdir } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { chineseContainment, englishContainment, normalizeChinese } from './fuzzy.js';
+
+/**
+ * Offline classical-text corpus with keyword search.
+ *
+ * Each `<directory>/*.json` file holds one work:
+ * `{ work, chineseTitle, philosopher, translation, passages: [{ id, chapter, section, chinese, english, keywords }] }`.
+ * Passages are ranked by term overlap with the topic, with a boost for the
+ * requested philosopher's own works. Quotes returned by the model can be checked
+ * against the corpus with `verify()`.
+ */
+
+const DEFAULT_DIRECTORY = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../../data/corpus',
+);
+
+const DEFAULT_LIMIT = 3;
+const MAX_LIMIT = 20;
+const PHILOSOPHER_BOOST = 3;
+const KEYWORD_WEIGHT = 2;
+
+// Containment thresholds for quote verification
+const VERIFIED_CHINESE = 0.9;
+const PARAPHRASE_CHINESE = 0.5;
+const VERIFIED_ENGLISH = 0.9;
+const PARAPHRASE_ENGLISH = 0.7;
+
+const STOPWORDS = new Set(
+  'a an and are as at be by can do does for from has have how i in is it its of on or should that the their them they this to was we what when which who why will with you your'.split(' '),
+);
+
+const CJK_PATTERN = /[㐀-鿿]/g;
+
+function quoteError(message, code = 'INVALID_REQUEST') {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+}
+
+/**
+ * Lower-case English terms plus single CJK characters, so Chinese queries match
+ * the original text and English queries match translations and keywords.
+ */
+export function tokenize(text) {
+  if (typeof text !== 'string') {
+    return [];
+  }
+  const words = text
+    .toLowerCase()
+    .replace(CJK_PATTERN, ' ')
+    .split(/[^a-z0-9-]+/)
+    .map(word => word.replace(/^-+|-+$/g, ''))
+    .filter(word => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+  const characters = text.match(CJK_PATTERN) ?? [];
+  return [...words, ...characters];
+}
+
+// Crude plural/gerund folding is enough for keyword matching ("floods" → "flood")
+function stem(word) {
+  if (word.length > 4 && word.endsWith('ing')) {
+    return word.slice(0, -3);
+  }
+  if (word.length > 3 && word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function indexPassage(work, passage) {
+  const keywordTerms = new Set(passage.keywords?.flatMap(keyword => tokenize(keyword)) ?? []);
+  const textTerms = new Set([...tokenize(passage.english), ...tokenize(passage.chinese)]);
+  return {
+    ...passage,
+    work: work.work,
+    chineseTitle: work.chineseTitle,
+    philosopher: work.philosopher,
+    translation: work.translation,
+    source: `${work.work} ${passage.chapter} (${work.chineseTitle}·${passage.section})`,
+    keywordTerms,
+    textTerms,
+  };
+}
+
+function toResult(passage, score) {
+  const { keywordTerms, textTerms, ...rest } = passage;
+  return { ...rest, score };
+}
+
+// The original text decides when the model supplied it; translations vary too much
+function classify(score, hasChinese) {
+  if (score >= (hasChinese ? VERIFIED_CHINESE : VERIFIED_ENGLISH)) {
+    return 'verified';
+  }
+  if (score >= (hasChinese ? PARAPHRASE_CHINESE : PARAPHRASE_ENGLISH)) {
+    return 'close-paraphrase';
+  }
+  return 'unverified';
+}
+
+// A citation names the right work when it mentions the English or Chinese title,
+// in traditional or simplified characters
+function citesWork(source, passage) {
+  const normalized = source.toLowerCase();
+  return (
+    normalized.includes(passage.work.toLowerCase()) ||
+    normalizeChinese(source).includes(normalizeChinese(passage.chineseTitle))
+  );
+}
+
+export function createQuoteIndex({
+  directory = process.env.NABOKOV_CORPUS_DIR || DEFAULT_DIRECTORY,
+} = {}) {
+  let loading = null;
+
+  const load = () => {
+    loading ??= (async () => {
+      const files = (await readdir(directory)).filter(file => file.endsWith('.json')).sort();
+      const works = await Promise.all(
+        files.map(async file => JSON.parse(await readFile(path.join(directory, file), 'utf8'))),
+      );
+      return works.flatMap(work => work.passages.map(passage => indexPassage(work, passage)));
+    })();
+    // Let a failed load be retried on the next request
+    loading.catch(() => {
+      loading = null;
+    });
+    return loading;
+  };
+
+  const overlap = (passage, terms) => {
+    let total = 0;
+    for (const term of terms) {
+      if (passage.keywordTerms.has(term)) {
+        total += KEYWORD_WEIGHT;
+      } else if (passage.textTerms.has(term)) {
+        total += 1;
+      }
+    }
+    return total;
+  };
+
+  return {
+    async works() {
+      const passages = await load();
+      const counts = new Map();
+      for (const passage of passages) {
+        const entry = counts.get(passage.work) ?? {
+          work: passage.work,
+          chineseTitle: passage.chineseTitle,
+          philosopher: passage.philosopher,
+          translation: passage.translation,
+          passages: 0,
+        };
+        entry.passages += 1;
+        counts.set(passage.work, entry);
+      }
+      return Array.from(counts.values());
+    },
+
+    async get(id) {
+      const passage = (await load()).find(entry => entry.id === id);
+      return passage ? toResult(passage, 0) : null;
+    },
+
+    /**
+     * @param {object} query
+     * @param {string} [query.philosopher] - Philosopher id; their own works rank first
+     * @param {string} [query.query] - Topic or prompt text
+     * @param {number} [query.limit]
+     */
+    async search({ philosopher, query, limit = DEFAULT_LIMIT } = {}) {
+      if (philosopher != null && typeof philosopher !== 'string') {
+        throw quoteError('Invalid request: philosopher must be a string');
+      }
+      if (query != null && typeof query !== 'string') {
+        throw quoteError('Invalid request: query must be a string');
+      }
+      const max = Math.min(Math.max(Number.parseInt(limit, 10) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+      const terms = Array.from(new Set(tokenize(query ?? '')));
+      const passages = await load();
+
+      return passages
+        .map((passage, order) => ({ passage, order, score: overlap(passage, terms) }))
+        // The boost only reorders relevant passages; it never makes one relevant
+        .filter(entry => entry.score > 0)
+        .map(entry =>
+          philosopher && entry.passage.philosopher === philosopher
+            ? { ...entry, score: entry.score + PHILOSOPHER_BOOST }
+            : entry,
+        )
+        .sort((a, b) => b.score - a.score || a.order - b.order)
+        .slice(0, max)
+        .map(entry => toResult(entry.passage, entry.score));
+    },
+
+    /**
+     * Fuzzy-matches a quoted passage against the corpus.
+     *
+     * Resolves to `{ status, score, match?, note? }` where `status` is
+     * `verified`, `close-paraphrase` or `unverified`, `score` is the best
+     * containment ratio (0–1) and `match` is the closest passage. A verified
+     * text attributed to the wrong work is downgraded to `close-paraphrase`.
+     *
+     * @param {object} quote
+     * @param {string} [quote.chinese]
+     * @param {string} [quote.english]
+     * @param {string} [quote.source] - Citation as given by the model
+     */
+    async verify({ chinese, english, source } = {}) {
+      for (const [field, value] of Object.entries({ chinese, english, source })) {
+        if (value != null && typeof value !== 'string') {
+          throw quoteError(`Invalid request: ${field} must be a string`);
+        }
+      }
+      if (!chinese?.trim() && !english?.trim()) {
+        throw quoteError('Invalid request: chinese or english text is required');
+      }
+
+      const hasChinese = Boolean(chinese?.trim());
+      let best = null;
+      for (const passage of await load()) {
+        const value = hasChinese
+          ? chineseContainment(chinese, passage.chinese)
+          : englishContainment(english, passage.english);
+        if (!best || value > best.value) {
+          best = { passage, value };
+        }
+      }
+
+      if (!best || best.value === 0) {
+        return { status: 'unverified', score: 0, note: 'No matching passage in the corpus' };
+      }
+
+      const status = classify(best.value, hasChinese);
+      const result = {
+        score: Number(best.value.toFixed(2)),
+        match: {
+          id: best.passage.id,
+          source: best.passage.source,
+          chinese: best.passage.chinese,
+          english: best.passage.english,
+        },
+      };
+      if (status === 'unverified') {
+        return { status, ...result, note: 'No close match in the corpus' };
+      }
+      if (source?.trim() && !citesWork(source, best.passage)) {
+        const note = `Text matches ${best.passage.source}, not the cited source`;
+        return { status: 'close-paraphrase', ...result, note };
+      }
+      return { status, ...result };
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import { randomBytes } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * JSON-file session persistence.
+ *
+ * Each session is stored as `<directory>/<id>.json` with the shape
+ * `{ id, title, createdAt, updatedAt, state }`, where `state` is the opaque
+ * orchestrator snapshot produced by the frontend.
+ */
+
+const DEFAULT_DIRECTORY = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../../.sessions',
+);
+
+const SESSION_ID_PATTERN = /^[a-z0-9-]{1,64}$/;
+
+function sessionError(message, code) {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+}
+
+function normalizeTitle(title, fallback) {
+  if (typeof title !== 'string') {
+    return fallback;
+  }
+  const trimmed = title.trim().slice(0, 120);
+  return trimmed || fallback;
+}
+
+function toSummary({ id, title, createdAt, updatedAt }) {
+  return { id, title, createdAt, updatedAt };
+}
+
+export function createSessionStore({
+  directory = process.env.NABOKOV_SESSIONS_DIR || DEFAULT_DIRECTORY,
+} = {}) {
+  const ready = mkdir(directory, { recursive: true });
+
+  const filePath = id => {
+    if (typeof id !== 'string' || !SESSION_ID_PATTERN.test(id)) {
+      throw sessionError(`Invalid session id: ${id}`, 'INVALID_REQUEST');
+    }
+    return path.join(directory, `${id}.json`);
+  };
+
+  const writeRecord = async record => {
+    await ready;
+    const target = filePath(record.id);
+    // Write to a temp file first so a crash never leaves a half-written session
+    const temp = `${target}.${randomBytes(4).toString('hex')}.tmp`;
+    await writeFile(temp, JSON.stringify(record, null, 2), 'utf8');
+    await rename(temp, target);
+    return record;
+  };
+
+  const readRecord = async id => {
+    await ready;
+    try {
+      const raw = await readFile(filePath(id), 'utf8');
+      return JSON.parse(raw);
+    } catch (error) {
+      if (error?.code === 'ENOENT') {
+        throw sessionError(`Session not found: ${id}`, 'SESSION_NOT_FOUND');
+      }
+      throw error;
+    }
+  };
+
+  const assertState = state => {
+    if (!state || typeof state !== 'object' || Array.isArray(state)) {
+      throw sessionError('Invalid request: state object is required', 'INVALID_REQUEST');
+    }
+  };
+
+  return {
+    directory,
+
+    async list() {
+      await ready;
+      const entries = await readdir(directory);
+      const records = await Promise.all(
+        entries
+          .filter(entry => entry.endsWith('.json'))
+          .map(async entry => {
+            try {
+              return toSummary(await readRecord(entry.slice(0, -'.json'.length)));
+            } catch {
+              return null;
+            }
+          }),
+      );
+      return records
+        .filter(Boolean)
+        .sort((a, b) => String(b.updatedAt).localeCompare(String(a.updatedAt)));
+    },
+
+    async create({ title, state }) {
+      assertState(state);
+      const now = new Date().toISOString();
+      const id = `${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`;
+      return writeRecord({
+        id,
+        title: normalizeTitle(title, `Session ${now.slice(0, 16).replace('T', ' ')}`),
+        createdAt: now,
+        updatedAt: now,
+        state,
+      });
+    },
+
+    async load(id) {
+      return readRecord(id);
+    },
+
+    async save(id, { state }) {
+      assertState(state);
+      const existing = await readRecord(id);
+      return writeRecord({ ...existing, state, updatedAt: new Date().toISOString() });
+    },
+
+    async rename(id, title) {
+      if (typeof title !== 'string' || !title.trim()) {
+        throw sessionError('Invalid request: title is required', 'INVALID_REQUEST');
+      }
+      const existing = await readRecord(id);
+      return writeRecord({
+        ...existing,
+        title: normalizeTitle(title, existing.title),
+        updatedAt: new Date().toISOString(),
+      });
+    },
+
+    async remove(id) {
+      await readRecord(id);
+      await rm(filePath(id));
+    },
+  };
+}
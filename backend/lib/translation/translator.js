@@ -0,0 +1,75 @@
+/**
+ * Translates philosopher replies into modern or Classical Chinese through the
+ * shared LLM service.
+ *
+ * The model is asked for the translation alone; surrounding quotes or a code
+ * fence are stripped in case it adds them anyway.
+ */
+
+export const TRANSLATION_LANGUAGES = {
+  chinese: {
+    label: 'Modern Chinese',
+    instruction:
+      'Translate the following text into fluent modern Standard Chinese (简体中文). Keep names of philosophers and works in their usual Chinese forms.',
+  },
+  classical_chinese: {
+    label: 'Classical Chinese',
+    instruction:
+      'Render the following text in Classical Chinese (文言文, traditional characters), in the concise style of the pre-Qin masters. Keep its meaning and its addressees.',
+  },
+};
+
+const MAX_TEXT_LENGTH = 20000;
+
+function translationError(message, code = 'INVALID_REQUEST') {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+}
+
+function cleanTranslation(content) {
+  return content
+    .trim()
+    .replace(/^```[a-z]*\n([\s\S]*?)\n```$/i, '$1')
+    .replace(/^["“「](.*)["”」]$/s, '$1')
+    .trim();
+}
+
+export function createTranslator({ llmService }) {
+  return {
+    /**
+     * @param {object} request
+     * @param {string} request.text - English text to translate
+     * @param {'chinese' | 'classical_chinese'} request.language
+     * @param {Record<string, unknown>} [request.options] - Provider and model, as for `/api/message`
+     * @param {AbortSignal} [request.signal]
+     * @returns {Promise<{ language: string, text: string }>}
+     */
+    async translate({ text, language, options, signal }) {
+      const target = TRANSLATION_LANGUAGES[language];
+      if (!target) {
+        throw translationError(
+          `Invalid request: language must be one of ${Object.keys(TRANSLATION_LANGUAGES).join(', ')}`,
+        );
+      }
+      if (typeof text !== 'string' || !text.trim()) {
+        throw translationError('Invalid request: text is required');
+      }
+      if (text.length > MAX_TEXT_LENGTH) {
+        throw translationError(`Invalid request: text exceeds ${MAX_TEXT_LENGTH} characters`);
+      }
+
+      const prompt = `${target.instruction}\nReply with the translation only, without commentary, quotation marks or JSON.\n\n${text.trim()}`;
+      const response = await llmService.sendMessage({
+        messages: [{ role: 'user', content: prompt }],
+        options,
+        signal,
+      });
+      const translated = cleanTranslation(typeof response?.content === 'string' ? response.content : '');
+      if (!translated) {
+        throw translationError('Translation came back empty', 'TRANSLATION_FAILED');
+      }
+      return { language, text: translated };
+    },
+  };
+}
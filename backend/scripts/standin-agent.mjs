@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+
+/**
+ * Stand-in A2A agent
+ *
+ * A self-contained A2A server with canned replies, for testing the "Invite A2A
+ * agent" flow without an LLM or a third-party agent. It speaks the same
+ * protocol as the per-philosopher servers (agent card, tasks/send,
+ * tasks/sendSubscribe, tasks/cancel).
+ *
+ * Usage:
+ *   node scripts/standin-agent.mjs [--port 9100] [--name "Gongsun Long"] [--school "School of Names"]
+ */
+
+import { setTimeout as delay } from 'node:timers/promises';
+import { createAgentServer } from '../lib/a2a/agentServer.js';
+import { createAbortError } from '../lib/llm/abort.js';
+
+function readFlag(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const port = Number(readFlag('port', process.env.STANDIN_AGENT_PORT || 9100));
+const name = readFlag('name', 'Gongsun Long');
+const school = readFlag('school', 'School of Names');
+const TOKEN_DELAY_MS = Number(process.env.STANDIN_AGENT_TOKEN_DELAY_MS || 40);
+
+/**
+ * Canned reply in the JSON shape the orchestrator's parser understands. It
+ * echoes the tail of the latest prompt so turns are distinguishable.
+ */
+function cannedReply(prompt) {
+  const excerpt = prompt.replace(/\s+/g, ' ').trim().slice(-160);
+  return JSON.stringify({
+    reasoning: `Stand-in agent received ${prompt.length} characters of context.`,
+    final: `A white horse is not a horse: let us first agree on our names. (Stand-in reply to: "…${excerpt}")`,
+  });
+}
+
+const cannedLLM = {
+  async sendMessage({ messages }) {
+    return { content: cannedReply(messages.at(-1)?.content ?? '') };
+  },
+  async streamMessage({ messages, signal, onToken, onDone, onError }) {
+    const words = cannedReply(messages.at(-1)?.content ?? '').split(/(?<= )/);
+    try {
+      for (const word of words) {
+        if (signal?.aborted) {
+          throw createAbortError();
+        }
+        onToken(word);
+        await delay(TOKEN_DELAY_MS);
+      }
+      onDone({ provider: 'standin' });
+    } catch (error) {
+      onError(error);
+    }
+  },
+};
+
+const agent = createAgentServer({
+  philosopher: {
+    id: 'standin',
+    name,
+    school,
+    port,
+    personaSummary: `${name} (${school}) — a local stand-in agent with canned replies.`,
+  },
+  llmService: cannedLLM,
+  log: (level, message) => console.log(`[standin] ${message}`),
+});
+
+await agent.start();
+console.log(`[standin] ${name} listening on ${agent.url}`);
+console.log(`[standin] Agent card: ${agent.url}/.well-known/agent.json`);
+
+const shutdown = () => {
+  agent.stop().finally(() => process.exit(0));
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -13,6 +13,13 @@ import cors from 'cors';
 import { randomBytes } from 'node:crypto';
 import { createColors } from 'colorette';
 import { createLLMService } from './lib/llm/index.js';
+import { createCassetteService } from './lib/llm/cassette.js';
+import { isAbortError } from './lib/llm/abort.js';
+import { optionsContainModel, stripModelFromOptions } from './lib/llm/modelFallback.js';
+import { createSessionStore } from './lib/sessions/sessionStore.js';
+import { createAgentRegistry } from './lib/a2a/agentRegistry.js';
+import { createQuoteIndex } from './lib/quotes/quoteIndex.js';
+import { createTranslator } from './lib/translation/translator.js';
 
 const argv = process.argv.slice(2);
 const DEBUG_MODE = argv.includes('--debug') || argv.includes('-d') || process.env.NABOKOV_BACKEND_DEBUG === '1' || process.env.NABOKOV_BACKEND_DEBUG === 'true';
@@ -44,13 +51,30 @@ const HOST = process.env.HOST || '0.0.0.0';
 
 let llmService;
 try {
-  llmService = createLLMService({ websearchEnabled: WEBSEARCH_ENABLED });
+  llmService = createCassetteService(createLLMService({ websearchEnabled: WEBSEARCH_ENABLED }), {
+    log: (level, message) => structuredLog(level, `[Backend] [cassette] ${message}`, []),
+  });
   console.log(`[Backend] Using LLM provider: ${llmService.getProviderName()}`);
+  if (llmService.cassetteMode) {
+    console.log(`[Backend] Cassettes: ${llmService.cassetteMode}`);
+  }
 } catch (error) {
   console.error('[Backend] Failed to initialize LLM provider:', error);
   process.exit(1);
 }
 
+const sessionStore = createSessionStore();
+const quoteIndex = createQuoteIndex();
+const translator = createTranslator({ llmService });
+
+const agentRegistry = createAgentRegistry({
+  llmService,
+  host: HOST,
+  publicHost: process.env.NABOKOV_AGENT_PUBLIC_HOST || 'localhost',
+  reservedPorts: [PORT],
+  log: (level, message) => structuredLog(level, `[Backend] [a2a] ${message}`, []),
+});
+
 if (DEBUG_MODE) {
   console.log('[Backend] Debug logging enabled');
 }
@@ -157,6 +181,10 @@ function summarizeOptions(options) {
 
   const summary = {};
 
+  if (typeof options.provider === 'string') {
+    summary.provider = options.provider;
+  }
+
   if (typeof options.model === 'string') {
     summary.model = options.model;
   }
@@ -193,41 +221,6 @@ function summarizeOptions(options) {
   return summary;
 }
 
-function optionsContainModel(options) {
-  if (!options || typeof options !== 'object') {
-    return false;
-  }
-
-  if (typeof options.model === 'string' && options.model.trim().length > 0) {
-    return true;
-  }
-
-  const providerOptions = options.providerOptions;
-  return !!(providerOptions && typeof providerOptions === 'object' && typeof providerOptions.model === 'string' && providerOptions.model.trim().length > 0);
-}
-
-function stripModelFromOptions(options) {
-  if (!options || typeof options !== 'object') {
-    return {};
-  }
-
-  const sanitized = { ...options };
-
-  if (sanitized.providerOptions && typeof sanitized.providerOptions === 'object') {
-    const providerOptions = { ...sanitized.providerOptions };
-    delete providerOptions.model;
-    if (Object.keys(providerOptions).length > 0) {
-      sanitized.providerOptions = providerOptions;
-    } else {
-      delete sanitized.providerOptions;
-    }
-  }
-
-  delete sanitized.model;
-
-  return sanitized;
-}
-
 function colorizeStatus(value) {
   const code = Number(value);
   if (Number.isNaN(code)) {
@@ -327,6 +320,7 @@ function decorateHeader(level, header) {
   const actionPalette = {
     incoming: cyan,
     completed: green,
+    cancelled: yellow,
     retrying: yellow,
     error: red,
     debug: magenta,
@@ -409,6 +403,15 @@ function createRequestLogger(req, { stream = false } = {}) {
     ]);
   };
 
+  const logCancelled = (extras = {}) => {
+    const durationMs = Date.now() - startedAt;
+    structuredLog('warn', `[Backend] [${id}] Cancelled ${method} ${path}`, [
+      { label: 'durationMs', value: durationMs },
+      { label: 'reason', value: extras.reason || 'client disconnected' },
+      { label: 'responseChars', value: extras.responseChars },
+    ]);
+  };
+
   const logFallback = (context = {}) => {
     structuredLog('info', `[Backend] [${id}] Retrying ${method} ${path}`, [
       { label: 'reason', value: context.reason || 'UNSUPPORTED_MODEL' },
@@ -438,12 +441,46 @@ function createRequestLogger(req, { stream = false } = {}) {
     stream,
     logCompletion,
     logError,
+    logCancelled,
     logFallback,
     logDebug,
   };
 }
 
+/**
+ * Abort provider work once the client goes away (e.g. the moderator pressed
+ * "Stop speaker"), so Codex children and Agent SDK queries do not run on unseen.
+ */
+function createDisconnectSignal(res) {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
+/**
+ * Replay-mode miss: the request had no recording. The diff shows how the prompt
+ * differs from the closest one that was recorded.
+ */
+function cassetteMissBody(error) {
+  return {
+    error: error.message,
+    code: error.code,
+    key: error.key,
+    closestKey: error.closestKey,
+    diff: error.diff,
+  };
+}
+
 function handleRequestError(res, error, requestLogger) {
+  if (isAbortError(error)) {
+    requestLogger?.logCancelled();
+    return undefined;
+  }
+
   if (error?.code === 'INVALID_REQUEST') {
     requestLogger?.logError(error);
     return res.status(400).json({ error: error.message });
@@ -454,6 +491,16 @@ function handleRequestError(res, error, requestLogger) {
     return handleMultimodalFallback(res);
   }
 
+  if (error?.code === 'SESSION_NOT_FOUND') {
+    requestLogger?.logError(error);
+    return res.status(404).json({ error: error.message });
+  }
+
+  if (error?.code === 'CASSETTE_MISS') {
+    requestLogger?.logError(error);
+    return res.status(404).json(cassetteMissBody(error));
+  }
+
   if (error?.code === 'UNSUPPORTED_MODEL') {
     requestLogger?.logError(error);
     return res.status(400).json({
@@ -484,6 +531,8 @@ app.get('/health', (req, res) => {
     timestamp: Date.now(),
     message: 'Nabokov backend server is running',
     provider: llmService.getProviderName(),
+    providers: llmService.getProviderKeys(),
+    cassettes: llmService.cassetteMode ?? 'off',
   });
 });
 
@@ -493,6 +542,7 @@ app.get('/health', (req, res) => {
 app.post('/api/message', async (req, res) => {
   const requestLogger = createRequestLogger(req);
   const { messages, options = {} } = req.body ?? {};
+  const signal = createDisconnectSignal(res);
 
   let attemptOptions = options;
   let fallbackUsed = false;
@@ -500,7 +550,7 @@ app.post('/api/message', async (req, res) => {
 
   while (true) {
     try {
-      const response = await llmService.sendMessage({ messages, options: attemptOptions });
+      const response = await llmService.sendMessage({ messages, options: attemptOptions, signal });
       const responseText = typeof response?.content === 'string' ? response.content : '';
       const requestedModel = response?.metadata?.requestedModel;
       const resolvedModel = response?.metadata?.resolvedModel;
@@ -554,6 +604,7 @@ app.post('/api/message', async (req, res) => {
 app.post('/api/stream', async (req, res) => {
   const requestLogger = createRequestLogger(req, { stream: true });
   const { messages, options = {} } = req.body ?? {};
+  const signal = createDisconnectSignal(res);
   let emittedChars = 0;
   let eventCount = 0;
   let streamMetadata;
@@ -589,6 +640,7 @@ app.post('/api/stream', async (req, res) => {
     await llmService.streamMessage({
       messages,
       options: currentOptions,
+      signal,
       onToken: token => {
         ensureSSEHeaders(res);
         let text = typeof token === 'string' ? token : token != null ? String(token) : '';
@@ -613,9 +665,18 @@ app.post('/api/stream', async (req, res) => {
       },
       onDone: metadata => {
         ensureSSEHeaders(res);
+        streamMetadata = metadata || streamMetadata || {};
+        // Tell the client which provider and model answered before closing
+        res.write(`data: ${JSON.stringify({
+          metadata: {
+            provider: streamMetadata.provider,
+            providerKey: streamMetadata.providerKey,
+            requestedModel: streamMetadata.requestedModel,
+            resolvedModel: streamMetadata.resolvedModel,
+          },
+        })}\n\n`);
         res.write('data: [DONE]\n\n');
         res.end();
-        streamMetadata = metadata || streamMetadata || {};
         if (Array.isArray(debugTokens)) {
           const combined = debugTokens.join('');
           const deltas = debugTokens.length ? `\n${debugTokens.join('\n')}` : undefined;
@@ -644,7 +705,7 @@ app.post('/api/stream', async (req, res) => {
           metadataForLog.fallbackRequestedModel = fallbackInfo.requestedModel;
         }
         requestLogger.logCompletion(200, {
-          provider: llmService.getProviderName(),
+          provider: streamMetadata.provider || llmService.getProviderName(),
           responseChars: emittedChars,
           requestedModel,
           resolvedModel,
@@ -653,6 +714,11 @@ app.post('/api/stream', async (req, res) => {
         });
       },
       onError: async error => {
+        if (isAbortError(error)) {
+          requestLogger.logCancelled({ responseChars: emittedChars });
+          return;
+        }
+
         if (!isFallback && !fallbackUsed && error?.code === 'UNSUPPORTED_MODEL' && optionsContainModel(currentOptions)) {
           fallbackUsed = true;
           fallbackInfo = {
@@ -704,6 +770,11 @@ app.post('/api/stream', async (req, res) => {
   try {
     await runStream(options, false);
   } catch (error) {
+    if (isAbortError(error)) {
+      requestLogger.logCancelled({ responseChars: emittedChars });
+      return;
+    }
+
     if (!fallbackUsed && error?.code === 'UNSUPPORTED_MODEL' && optionsContainModel(options)) {
       fallbackUsed = true;
       fallbackInfo = {
@@ -731,6 +802,12 @@ app.post('/api/stream', async (req, res) => {
       return;
     }
 
+    if (error?.code === 'CASSETTE_MISS') {
+      requestLogger.logError(error);
+      res.status(404).json(cassetteMissBody(error));
+      return;
+    }
+
     if (error?.code === 'UNSUPPORTED_MODEL') {
       res.status(400).json({
         error: 'Codex provider does not support the requested model. Configure CODEX_MODEL or remove the model option.',
@@ -752,6 +829,118 @@ app.post('/api/stream', async (req, res) => {
   }
 });
 
+/**
+ * Session persistence endpoints (JSON files on disk)
+ */
+app.get('/api/sessions', async (req, res) => {
+  try {
+    res.json({ sessions: await sessionStore.list() });
+  } catch (error) {
+    handleRequestError(res, error);
+  }
+});
+
+app.post('/api/sessions', async (req, res) => {
+  try {
+    const { title, state } = req.body ?? {};
+    res.status(201).json({ session: await sessionStore.create({ title, state }) });
+  } catch (error) {
+    handleRequestError(res, error);
+  }
+});
+
+app.get('/api/sessions/:id', async (req, res) => {
+  try {
+    res.json({ session: await sessionStore.load(req.params.id) });
+  } catch (error) {
+    handleRequestError(res, error);
+  }
+});
+
+app.put('/api/sessions/:id', async (req, res) => {
+  try {
+    const { state } = req.body ?? {};
+    res.json({ session: await sessionStore.save(req.params.id, { state }) });
+  } catch (error) {
+    handleRequestError(res, error);
+  }
+});
+
+app.patch('/api/sessions/:id', async (req, res) => {
+  try {
+    const { title } = req.body ?? {};
+    res.json({ session: await sessionStore.rename(req.params.id, title) });
+  } catch (error) {
+    handleRequestError(res, error);
+  }
+});
+
+app.delete('/api/sessions/:id', async (req, res) => {
+  try {
+    await sessionStore.remove(req.params.id);
+    res.status(204).end();
+  } catch (error) {
+    handleRequestError(res, error);
+  }
+});
+
+/**
+ * Classical-text quote search (bundled offline corpus)
+ */
+app.get('/api/quotes/search', async (req, res) => {
+  try {
+    const { philosopher, q, limit } = req.query;
+    res.json({ results: await quoteIndex.search({ philosopher, query: q, limit }) });
+  } catch (error) {
+    handleRequestError(res, error);
+  }
+});
+
+app.post('/api/quotes/verify', async (req, res) => {
+  try {
+    const { chinese, english, source } = req.body ?? {};
+    res.json(await quoteIndex.verify({ chinese, english, source }));
+  } catch (error) {
+    handleRequestError(res, error);
+  }
+});
+
+/**
+ * Translation of philosopher replies into modern or Classical Chinese
+ */
+app.post('/api/translate', async (req, res) => {
+  const requestLogger = createRequestLogger(req);
+  const { text, language, options } = req.body ?? {};
+  const signal = createDisconnectSignal(res);
+  try {
+    const translation = await translator.translate({ text, language, options, signal });
+    requestLogger.logCompletion(200, {
+      provider: options?.provider || llmService.getProviderName(),
+      responseChars: translation.text.length,
+      notes: `translate → ${language}`,
+    });
+    res.json(translation);
+  } catch (error) {
+    handleRequestError(res, error, requestLogger);
+  }
+});
+
+/**
+ * A2A agent servers (one per philosopher, on the philosopher's configured port)
+ */
+app.get('/api/agents', (req, res) => {
+  res.json({ agents: agentRegistry.list() });
+});
+
+app.put('/api/agents', async (req, res) => {
+  try {
+    const { philosophers } = req.body ?? {};
+    res.json({ agents: await agentRegistry.sync(philosophers) });
+  } catch (error) {
+    handleRequestError(res, error);
+  }
+});
+
 /**
  * Start server
  */
@@ -772,20 +961,29 @@ if (process.env.NABOKOV_BACKEND_NO_LISTEN === '1') {
     console.log('  Endpoints:');
     console.log(`    POST http://localhost:${PORT}/api/message`);
     console.log(`    POST http://localhost:${PORT}/api/stream`);
+    console.log(`    CRUD http://localhost:${PORT}/api/sessions`);
+    console.log(`    GET  http://localhost:${PORT}/api/quotes/search?philosopher=&q=`);
+    console.log(`    POST http://localhost:${PORT}/api/quotes/verify`);
+    console.log(`    POST http://localhost:${PORT}/api/translate`);
+    console.log(`    PUT  http://localhost:${PORT}/api/agents   (starts A2A agents on philosopher ports)`);
     console.log('');
     console.log('  Provider:');
     console.log(`    Active: ${llmService.getProviderName()} (${llmService.getProviderKey()})`);
+    console.log(`    Per-request: options.provider = ${llmService.getProviderKeys().join(' | ')}`);
     console.log('');
     console.log('  Features:');
     console.log(`    Websearch: ${WEBSEARCH_ENABLED ? '✓ Enabled' : '✗ Disabled'}`);
     console.log('');
     console.log('  Configuration:');
     console.log('    Enable websearch: --websearch or NABOKOV_BACKEND_WEBSEARCH=1');
+    console.log('    Record/replay LLM calls: LLM_CASSETTE_MODE=record|replay (LLM_CASSETTE_DIR)');
     console.log('    Debug mode: --debug or NABOKOV_BACKEND_DEBUG=1');
     console.log('');
     console.log('  Authentication / Execution:');
     console.log('    - Claude Agent SDK (if provider = claude)');
     console.log('    - Codex CLI (if provider = codex, default)');
+    console.log('    - OpenAI-compatible HTTP server (if provider = openai, at OPENAI_COMPAT_BASE_URL)');
+    console.log('    - Scripted fixtures, no login needed (if provider = mock)');
     console.log('');
     console.log('═══════════════════════════════════════════════════════');
     console.log('');
@@ -795,12 +993,10 @@ if (process.env.NABOKOV_BACKEND_NO_LISTEN === '1') {
 }
 
 // Graceful shutdown
-process.on('SIGINT', () => {
+function shutdown() {
   console.log('\n\n👋 Shutting down Nabokov backend server...');
-  process.exit(0);
-});
+  agentRegistry.stopAll().finally(() => process.exit(0));
+}
 
-process.on('SIGTERM', () => {
-  console.log('\n\n👋 Shutting down Nabokov backend server...');
-  process.exit(0);
-});
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
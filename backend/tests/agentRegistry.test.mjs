@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'node:net';
+import { after, describe, it } from 'node:test';
+import { createAgentRegistry } from '../lib/a2a/agentRegistry.js';
+
+const freePort = () =>
+  new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+
+describe('agent registry', () => {
+  const logs = [];
+  const registry = createAgentRegistry({
+    llmService: { getProviderKeys: () => ['mock'] },
+    host: '127.0.0.1',
+    log: (level, message) => logs.push({ level, message }),
+  });
+
+  after(async () => {
+    await registry.stopAll();
+  });
+
+  it('runs overlapping syncs one after the other', async () => {
+    const roster = [
+      { id: 'confucius', name: 'Confucius', school: 'Confucianism', port: await freePort() },
+      { id: 'laozi', name: 'Laozi', school: 'Daoism', port: await freePort() },
+    ];
+
+    // React StrictMode registers the roster twice on every load
+    const [first, second] = await Promise.all([registry.sync(roster), registry.sync(roster)]);
+
+    assert.deepEqual(logs.filter(entry => entry.level === 'error'), []);
+    for (const agents of [first, second]) {
+      assert.deepEqual(agents.map(agent => [agent.id, agent.status]), [['confucius', 'running'], ['laozi', 'running']]);
+    }
+    assert.equal(logs.filter(entry => entry.message.startsWith('Started')).length, 2);
+  });
+
+  it('keeps serving syncs after one is rejected', async () => {
+    const port = await freePort();
+    const rejected = registry.sync('not a roster');
+    const next = registry.sync([{ id: 'mozi', name: 'Mozi', port }]);
+
+    await assert.rejects(rejected, { code: 'INVALID_REQUEST' });
+    assert.deepEqual((await next).map(agent => agent.id), ['mozi']);
+  });
+});
@@ -0,0 +1,200 @@
+import assert from 'node:assert/strict';
+import { createServer } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { createAgentServer } from '../lib/a2a/agentServer.js';
+import { createAbortError } from '../lib/llm/abort.js';
+
+const freePort = () =>
+  new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+
+const untilAborted = signal =>
+  new Promise((resolve, reject) => {
+    signal.addEventListener('abort', () => reject(createAbortError()), { once: true });
+  });
+
+// Answers at once, except for prompts saying "hold", which wait until aborted
+const llmService = {
+  async sendMessage({ messages, signal }) {
+    if (messages[0].content === 'hold') {
+      await untilAborted(signal);
+    }
+    return { content: 'Ren first.', metadata: { providerKey: 'mock' } };
+  },
+  async streamMessage({ messages, signal, onToken, onDone, onError }) {
+    try {
+      if (messages[0].content === 'hold') {
+        await untilAborted(signal);
+      }
+      onToken('Ren first.');
+      onDone({ providerKey: 'mock' });
+    } catch (error) {
+      onError(error);
+    }
+  },
+};
+
+describe('agent server task tracking', () => {
+  let agent;
+  let rpcId = 0;
+
+  const rpc = async (method, params) => {
+    rpcId += 1;
+    const response = await fetch(`http://127.0.0.1:${agent.philosopher.port}/`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: rpcId, method, params }),
+    });
+    return response.json();
+  };
+
+  const message = text => ({ role: 'user', parts: [{ type: 'text', text }] });
+  const send = id => rpc('tasks/send', { id, message: message('hold') });
+
+  // Resolves with the data of every event once the server closes the stream
+  const subscribe = async id => {
+    rpcId += 1;
+    const response = await fetch(`http://127.0.0.1:${agent.philosopher.port}/`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: rpcId, method: 'tasks/sendSubscribe', params: { id, message: message('hold') } }),
+    });
+    const text = await response.text();
+    return text
+      .split('\n\n')
+      .filter(Boolean)
+      .map(event => JSON.parse(event.replace(/^data: /, '')).result);
+  };
+
+  // Polls until the agent has recorded the task as working
+  const working = async id => {
+    for (let attempt = 0; attempt < 50; attempt += 1) {
+      const reply = await rpc('tasks/get', { id });
+      if (reply.result?.status.state === 'working') {
+        return;
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    assert.fail(`Task ${id} never started`);
+  };
+
+  before(async () => {
+    const port = await freePort();
+    agent = createAgentServer({
+      philosopher: { id: 'confucius', name: 'Confucius', school: 'Confucianism', port },
+      llmService,
+      host: '127.0.0.1',
+    });
+    await agent.start();
+  });
+
+  after(async () => {
+    await agent.stop();
+  });
+
+  it('answers both kinds of pending request when the task is canceled', { timeout: 5000 }, async () => {
+    const sent = send('sent');
+    const streamed = subscribe('streamed');
+    await working('sent');
+    await working('streamed');
+
+    assert.equal((await rpc('tasks/cancel', { id: 'sent' })).result.status.state, 'canceled');
+    assert.equal((await rpc('tasks/cancel', { id: 'streamed' })).result.status.state, 'canceled');
+
+    assert.equal((await sent).result.status.state, 'canceled');
+    const last = (await streamed).at(-1);
+    assert.equal(last.final, true);
+    assert.equal(last.status.state, 'canceled');
+  });
+
+  it('keeps a running task while evicting the oldest finished ones', async () => {
+    const running = send('running');
+
+    for (let index = 0; index < 101; index += 1) {
+      const reply = await rpc('tasks/send', { id: `done-${index}`, message: message('Speak.') });
+      assert.equal(reply.result.status.state, 'completed');
+    }
+
+    const held = await rpc('tasks/get', { id: 'running' });
+    assert.equal(held.result.status.state, 'working');
+    const evicted = await rpc('tasks/get', { id: 'done-0' });
+    assert.ok(evicted.error);
+    const kept = await rpc('tasks/get', { id: 'done-100' });
+    assert.equal(kept.result.status.state, 'completed');
+
+    await rpc('tasks/cancel', { id: 'running' });
+    assert.equal((await running).result.status.state, 'canceled');
+  });
+});
+
+describe('agent server model fallback', () => {
+  let agent;
+  const seenModels = [];
+
+  // Rejects any named model, the way a provider rejects one it does not serve
+  const rejectingService = {
+    async sendMessage({ options }) {
+      seenModels.push(options.model);
+      if (options.model) {
+        throw Object.assign(new Error(`Unknown model ${options.model}`), { code: 'UNSUPPORTED_MODEL' });
+      }
+      return { content: 'Default answer.', metadata: { providerKey: 'mock' } };
+    },
+    async streamMessage({ options, onToken, onDone, onError }) {
+      seenModels.push(options.model);
+      if (options.model) {
+        onError(Object.assign(new Error(`Unknown model ${options.model}`), { code: 'UNSUPPORTED_MODEL' }));
+        return;
+      }
+      onToken('Default answer.');
+      onDone({ providerKey: 'mock' });
+    },
+  };
+
+  const post = (method, id) =>
+    fetch(`http://127.0.0.1:${agent.philosopher.port}/`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params: { id, message: { role: 'user', parts: [{ type: 'text', text: 'Speak.' }] } } }),
+    });
+
+  before(async () => {
+    const port = await freePort();
+    agent = createAgentServer({
+      philosopher: { id: 'laozi', name: 'Laozi', school: 'Daoism', port, llm: { provider: 'mock', model: 'retired-model' } },
+      llmService: rejectingService,
+      host: '127.0.0.1',
+    });
+    await agent.start();
+  });
+
+  after(async () => {
+    await agent.stop();
+  });
+
+  it('retries tasks/send with the default model', async () => {
+    seenModels.length = 0;
+    const reply = await (await post('tasks/send', 'sent')).json();
+    assert.equal(reply.result.status.state, 'completed');
+    assert.equal(reply.result.status.message.parts[0].text, 'Default answer.');
+    assert.deepEqual(seenModels, ['retired-model', undefined]);
+  });
+
+  it('retries tasks/sendSubscribe with the default model', async () => {
+    seenModels.length = 0;
+    const text = await (await post('tasks/sendSubscribe', 'streamed')).text();
+    const events = text
+      .split('\n\n')
+      .filter(Boolean)
+      .map(event => JSON.parse(event.replace(/^data: /, '')).result);
+    assert.equal(events.at(-1).status.state, 'completed');
+    assert.equal(events.find(event => event.artifact)?.artifact.parts[0].text, 'Default answer.');
+    assert.deepEqual(seenModels, ['retired-model', undefined]);
+  });
+});
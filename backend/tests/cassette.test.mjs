@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { cassetteKey, createCassetteService, diffLines, lineSimilarity } from '../lib/llm/cassette.js';
+
+const messages = [{ role: 'user', content: 'Speak of ren.' }];
+
+// Stands in for createLLMService; counts calls so replays can prove they skip it
+function stubService(reply = 'Ren is humaneness.') {
+  const service = {
+    calls: 0,
+    async sendMessage() {
+      service.calls += 1;
+      return { content: reply, metadata: { provider: 'stub' } };
+    },
+    async streamMessage({ onToken, onDone }) {
+      service.calls += 1;
+      for (const token of ['Ren ', 'is ', 'humaneness.']) {
+        onToken(token);
+      }
+      onDone({ provider: 'stub' });
+    },
+  };
+  return service;
+}
+
+describe('cassetteKey', () => {
+  it('ignores option order and undefined options', () => {
+    const key = cassetteKey(messages, { provider: 'claude', model: 'haiku' });
+    assert.equal(cassetteKey(messages, { model: 'haiku', provider: 'claude' }), key);
+    assert.equal(cassetteKey(messages, { model: 'haiku', provider: 'claude', system: undefined }), key);
+    assert.match(key, /^[0-9a-f]{24}$/);
+  });
+
+  it('changes with the prompt or options', () => {
+    const key = cassetteKey(messages, { model: 'haiku' });
+    assert.notEqual(cassetteKey(messages, { model: 'sonnet' }), key);
+    assert.notEqual(cassetteKey([{ role: 'user', content: 'Speak of li.' }], { model: 'haiku' }), key);
+  });
+});
+
+describe('lineSimilarity', () => {
+  it('scores the share of common lines', () => {
+    assert.equal(lineSimilarity('a\nb\nc', 'a\nb\nc'), 1);
+    assert.equal(lineSimilarity('a\nb', 'c\nd'), 0);
+    assert.equal(lineSimilarity('a\nb\nc\nd', 'a\nb\nx\ny'), 0.5);
+  });
+});
+
+describe('diffLines', () => {
+  it('marks recorded lines with - and requested lines with +', () => {
+    assert.equal(diffLines('a\nb\nc', 'a\nx\nc'), '  a\n- b\n+ x\n  c');
+  });
+
+  it('elides unchanged lines far from any change', () => {
+    const recorded = ['1', '2', '3', '4', '5', '6', '7'].join('\n');
+    const requested = ['1', '2', '3', '4', '5', '6', 'changed'].join('\n');
+    assert.equal(diffLines(recorded, requested), '  …\n  5\n  6\n- 7\n+ changed');
+  });
+});
+
+describe('createCassetteService', () => {
+  let directory;
+
+  before(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'cassettes-'));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('returns the service itself when off', () => {
+    const service = stubService();
+    assert.equal(createCassetteService(service, { mode: 'off', directory }), service);
+  });
+
+  it('rejects an unknown mode', () => {
+    assert.throws(() => createCassetteService(stubService(), { mode: 'rewind', directory }), /Unsupported cassette mode/);
+  });
+
+  it('replays a streamed recording token by token without calling the provider', async () => {
+    const options = { provider: 'claude', model: 'haiku' };
+    const recorder = createCassetteService(stubService(), { mode: 'record', directory });
+    const recordedTokens = [];
+    await recorder.streamMessage({ messages, options, onToken: token => recordedTokens.push(token), onError: assert.fail });
+    assert.deepEqual(await readdir(directory), [`${cassetteKey(messages, options)}.json`]);
+
+    const provider = stubService();
+    const player = createCassetteService(provider, { mode: 'replay', directory });
+    const tokens = [];
+    let metadata;
+    await player.streamMessage({
+      messages,
+      // Same request, options built in another order
+      options: { model: 'haiku', provider: 'claude' },
+      onToken: token => tokens.push(token),
+      onDone: value => {
+        metadata = value;
+      },
+      onError: assert.fail,
+    });
+
+    assert.deepEqual(tokens, recordedTokens);
+    assert.equal(metadata.provider, 'stub');
+    assert.equal(metadata.cassette.key, cassetteKey(messages, options));
+    assert.equal(provider.calls, 0);
+
+    const response = await player.sendMessage({ messages, options });
+    assert.equal(response.content, 'Ren is humaneness.');
+  });
+
+  it('fails a miss with the closest recording and a diff', async () => {
+    const player = createCassetteService(stubService(), { mode: 'replay', directory });
+    const changed = [{ role: 'user', content: 'Speak of li.' }];
+    const options = { provider: 'claude', model: 'haiku' };
+
+    await assert.rejects(player.sendMessage({ messages: changed, options }), error => {
+      assert.equal(error.code, 'CASSETTE_MISS');
+      assert.equal(error.key, cassetteKey(changed, options));
+      assert.equal(error.closestKey, cassetteKey(messages, options));
+      assert.match(error.diff, /^- user: Speak of ren\.$/m);
+      assert.match(error.diff, /^\+ user: Speak of li\.$/m);
+      return true;
+    });
+  });
+
+  it('fails a miss without a closest key when nothing is recorded', async () => {
+    const empty = path.join(directory, 'empty');
+    const player = createCassetteService(stubService(), { mode: 'replay', directory: empty });
+
+    await assert.rejects(player.sendMessage({ messages }), error => {
+      assert.equal(error.code, 'CASSETTE_MISS');
+      assert.equal(error.closestKey, undefined);
+      return true;
+    });
+  });
+});
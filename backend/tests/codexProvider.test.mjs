@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+import { describe, it } from 'node:test';
+import { isAbortError } from '../lib/llm/abort.js';
+import { createCodexProvider } from '../lib/llm/providers/codexProvider.js';
+
+// A stand-in for the Codex CLI child: never answers, records the signals it is sent
+function fakeSpawn() {
+  const children = [];
+  const spawnImpl = (command, args) => {
+    const child = new EventEmitter();
+    child.command = command;
+    child.args = args;
+    child.stdin = new PassThrough();
+    child.stdout = new PassThrough();
+    child.stderr = new PassThrough();
+    child.killedWith = [];
+    child.kill = signal => {
+      child.killedWith.push(signal);
+      child.stdout.end();
+      setImmediate(() => child.emit('close', null, signal));
+      return true;
+    };
+    children.push(child);
+    return child;
+  };
+  return { children, spawnImpl };
+}
+
+describe('Codex provider cancellation', () => {
+  it('kills the child and rejects send() with an AbortError', async () => {
+    const { children, spawnImpl } = fakeSpawn();
+    const provider = createCodexProvider(spawnImpl);
+    const controller = new AbortController();
+
+    const pending = provider.send({ prompt: 'Speak.', signal: controller.signal });
+    assert.equal(children.length, 1);
+    controller.abort();
+
+    await assert.rejects(pending, error => isAbortError(error));
+    assert.deepEqual(children[0].killedWith, ['SIGTERM']);
+  });
+
+  it('kills the child and reports an AbortError from stream()', async () => {
+    const { children, spawnImpl } = fakeSpawn();
+    const provider = createCodexProvider(spawnImpl);
+    const controller = new AbortController();
+    let done = false;
+    let failure;
+
+    const pending = provider.stream({
+      prompt: 'Speak.',
+      signal: controller.signal,
+      onToken: () => {},
+      onDone: () => {
+        done = true;
+      },
+      onError: error => {
+        failure = error;
+      },
+    });
+    controller.abort();
+    await pending;
+
+    assert.ok(isAbortError(failure));
+    assert.equal(done, false);
+    assert.deepEqual(children[0].killedWith, ['SIGTERM']);
+  });
+
+  it('does not spawn when the signal is already aborted', async () => {
+    const { children, spawnImpl } = fakeSpawn();
+    const provider = createCodexProvider(spawnImpl);
+
+    await assert.rejects(provider.send({ prompt: 'Speak.', signal: AbortSignal.abort() }), error => isAbortError(error));
+    assert.equal(children.length, 0);
+  });
+});
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { createLLMService } from '../lib/llm/index.js';
+
+// Stands in for a provider module; remembers the options of every call
+function stubProvider(name) {
+  const provider = {
+    name,
+    calls: [],
+    async send({ prompt, options }) {
+      provider.calls.push({ prompt, options });
+      return { content: `${name} reply`, metadata: { timestamp: 1 } };
+    },
+    async stream({ prompt, options, onToken, onDone }) {
+      provider.calls.push({ prompt, options });
+      onToken(`${name} reply`);
+      onDone({});
+    },
+  };
+  return provider;
+}
+
+const messages = [{ role: 'user', content: 'Speak.' }];
+
+describe('LLM service provider selection', () => {
+  let providers;
+  let service;
+
+  before(() => {
+    delete process.env.LLM_PROVIDER;
+    delete process.env.USE_CLAUDE;
+  });
+
+  const create = () => {
+    providers = {
+      codex: stubProvider('codex-cli'),
+      claude: stubProvider('claude-agent-sdk'),
+      openai: stubProvider('openai-compatible'),
+    };
+    service = createLLMService({ providers });
+  };
+
+  it('uses the default provider when the request names none', async () => {
+    create();
+    const response = await service.sendMessage({ messages, options: { model: 'gpt-5' } });
+
+    assert.equal(response.content, 'codex-cli reply');
+    assert.equal(response.metadata.providerKey, 'codex');
+    assert.equal(response.metadata.provider, 'codex-cli');
+    assert.equal(response.metadata.resolvedModel, 'gpt-5');
+    assert.equal(providers.codex.calls[0].options.providerOptions.model, 'gpt-5');
+    assert.equal(service.getProviderKey(), 'codex');
+    assert.deepEqual(service.getProviderKeys(), ['codex', 'claude', 'openai']);
+  });
+
+  it('routes a request to the provider it names', async () => {
+    create();
+    const response = await service.sendMessage({ messages, options: { provider: 'Claude', model: 'claude-haiku-4' } });
+
+    assert.equal(response.content, 'claude-agent-sdk reply');
+    assert.equal(providers.codex.calls.length, 0);
+    const { options } = providers.claude.calls[0];
+    assert.equal(options.provider, undefined);
+    assert.equal(options.model, 'haiku');
+    assert.equal(response.metadata.providerKey, 'claude');
+    assert.equal(response.metadata.requestedModel, 'claude-haiku-4');
+    assert.equal(response.metadata.resolvedModel, 'haiku');
+  });
+
+  it('passes local model names through, minus an openai/ prefix', async () => {
+    create();
+    await service.sendMessage({ messages, options: { provider: 'openai', model: 'openai/llama3.1:8b' } });
+
+    assert.equal(providers.openai.calls[0].options.model, 'llama3.1:8b');
+  });
+
+  it('reports the selected provider when a stream finishes', async () => {
+    create();
+    const tokens = [];
+    let metadata;
+    await service.streamMessage({
+      messages,
+      options: { provider: 'openai' },
+      onToken: token => tokens.push(token),
+      onDone: value => {
+        metadata = value;
+      },
+      onError: assert.fail,
+    });
+
+    assert.deepEqual(tokens, ['openai-compatible reply']);
+    assert.equal(metadata.providerKey, 'openai');
+    assert.equal(metadata.provider, 'openai-compatible');
+  });
+
+  it('rejects an unknown provider without calling any', async () => {
+    create();
+    await assert.rejects(service.sendMessage({ messages, options: { provider: 'gemini' } }), error => {
+      assert.equal(error.code, 'INVALID_REQUEST');
+      assert.match(error.message, /unsupported LLM provider "gemini"/);
+      return true;
+    });
+    assert.ok(Object.values(providers).every(provider => provider.calls.length === 0));
+  });
+});
@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { classifyPrompt, createMockProvider } from '../lib/llm/providers/mockProvider.js';
+
+const turnPrompt = (philosopher, topic = 'Ritual') =>
+  `<Prompt>\n  <SystemPersona philosopher="${philosopher}" version="2025-10-06">\n  <Topic>\n    The topic to be discussed today is: ${topic}\n  </Topic>\n</Prompt>`;
+
+const fixtures = {
+  'confucius.json': {
+    philosopher: 'confucius',
+    replies: [
+      { reasoning: 'Open.', final: '{philosopher} speaks on {topic}.', addressees: ['laozi'] },
+      { reasoning: 'Answer.', final: 'Second reply.' },
+    ],
+  },
+  'flaky.json': {
+    philosopher: 'mozi',
+    replies: [{ error: 'overloaded', status: 529 }, { reasoning: 'Recovered.', final: 'Back.' }],
+  },
+  'default.json': { replies: [{ reasoning: 'Default.', final: 'I am {philosopher}.' }] },
+};
+
+describe('mock provider', () => {
+  let fixturesDir;
+  const provider = (options = {}) =>
+    createMockProvider({ fixturesDir, latencyMs: 0, tokenDelayMs: 0, ...options });
+
+  before(async () => {
+    fixturesDir = await mkdtemp(path.join(tmpdir(), 'mock-llm-'));
+    for (const [file, fixture] of Object.entries(fixtures)) {
+      await writeFile(path.join(fixturesDir, file), JSON.stringify(fixture), 'utf8');
+    }
+  });
+
+  after(async () => {
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  it('classifies the orchestrator prompts', () => {
+    assert.deepEqual(classifyPrompt(turnPrompt('laozi', 'Water')), { kind: 'turn', philosopher: 'laozi', topic: 'Water' });
+    assert.deepEqual(classifyPrompt('You are Mozi (Mohism) in a council.\nHow urgently do you need to speak next?'), { kind: 'bid', speaker: 'Mozi' });
+    assert.deepEqual(classifyPrompt('You maintain the long-term memory of Laozi in a philosophical council.'), { kind: 'summary', speaker: 'Laozi' });
+    assert.deepEqual(classifyPrompt('Hello'), { kind: 'other' });
+  });
+
+  it('fills placeholders and cycles through a script per philosopher', async () => {
+    const mock = provider();
+    const replies = [];
+    for (let index = 0; index < 3; index += 1) {
+      replies.push(await mock.send({ prompt: turnPrompt('confucius') }));
+    }
+
+    assert.deepEqual(JSON.parse(replies[0].content), {
+      reasoning: 'Open.',
+      final: 'confucius speaks on Ritual.',
+      addressees: ['laozi'],
+    });
+    assert.equal(JSON.parse(replies[1].content).final, 'Second reply.');
+    assert.equal(JSON.parse(replies[2].content).final, 'confucius speaks on Ritual.');
+    assert.deepEqual(replies.map(reply => reply.metadata.reply), [0, 1, 0]);
+    assert.equal(replies[0].metadata.fixture, 'confucius');
+  });
+
+  it('falls back to the default script', async () => {
+    const reply = await provider().send({ prompt: turnPrompt('xunzi') });
+    assert.equal(JSON.parse(reply.content).final, 'I am xunzi.');
+    assert.equal(reply.metadata.fixture, 'default');
+  });
+
+  it('fails on an error entry, then moves on', async () => {
+    const mock = provider();
+    await assert.rejects(mock.send({ prompt: turnPrompt('mozi') }), error => {
+      assert.equal(error.message, 'Mock provider error 529: overloaded');
+      assert.equal(error.status, 529);
+      return true;
+    });
+    assert.equal(JSON.parse((await mock.send({ prompt: turnPrompt('mozi') })).content).final, 'Back.');
+  });
+
+  it('fails every Nth call when failEvery is set', async () => {
+    const mock = provider({ failEvery: 2 });
+    await mock.send({ prompt: 'Hello' });
+    await assert.rejects(mock.send({ prompt: 'Hello' }), error => {
+      assert.match(error.message, /injected failure on call 2/);
+      assert.equal(error.status, 503);
+      return true;
+    });
+    assert.equal((await mock.send({ prompt: 'Hello' })).content, 'Mock reply.');
+  });
+
+  it('streams the reply word by word', async () => {
+    const tokens = [];
+    let metadata;
+    await provider().stream({
+      prompt: turnPrompt('xunzi'),
+      onToken: token => tokens.push(token),
+      onDone: value => {
+        metadata = value;
+      },
+      onError: assert.fail,
+    });
+
+    assert.ok(tokens.length > 1);
+    assert.equal(JSON.parse(tokens.join('')).final, 'I am xunzi.');
+    assert.equal(metadata.provider, 'mock');
+  });
+
+  it('rejects aborted calls with an abort error', async () => {
+    const mock = provider({ latencyMs: 1000 });
+    const controller = new AbortController();
+    const pending = mock.send({ prompt: turnPrompt('confucius'), signal: controller.signal });
+    controller.abort();
+    await assert.rejects(pending, { code: 'ABORTED' });
+
+    let streamError;
+    await mock.stream({
+      prompt: turnPrompt('confucius'),
+      signal: AbortSignal.abort(),
+      onToken: assert.fail,
+      onDone: assert.fail,
+      onError: error => {
+        streamError = error;
+      },
+    });
+    assert.equal(streamError.code, 'ABORTED');
+  });
+});
@@ -0,0 +1,132 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createOpenAICompatibleProvider } from '../lib/llm/providers/openaiCompatibleProvider.js';
+
+const sse = events =>
+  new Response(events.map(data => `data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`).join(''), {
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+
+const delta = content => ({ model: 'llama3.1:8b', choices: [{ delta: { content } }] });
+
+// Records each request and answers with `respond(body, init)`
+function fakeFetch(respond) {
+  const calls = [];
+  const fetchImpl = async (url, init) => {
+    const body = JSON.parse(init.body);
+    calls.push({ url, init, body });
+    return respond(body, init);
+  };
+  return { calls, fetchImpl };
+}
+
+// Collects a stream() call into { tokens, metadata, error }
+async function collect(provider, params) {
+  const tokens = [];
+  const result = { tokens };
+  await provider.stream({
+    ...params,
+    onToken: token => tokens.push(token),
+    onDone: metadata => {
+      result.metadata = metadata;
+    },
+    onError: error => {
+      result.error = error;
+    },
+  });
+  return result;
+}
+
+describe('OpenAI-compatible provider', () => {
+  it('posts a chat completion and returns the message content', async () => {
+    const { calls, fetchImpl } = fakeFetch(() =>
+      Response.json({ model: 'llama3.1:8b', choices: [{ message: { content: 'Ren first.' } }], usage: { total_tokens: 12 } }),
+    );
+    const provider = createOpenAICompatibleProvider({ fetchImpl, baseUrl: 'http://localhost:8080/v1/', apiKey: 'secret' });
+
+    const response = await provider.send({ prompt: 'Speak.', options: { model: 'llama3.1:8b', maxTokens: 64 } });
+
+    assert.equal(response.content, 'Ren first.');
+    assert.equal(response.metadata.servedModel, 'llama3.1:8b');
+    assert.deepEqual(response.metadata.usage, { total_tokens: 12 });
+    assert.equal(calls[0].url, 'http://localhost:8080/v1/chat/completions');
+    assert.equal(calls[0].init.headers.Authorization, 'Bearer secret');
+    assert.deepEqual(calls[0].body, {
+      messages: [{ role: 'user', content: 'Speak.' }],
+      stream: false,
+      model: 'llama3.1:8b',
+      max_tokens: 64,
+    });
+  });
+
+  it('streams delta content until [DONE]', async () => {
+    const { calls, fetchImpl } = fakeFetch(() => sse([delta('Ren '), delta('first.'), { choices: [{ delta: {} }] }, '[DONE]']));
+    const provider = createOpenAICompatibleProvider({ fetchImpl });
+
+    const { tokens, metadata, error } = await collect(provider, { prompt: 'Speak.' });
+
+    assert.equal(error, undefined);
+    assert.deepEqual(tokens, ['Ren ', 'first.']);
+    assert.deepEqual(metadata, { provider: 'openai-compatible', servedModel: 'llama3.1:8b' });
+    assert.equal(calls[0].body.stream, true);
+  });
+
+  it('fails a stream that ends before [DONE]', async () => {
+    const { fetchImpl } = fakeFetch(() => sse([delta('Ren ')]));
+    const provider = createOpenAICompatibleProvider({ fetchImpl });
+
+    const { tokens, metadata, error } = await collect(provider, { prompt: 'Speak.' });
+
+    assert.deepEqual(tokens, ['Ren ']);
+    assert.equal(metadata, undefined);
+    assert.match(error.message, /ended before \[DONE\]/);
+  });
+
+  it('tags an unknown model as UNSUPPORTED_MODEL', async () => {
+    const { fetchImpl } = fakeFetch(() => Response.json({ error: { message: "model 'llama9' not found" } }, { status: 404 }));
+    const provider = createOpenAICompatibleProvider({ fetchImpl });
+
+    await assert.rejects(provider.send({ prompt: 'Speak.', options: { model: 'llama9', requestedModel: 'llama9' } }), error => {
+      assert.equal(error.code, 'UNSUPPORTED_MODEL');
+      assert.equal(error.status, 404);
+      assert.equal(error.requestedModel, 'llama9');
+      assert.match(error.message, /OpenAI-compatible server error 404: model 'llama9' not found/);
+      return true;
+    });
+
+    const { error } = await collect(provider, { prompt: 'Speak.', options: { requestedModel: 'llama9' } });
+    assert.equal(error.code, 'UNSUPPORTED_MODEL');
+  });
+
+  it('reports an unreachable server without tagging the model', async () => {
+    const provider = createOpenAICompatibleProvider({
+      fetchImpl: async () => {
+        throw new TypeError('fetch failed', { cause: { code: 'ECONNREFUSED' } });
+      },
+    });
+
+    await assert.rejects(provider.send({ prompt: 'Speak.' }), error => {
+      assert.match(error.message, /Cannot reach OpenAI-compatible server at .*: ECONNREFUSED/);
+      assert.equal(error.code, undefined);
+      return true;
+    });
+  });
+
+  it('turns an aborted request into an abort error', async () => {
+    const { calls, fetchImpl } = fakeFetch(
+      (body, init) =>
+        new Promise((resolve, reject) => {
+          init.signal.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')), { once: true });
+        }),
+    );
+    const provider = createOpenAICompatibleProvider({ fetchImpl });
+
+    await assert.rejects(provider.send({ prompt: 'Speak.', signal: AbortSignal.abort() }), { code: 'ABORTED' });
+    assert.equal(calls.length, 0);
+
+    const controller = new AbortController();
+    const pending = collect(provider, { prompt: 'Speak.', signal: controller.signal });
+    controller.abort();
+    assert.equal((await pending).error.code, 'ABORTED');
+  });
+});
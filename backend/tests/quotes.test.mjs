@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { chineseContainment, englishContainment, normalizeChinese } from '../lib/quotes/fuzzy.js';
+import { createQuoteIndex, tokenize } from '../lib/quotes/quoteIndex.js';
+
+describe('quote search', () => {
+  const index = createQuoteIndex();
+
+  it('folds plurals and gerunds and keeps CJK characters as terms', () => {
+    assert.deepEqual(tokenize('Floods and the flooding rivers 水'), ['flood', 'flood', 'river', '水']);
+  });
+
+  it("ranks the philosopher's own works first", async () => {
+    const results = await index.search({ philosopher: 'laozi', query: 'water' });
+    assert.deepEqual(results.map(result => result.id), ['daodejing-8', 'daodejing-78', 'analects-8.21']);
+    assert.equal(results[0].score, 5);
+    assert.equal(results[0].keywordTerms, undefined);
+  });
+
+  it('matches Chinese queries against the original text', async () => {
+    const [result] = await index.search({ query: '學而', limit: 1 });
+    assert.equal(result.id, 'analects-1.1');
+    assert.equal(result.source, 'Analects 1.1 (論語·學而)');
+  });
+
+  it('rejects a non-string query', async () => {
+    await assert.rejects(index.search({ query: 42 }), { code: 'INVALID_REQUEST' });
+  });
+
+  it('returns nothing for a topic no passage shares a term with', async () => {
+    assert.deepEqual(await index.search({ philosopher: 'confucius', query: 'quantum computing' }), []);
+  });
+});
+
+describe('fuzzy matching', () => {
+  it('folds simplified characters and drops punctuation', () => {
+    assert.equal(normalizeChinese('学而时习之，不亦说乎？'), '學而時習之不亦說乎');
+  });
+
+  it('scores Chinese by the share of quote bigrams in the passage', () => {
+    const passage = '學而時習之，不亦說乎？有朋自遠方來，不亦樂乎？';
+    assert.equal(chineseContainment('学而时习之', passage), 1);
+    // 學而 and 而時 match; 時讀 and 讀之 do not
+    assert.equal(chineseContainment('學而時讀之', passage), 0.5);
+    assert.equal(chineseContainment('', passage), 0);
+  });
+
+  it('scores English on words and word pairs, so word order counts', () => {
+    const passage = 'Is it not delightful to have friends coming from distant quarters?';
+    assert.equal(englishContainment('friends coming from distant quarters', passage), 1);
+    // Every word is there, but only "distant quarters" of the three pairs
+    assert.equal(englishContainment('friends distant quarters coming', passage), (1 + 1 / 3) / 2);
+    assert.equal(englishContainment('the of and', passage), 0);
+  });
+});
+
+describe('quote verification thresholds', () => {
+  let directory;
+  let index;
+
+  before(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'corpus-'));
+    const work = {
+      work: 'Test Classic',
+      chineseTitle: '試經',
+      philosopher: 'confucius',
+      translation: 'Test',
+      passages: [
+        {
+          id: 'test-1',
+          chapter: '1',
+          section: '一',
+          chinese: '甲乙丙丁戊己庚辛壬癸子',
+          english: 'alpha bravo charlie delta echo foxtrot golf hotel',
+          keywords: [],
+        },
+      ],
+    };
+    await writeFile(path.join(directory, 'test.json'), JSON.stringify(work), 'utf8');
+    index = createQuoteIndex({ directory });
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const status = async quote => (await index.verify(quote)).status;
+
+  it('verifies Chinese from 0.9 and calls it a close paraphrase from 0.5', async () => {
+    // 9 of 10 bigrams
+    assert.equal(await status({ chinese: '甲乙丙丁戊己庚辛壬癸丑' }), 'verified');
+    // 8 of 9 bigrams
+    assert.equal(await status({ chinese: '甲乙丙丁戊己庚辛壬丑' }), 'close-paraphrase');
+    // 2 of 4 bigrams
+    assert.equal(await status({ chinese: '甲乙丙子丑' }), 'close-paraphrase');
+    // 1 of 4 bigrams
+    assert.equal(await status({ chinese: '甲乙寅卯辰' }), 'unverified');
+  });
+
+  it('verifies English from 0.9 and calls it a close paraphrase from 0.7', async () => {
+    // All words, 4 of 5 pairs
+    assert.equal(await status({ english: 'alpha bravo charlie delta echo golf' }), 'verified');
+    // All words, 2 of 4 pairs
+    assert.equal(await status({ english: 'alpha bravo charlie echo golf' }), 'close-paraphrase');
+    // All words, no pairs
+    assert.equal(await status({ english: 'alpha charlie echo golf' }), 'unverified');
+  });
+
+  it('judges by the Chinese text when both are given', async () => {
+    assert.equal(await status({ chinese: '甲乙寅卯辰', english: 'alpha bravo charlie' }), 'unverified');
+  });
+
+  it('rejects a quote without text', async () => {
+    await assert.rejects(index.verify({ source: '試經' }), { code: 'INVALID_REQUEST' });
+  });
+});
+
+describe('quote verification against the bundled corpus', () => {
+  const index = createQuoteIndex();
+
+  it('verifies an exact quote with its citation', async () => {
+    const result = await index.verify({ chinese: '學而時習之，不亦說乎？', source: 'Analects 1.1' });
+    assert.equal(result.status, 'verified');
+    assert.equal(result.score, 1);
+    assert.equal(result.match.id, 'analects-1.1');
+  });
+
+  it('verifies a quote written in simplified characters', async () => {
+    const result = await index.verify({ chinese: '学而时习之，不亦说乎？有朋自远方来', source: '论语·学而' });
+    assert.equal(result.status, 'verified');
+    assert.equal(result.match.id, 'analects-1.1');
+  });
+
+  it('calls a reworded translation a close paraphrase', async () => {
+    const result = await index.verify({ english: 'Friends coming from distant quarters, is it not delightful to learn?' });
+    assert.equal(result.status, 'close-paraphrase');
+    assert.equal(result.match.id, 'analects-1.1');
+  });
+
+  it('downgrades an exact quote attributed to the wrong work', async () => {
+    const result = await index.verify({ chinese: '學而時習之，不亦說乎？', source: 'Mencius 1.1' });
+    assert.equal(result.status, 'close-paraphrase');
+    assert.equal(result.score, 1);
+    assert.match(result.note, /Analects 1\.1/);
+  });
+
+  it('leaves an invented quote unverified', async () => {
+    const result = await index.verify({ english: 'The quantum computer hums beneath the moonlit server rack.' });
+    assert.equal(result.status, 'unverified');
+  });
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import { createServer } from 'node:net';
+import { fileURLToPath } from 'node:url';
+import { after, before, describe, it } from 'node:test';
+
+const SERVER = fileURLToPath(new URL('../server.mjs', import.meta.url));
+
+const freePort = () =>
+  new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, '127.0.0.1', () => {
+      const { port } = probe.address();
+      probe.close(() => resolve(port));
+    });
+  });
+
+describe('/api/stream client disconnect', () => {
+  let server;
+  let port;
+  let output = '';
+
+  // Resolves once the server has printed a line matching `pattern`
+  const logged = pattern =>
+    new Promise((resolve, reject) => {
+      const check = () => {
+        if (pattern.test(output)) {
+          server.stdout.off('data', check);
+          server.off('exit', exited);
+          resolve();
+        }
+      };
+      const exited = code => reject(new Error(`Backend exited with code ${code} before logging ${pattern}:\n${output}`));
+      server.stdout.on('data', check);
+      server.once('exit', exited);
+      check();
+    });
+
+  before(async () => {
+    port = await freePort();
+    // The mock provider sends its first word, then waits a minute before the next
+    server = spawn(process.execPath, [SERVER], {
+      env: {
+        ...process.env,
+        PORT: String(port),
+        HOST: '127.0.0.1',
+        LLM_PROVIDER: 'mock',
+        LLM_CASSETTE_MODE: 'off',
+        MOCK_LLM_LATENCY_MS: '0',
+        MOCK_LLM_TOKEN_DELAY_MS: '60000',
+        NABOKOV_BACKEND_COLOR: '0',
+        NABOKOV_BACKEND_NO_LISTEN: '',
+      },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    server.stdout.on('data', chunk => {
+      output += chunk;
+    });
+    server.stderr.on('data', chunk => {
+      output += chunk;
+    });
+    await logged(/Status: Running/);
+  });
+
+  after(() => {
+    server.kill();
+  });
+
+  it('aborts the provider call when the client goes away', { timeout: 10000 }, async () => {
+    const controller = new AbortController();
+    const response = await fetch(`http://127.0.0.1:${port}/api/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messages: [{ role: 'user', content: 'Speak.' }] }),
+      signal: controller.signal,
+    });
+    const reader = response.body.getReader();
+    const first = new TextDecoder().decode((await reader.read()).value);
+    assert.match(first, /"delta"/);
+
+    controller.abort();
+
+    // Only an aborted provider signal ends the minute-long wait this early
+    await logged(/Cancelled POST \/api\/stream/);
+    assert.doesNotMatch(output, /\[DONE\]|Completed POST \/api\/stream/);
+  });
+});
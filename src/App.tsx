@@ -2,18 +2,136 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { defaultPhilosophers } from './config/philosophers';
 import {
   ComposerSubmission,
+  ConversationEvent,
   InspectorSnapshot,
+  FailedTurn,
   MessageEvent,
+  PendingDraft,
   Phase,
+  PhaseChangeEvent,
   Philosopher,
   QuoteData,
+  ResponseTask,
+  SessionSummary,
+  TranslationEvent,
+  TranslationLanguage,
+  VisibilityPolicy,
 } from './types';
 import { formatDate, formatTime } from './lib/time';
-import { healthCheck, sendMessageToBackend } from './lib/api';
-import { createEmptyMemories, pushMemoryEntry } from './lib/memory';
+import {
+  createSession,
+  deleteSession,
+  healthCheck,
+  isAbortError,
+  listSessions,
+  loadSession,
+  registerAgents,
+  renameSession,
+  saveSession,
+  searchQuotes,
+  sendMessageToBackend,
+  verifyQuote,
+  streamMessageFromBackend,
+  translateText,
+} from './lib/api';
+import {
+  applyMemorySummary,
+  buildSummaryPrompt,
+  createEmptyMemories,
+  entriesToSummarize,
+  getSummaryFor,
+  pushMemoryEntry,
+  type MemoryState,
+} from './lib/memory';
 import { assembleContextForPhilosopher } from './lib/context';
-import { parseModelResponse } from './lib/parser';
+import { recallExchanges } from './lib/recall';
+import {
+  DEFAULT_VISIBILITY_POLICY,
+  resolveVisibility,
+  visibilityOf,
+} from './lib/visibility';
+import {
+  DEFAULT_BROADCAST_SETTINGS,
+  isBroadcast,
+  mapWithConcurrency,
+  type BroadcastSettings,
+} from './lib/broadcast';
+import { approveDraft, isDraftEdited, type DraftEdits } from './lib/approval';
+import {
+  DEFAULT_GUARD_SETTINGS,
+  checkTurn,
+  createGuardState,
+  recordReply,
+  resetAfterResume,
+  resetForPrompt,
+  type GuardSettings,
+  type GuardTrip,
+} from './lib/guard';
+import {
+  DEFAULT_SCHEDULER,
+  SCHEDULERS,
+  buildBidPrompt,
+  parseBid,
+  type SchedulerContext,
+  type SchedulerId,
+} from './lib/scheduler';
+import {
+  mergeBatches,
+  moveInQueue,
+  reassignTasks,
+  removeFromQueue,
+  splitTask,
+  takeNextBatch,
+} from './lib/queue';
+import { DEFAULT_RETRY_POLICY, errorReason, withRetries } from './lib/retry';
+import { answeredByFrom, normalizeLLMChoice } from './lib/models';
+import { extractPartialFinal, parseModelResponse } from './lib/parser';
 import { buildHistoryLines } from './lib/history';
+import {
+  EXPORT_MIME_TYPES,
+  ExportFormat,
+  exportFilename,
+  exportTranscript,
+} from './lib/export';
+import { downloadText } from './lib/download';
+import {
+  createPlayback,
+  parseTranscriptJsonl,
+  playbackDelay,
+  revealEvents,
+  type PlaybackState,
+} from './lib/playback';
+import { mockEventSequence } from './mocks';
+import {
+  TARGET_LANGUAGES,
+  TRANSLATION_LANGUAGE_LABELS,
+  applyTranslations,
+  createTranslationEvent,
+  translationKey,
+  upsertTranslation,
+  type TargetLanguage,
+} from './lib/translation';
+import {
+  agentUrlForPort,
+  sendTaskToAgent,
+  streamTaskFromAgent,
+  type AgentRegistration,
+} from './lib/a2a';
+import {
+  PHASE_LABELS,
+  createPhaseChange,
+  getNextPhase,
+  getPreviousPhase,
+  haveAllSpokenInPhase,
+} from './lib/phases';
+import {
+  SESSION_STATE_VERSION,
+  SessionState,
+  deserializeQueue,
+  isSessionState,
+  serializeQueue,
+  withoutDrafts,
+} from './lib/sessions';
 import { HeaderBand } from './components/HeaderBand/HeaderBand';
 import { Sidebar } from './components/Sidebar/Sidebar';
 import { DialogueStream } from './components/DialogueView/DialogueStream';
@@ -22,11 +140,8 @@ import { PhilosopherViewSidebar } from './components/PhilosopherView/Philosopher
 
 import './styles/global.css';
 
-type ResponseTask = {
-  id: string;
-  philosopherId: string;
-  trigger: MessageEvent;
-};
+const ACTIVE_SESSION_STORAGE_KEY = 'confucian-cafe.activeSessionId';
+const SESSION_AUTOSAVE_DELAY_MS = 800;
 
 const App = () => {
   const [philosophers, setPhilosophers] = useState<Philosopher[]>(() =>
@@ -38,9 +153,9 @@ const App = () => {
     ),
   );
   const [topic, setTopic] = useState<string>('The Way');
-  const [sessionDate] = useState<string>(() => new Date().toISOString());
+  const [sessionDate, setSessionDate] = useState<string>(() => new Date().toISOString());
   const [showInsights, setShowInsights] = useState(true);
-  const [currentSpeaker, setCurrentSpeaker] = useState<string | null>(null);
+  const [currentSpeakers, setCurrentSpeakers] = useState<string[]>([]);
   const [perspectiveMode, setPerspectiveMode] = useState<'moderator' | 'philosopher'>(
     'moderator',
   );
@@ -57,11 +172,37 @@ const App = () => {
     return initial;
   });
   const [queueOrder, setQueueOrder] = useState<string[]>([]);
-  const currentPhase: Phase = 'introduce';
+  const [pendingTasks, setPendingTasks] = useState<Record<string, ResponseTask[]>>({});
+  const [pinnedSpeaker, setPinnedSpeaker] = useState<string | null>(null);
+  const [currentPhase, setCurrentPhase] = useState<Phase>('introduce');
+  const [phaseChanges, setPhaseChanges] = useState<PhaseChangeEvent[]>([]);
+  const [autoAdvancePhase, setAutoAdvancePhase] = useState(false);
   const [inspectorOpen, setInspectorOpen] = useState(false);
   const [backendHealthy, setBackendHealthy] = useState<boolean | null>(null);
   const [isPaused, setIsPaused] = useState(false);
   const [memories, setMemories] = useState(() => createEmptyMemories(defaultPhilosophers));
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [resumeToken, setResumeToken] = useState(0);
+  const [playback, setPlayback] = useState<PlaybackState | null>(null);
+  const [agentStatuses, setAgentStatuses] = useState<Record<string, AgentRegistration>>({});
+  const [translations, setTranslations] = useState<TranslationEvent[]>([]);
+  const [pendingTranslations, setPendingTranslations] = useState<string[]>([]);
+  const [displayLanguage, setDisplayLanguage] = useState<TranslationLanguage>('english');
+  const [autoTranslate, setAutoTranslate] = useState(false);
+  const [visibilityPolicy, setVisibilityPolicy] = useState<VisibilityPolicy>(
+    DEFAULT_VISIBILITY_POLICY,
+  );
+  const [schedulerId, setSchedulerId] = useState<SchedulerId>(DEFAULT_SCHEDULER);
+  const [bids, setBids] = useState<Record<string, number>>({});
+  const [guardSettings, setGuardSettings] =
+    useState<GuardSettings>(DEFAULT_GUARD_SETTINGS);
+  const [approvalMode, setApprovalMode] = useState(false);
+  const [pendingDrafts, setPendingDrafts] = useState<PendingDraft[]>([]);
+  const [broadcastSettings, setBroadcastSettings] = useState<BroadcastSettings>(
+    DEFAULT_BROADCAST_SETTINGS,
+  );
+  const [failedTurns, setFailedTurns] = useState<FailedTurn[]>([]);
 
   const philosopherMap = useMemo(() => {
     const map = new Map<string, Philosopher>();
@@ -110,6 +251,15 @@ const App = () => {
       const changed = prev.some((id, index) => next[index] !== id);
       return changed ? next : prev;
     });
+
+    // Pending task lists are replaced, never mutated, so identity shows a change
+    setPendingTasks((prev) => {
+      const next = Object.fromEntries(globalQueueRef.current.pending);
+      const keys = Object.keys(next);
+      if (keys.length !== Object.keys(prev).length) return next;
+      const changed = keys.some((id) => prev[id] !== next[id]);
+      return changed ? next : prev;
+    });
   }, [philosopherIds]);
 
   /**
@@ -148,10 +298,56 @@ const App = () => {
    */
   const globallyProcessingRef = useRef<boolean>(false);
 
+  /**
+   * SCHEDULER STATE
+   *
+   * `schedulingRef` is held while the scheduler decides (bidding awaits model
+   * calls); `lastSpeakerRef` drives round-robin rotation and `pickedSpeakerRef`
+   * holds the moderator's choice for moderator-picks.
+   */
+  const schedulerIdRef = useRef(schedulerId);
+  const schedulingRef = useRef(false);
+  const lastSpeakerRef = useRef<string | null>(null);
+  const pickedSpeakerRef = useRef<string | null>(null);
+  // Moderator's pin from the queue panel; overrides the scheduler for one turn
+  const pinnedSpeakerRef = useRef<string | null>(null);
+  // Broadcast prompts waiting to be answered in parallel, oldest first
+  const broadcastsRef = useRef<string[]>([]);
+  const broadcastSettingsRef = useRef(broadcastSettings);
+
+  /**
+   * RUNAWAY GUARD
+   *
+   * Counts philosopher turns since the last moderator prompt and watches for
+   * cooldown violations, A↔B ping-pong and repeated replies (`lib/guard.ts`).
+   */
+  const guardRef = useRef(createGuardState());
+  const guardSettingsRef = useRef(guardSettings);
+
+  /**
+   * ACTIVE TURNS
+   *
+   * Holds the AbortController of each philosopher currently speaking (several
+   * during a parallel broadcast) so the moderator can cancel the in-flight
+   * requests ("Stop speaker"). Aborting the fetch closes the connection, which
+   * makes the backend stop the provider.
+   */
+  const activeTurnsRef = useRef(
+    new Map<string, { controller: AbortController; tasks: ResponseTask[] }>(),
+  );
+
   const processedMessagesRef = useRef(new Set<string>());
   const memoriesRef = useRef(memories);
   const isPausedRef = useRef(isPaused);
   const topicRef = useRef(topic);
+  const phaseRef = useRef(currentPhase);
+  const playbackRef = useRef(playback);
+  const agentStatusesRef = useRef(agentStatuses);
+  const autoTranslateRef = useRef(autoTranslate);
+  const visibilityPolicyRef = useRef(visibilityPolicy);
+  const approvalModeRef = useRef(approvalMode);
+  const pendingTranslationsRef = useRef(new Set<string>());
+  const summarizingRef = useRef(new Set<string>());
 
   useEffect(() => {
     // Initialize processing flags for new philosophers
@@ -187,11 +383,11 @@ const App = () => {
   }, [philosopherIds]);
 
   /**
-   * ADDRESSEE-ORDERED ENQUEUE
+   * SCHEDULED ENQUEUE
    *
-   * Adds philosophers to the global queue in the order specified by addressees.
-   * Implements deduplication: if a philosopher is already in the queue, they stay
-   * in their original position and the new task is added to their pending list.
+   * Adds a task for each addressee to their pending list and lets the active
+   * scheduler place newcomers in the global queue. Philosophers already queued
+   * are not added twice; their new task is batched into their next reply.
    *
    * @param addressees - Ordered list of philosopher IDs to enqueue
    * @param trigger - The message that triggered this response
@@ -199,10 +395,10 @@ const App = () => {
   function enqueueWithPriority(addressees: string[], trigger: MessageEvent) {
     if (!addressees.length) return;
 
-    addressees.forEach((addresseeId) => {
-      // Validate addressee is a real philosopher
-      if (!philosopherMap.has(addresseeId)) return;
+    // Validate addressees are real philosophers
+    const valid = addressees.filter((addresseeId) => philosopherMap.has(addresseeId));
 
+    valid.forEach((addresseeId) => {
       // Create task for this addressee
       const now = Date.now();
       const task: ResponseTask = {
@@ -214,17 +410,32 @@ const App = () => {
       // Add task to pending queue for batching
       const existing = globalQueueRef.current.pending.get(addresseeId) || [];
       globalQueueRef.current.pending.set(addresseeId, [...existing, task]);
-
-      // Add to global queue ONLY if not already present (deduplication)
-      if (!globalQueueRef.current.queue.includes(addresseeId)) {
-        globalQueueRef.current.queue.push(addresseeId);
-      }
     });
 
+    globalQueueRef.current.queue = SCHEDULERS[schedulerIdRef.current].enqueue(
+      globalQueueRef.current.queue,
+      valid,
+      schedulerContext(),
+    );
     updateQueueDepths();
     drainQueues();
   }
 
+  /**
+   * Puts tasks back ahead of anything already pending for the philosopher, for
+   * regenerated drafts and recovered failed turns.
+   */
+  function requeueTasks(philosopherId: string, tasks: ResponseTask[]) {
+    const existing = globalQueueRef.current.pending.get(philosopherId) ?? [];
+    globalQueueRef.current.pending.set(philosopherId, [...tasks, ...existing]);
+    globalQueueRef.current.queue = SCHEDULERS[schedulerIdRef.current].enqueue(
+      globalQueueRef.current.queue,
+      [philosopherId],
+      schedulerContext(),
+    );
+    updateQueueDepths();
+  }
+
   function enqueueResponsesFromMessage(message: MessageEvent) {
     if (processedMessagesRef.current.has(message.id)) return;
     processedMessagesRef.current.add(message.id);
@@ -254,30 +465,134 @@ const App = () => {
     enqueueWithPriority(targets, message);
   }
 
+  function schedulerContext(): SchedulerContext {
+    return {
+      roster: philosopherIds,
+      lastSpeaker: lastSpeakerRef.current,
+      picked: pickedSpeakerRef.current,
+      bid: requestBid,
+    };
+  }
+
   function drainQueues() {
-    if (isPausedRef.current) return;
+    if (isPausedRef.current || playbackRef.current) return;
+    if (globallyProcessingRef.current || schedulingRef.current) return;
+    if (globalQueueRef.current.queue.length === 0) return;
+    void scheduleNextTurn();
+  }
+
+  /**
+   * TURN SCHEDULING
+   *
+   * Asks the active scheduler who speaks next. The decision may be async
+   * (bidding), so `schedulingRef` keeps a second drain from starting another
+   * round meanwhile. The queue is stored in the scheduler's order so the
+   * Speaking Order card matches it.
+   */
+  async function scheduleNextTurn() {
+    const pinned = pinnedSpeakerRef.current;
+    if (pinned && globalQueueRef.current.queue.includes(pinned)) {
+      void runQueue(pinned);
+      return;
+    }
 
-    // Process the first philosopher in the global queue
-    if (globalQueueRef.current.queue.length > 0) {
-      const nextPhilosopherId = globalQueueRef.current.queue[0];
-      if (nextPhilosopherId) {
-        void runQueue(nextPhilosopherId);
+    const broadcast = nextBroadcast();
+    if (broadcast) {
+      void runBroadcast(broadcast.triggerId, broadcast.addressees);
+      return;
+    }
+
+    const scheduler = SCHEDULERS[schedulerIdRef.current];
+    schedulingRef.current = true;
+    try {
+      const decision = await scheduler.selectNext(
+        globalQueueRef.current.queue,
+        schedulerContext(),
+      );
+      // Tasks may have been enqueued or cancelled while bids were out
+      const current = globalQueueRef.current.queue;
+      globalQueueRef.current.queue = [
+        ...decision.queue.filter((id) => current.includes(id)),
+        ...current.filter((id) => !decision.queue.includes(id)),
+      ];
+      updateQueueDepths();
+
+      if (decision.bids) {
+        setBids(decision.bids);
+        appendEventFeed(
+          `${formatTime(new Date().toISOString())} · system → bids ${Object.entries(
+            decision.bids,
+          )
+            .map(([id, score]) => `${philosopherMap.get(id)?.name ?? id} ${score}`)
+            .join(', ')}`,
+        );
+      }
+
+      if (!decision.next) {
+        if (scheduler.id === 'moderator-picks') {
+          appendEventFeed(
+            `${formatTime(new Date().toISOString())} · system → waiting for the moderator to pick the next speaker`,
+            { dedupe: true },
+          );
+        }
+        return;
       }
+      // runQueue takes the global lock before its first await
+      void runQueue(decision.next);
+    } catch (error) {
+      console.warn('Scheduling failed:', error);
+    } finally {
+      schedulingRef.current = false;
     }
   }
 
+  /**
+   * Oldest parallel broadcast that still has at least two philosophers waiting
+   * to answer it; with fewer it falls back to ordinary turns.
+   */
+  function nextBroadcast(): { triggerId: string; addressees: string[] } | null {
+    const { queue, pending } = globalQueueRef.current;
+    while (broadcastsRef.current.length > 0) {
+      const [triggerId = ''] = broadcastsRef.current;
+      const addressees = queue.filter((id) =>
+        pending.get(id)?.some((task) => task.trigger.id === triggerId),
+      );
+      if (addressees.length > 1) return { triggerId, addressees };
+      broadcastsRef.current = broadcastsRef.current.slice(1);
+    }
+    return null;
+  }
+
+  /**
+   * Cheap urgency call for the bidding scheduler: the philosopher rates how
+   * much it needs to answer its pending messages.
+   */
+  async function requestBid(philosopherId: string): Promise<number> {
+    const philosopher = philosopherMap.get(philosopherId);
+    const tasks = globalQueueRef.current.pending.get(philosopherId) ?? [];
+    if (!philosopher || tasks.length === 0) return 0;
+    const response = await sendMessageToBackend({
+      messages: [
+        { role: 'user', content: buildBidPrompt(philosopher, tasks, topicRef.current) },
+      ],
+      options: normalizeLLMChoice(philosopher.llm),
+    });
+    return parseBid(response.content);
+  }
+
   /**
    * SEQUENTIAL QUEUE PROCESSING
    *
    * This function enforces turn-taking by:
    * 1. Checking global lock (only one speaker at a time)
    * 2. Removing philosopher from global queue
-   * 3. Dequeuing ALL pending tasks for this philosopher
+   * 3. Dequeuing the next batch of pending tasks (all of them unless the
+   *    moderator split some off; those re-queue for a later turn)
    * 4. Processing them together as a batch
    * 5. Releasing lock and triggering next speaker
    */
   async function runQueue(philosopherId: string): Promise<void> {
-    if (isPausedRef.current) return;
+    if (isPausedRef.current || playbackRef.current) return;
     if (globallyProcessingRef.current) return; // Global lock check
     if (processingRef.current[philosopherId]) return;
 
@@ -285,42 +600,143 @@ const App = () => {
     const tasks = globalQueueRef.current.pending.get(philosopherId);
     if (!tasks || tasks.length === 0) return;
 
-    // Remove philosopher from queue and clear their pending tasks
-    globalQueueRef.current.queue = globalQueueRef.current.queue.filter(
-      (id) => id !== philosopherId
-    );
-    globalQueueRef.current.pending.delete(philosopherId);
-    updateQueueDepths();
+    // Tasks stay queued when the guard pauses, so resuming picks them up
+    const trip = checkTurn(guardRef.current, guardSettingsRef.current, philosopherId, {
+      nameOf: philosopherName,
+    });
+    if (trip) {
+      tripGuard(trip);
+      return;
+    }
+
+    const batch = dequeueTurn(philosopherId, tasks);
 
     globallyProcessingRef.current = true; // Acquire global lock
     processingRef.current[philosopherId] = true;
-    setCurrentSpeaker(philosopherId); // Set current speaker indicator
+    setCurrentSpeakers([philosopherId]); // Set current speaker indicator
     try {
-      await processBatchedTasks(tasks);
+      const reply = await processBatchedTasks(batch);
+      if (reply) settleReply(reply, batch);
     } finally {
       processingRef.current[philosopherId] = false;
       globallyProcessingRef.current = false; // Release global lock
-      setCurrentSpeaker(null); // Clear speaker indicator
+      setCurrentSpeakers([]); // Clear speaker indicator
       // Trigger next speaker
       drainQueues();
     }
   }
 
+  /**
+   * Removes a philosopher from the queue and returns the batch of tasks their
+   * coming turn answers.
+   */
+  function dequeueTurn(philosopherId: string, tasks: ResponseTask[]): ResponseTask[] {
+    globalQueueRef.current.queue = globalQueueRef.current.queue.filter(
+      (id) => id !== philosopherId
+    );
+    const { batch, rest } = takeNextBatch(tasks);
+    lastSpeakerRef.current = philosopherId;
+    if (rest.length > 0) {
+      // Triggers the moderator split off wait for a later turn of their own
+      globalQueueRef.current.pending.set(philosopherId, rest);
+      globalQueueRef.current.queue = SCHEDULERS[schedulerIdRef.current].enqueue(
+        globalQueueRef.current.queue,
+        [philosopherId],
+        schedulerContext(),
+      );
+    } else {
+      globalQueueRef.current.pending.delete(philosopherId);
+    }
+    if (pickedSpeakerRef.current === philosopherId) pickedSpeakerRef.current = null;
+    if (pinnedSpeakerRef.current === philosopherId) {
+      pinnedSpeakerRef.current = null;
+      setPinnedSpeaker(null);
+    }
+    setBids((prev) => {
+      if (!(philosopherId in prev)) return prev;
+      const next = { ...prev };
+      delete next[philosopherId];
+      return next;
+    });
+    updateQueueDepths();
+    return batch;
+  }
+
+  /**
+   * PARALLEL BROADCAST
+   *
+   * Answers a broadcast prompt with up to `concurrency` philosophers at once
+   * while holding the global lock. Every context is assembled from the memory
+   * snapshot taken when the batch starts, and replies are settled in addressee
+   * order once all have finished, so follow-up routing resumes only then.
+   * Addressees not started when the council pauses stay queued.
+   */
+  async function runBroadcast(triggerId: string, addressees: string[]): Promise<void> {
+    if (isPausedRef.current || playbackRef.current) return;
+    if (globallyProcessingRef.current) return;
+
+    broadcastsRef.current = broadcastsRef.current.filter((id) => id !== triggerId);
+    globallyProcessingRef.current = true;
+    const memorySnapshot = memoriesRef.current;
+    const { concurrency } = broadcastSettingsRef.current;
+    appendEventFeed(
+      `${formatTime(new Date().toISOString())} · system → ${addressees.length} philosophers answering in parallel (limit ${concurrency})`,
+    );
+
+    try {
+      const turns = await mapWithConcurrency(addressees, concurrency, async (philosopherId) => {
+        const tasks = globalQueueRef.current.pending.get(philosopherId);
+        if (isPausedRef.current || !tasks || tasks.length === 0) return null;
+        const trip = checkTurn(guardRef.current, guardSettingsRef.current, philosopherId, {
+          nameOf: philosopherName,
+        });
+        if (trip) {
+          tripGuard(trip);
+          return null;
+        }
+
+        const batch = dequeueTurn(philosopherId, tasks);
+        processingRef.current[philosopherId] = true;
+        setCurrentSpeakers((prev) => [...prev, philosopherId]);
+        try {
+          const reply = await processBatchedTasks(batch, { memories: memorySnapshot });
+          return reply ? { reply, batch } : null;
+        } finally {
+          processingRef.current[philosopherId] = false;
+          setCurrentSpeakers((prev) => prev.filter((id) => id !== philosopherId));
+        }
+      });
+
+      turns.forEach((turn) => {
+        if (turn) settleReply(turn.reply, turn.batch);
+      });
+    } finally {
+      globallyProcessingRef.current = false;
+      drainQueues();
+    }
+  }
+
   /**
    * BATCHED TASK PROCESSING WITH WEB-SEARCH ENHANCEMENT
    *
    * Processes multiple queued messages together, allowing the agent
    * to respond comprehensively to all pending messages in one reply.
    * Before generating response, searches for relevant Chinese philosophical quotes.
+   * Returns the finished reply for the caller to settle, or null when the turn
+   * failed or was cancelled. `memories` defaults to the live store; parallel
+   * broadcasts pass a shared snapshot.
    */
-  async function processBatchedTasks(tasks: ResponseTask[]): Promise<void> {
-    if (tasks.length === 0) return;
+  async function processBatchedTasks(
+    tasks: ResponseTask[],
+    { memories: memoryState = memoriesRef.current }: { memories?: MemoryState } = {},
+  ): Promise<MessageEvent | null> {
+    if (tasks.length === 0) return null;
 
     const firstTask = tasks[0];
-    if (!firstTask) return;
+    if (!firstTask) return null;
 
     const philosopher = philosopherMap.get(firstTask.philosopherId);
-    if (!philosopher) return;
+    if (!philosopher) return null;
 
     // Aggregate all trigger messages
     const uniqueTriggers = Array.from(
@@ -333,11 +749,18 @@ const App = () => {
       .join('\n');
 
     const lastTrigger = uniqueTriggers[uniqueTriggers.length - 1];
-    if (!lastTrigger) return;
+    if (!lastTrigger) return null;
+
+    // Pull older, topically relevant exchanges out of long-term memory
+    const recalled = recallExchanges(
+      memoryState,
+      philosopher.id,
+      `${topicRef.current} ${triggerText}`,
+    );
 
     const context = assembleContextForPhilosopher(
       philosopher,
-      memoriesRef.current,
+      memoryState,
       {
         recipients: uniqueTriggers.flatMap((t) => t.recipients),
         text: triggerText,
@@ -345,35 +768,146 @@ const App = () => {
         speaker: lastTrigger.speaker,
       },
       topicRef.current,
+      { phase: phaseRef.current, recalled },
     );
 
+    // Route to the philosopher's own A2A agent when it is running (or to the
+    // external agent it was invited from); otherwise fall back to the shared
+    // /api/stream proxy
+    const agent = agentStatusesRef.current[philosopher.id];
+    const remoteAgent = philosopher.remoteAgent;
+    const agentUrl =
+      remoteAgent?.url ?? (agent?.status === 'running' ? agentUrlForPort(agent.port) : null);
+    const routeLabel = remoteAgent
+      ? ` (remote a2a ${new URL(remoteAgent.url).host})`
+      : agentUrl
+        ? ` (a2a :${agent?.port})`
+        : '';
+
     appendEventFeed(
-      `${formatTime(new Date().toISOString())} · routing → ${philosopher.name}`,
+      `${formatTime(new Date().toISOString())} · routing → ${philosopher.name}${routeLabel}`,
     );
 
-    // NEW: Search for relevant philosophical quote
+    // Search the bundled classical corpus for a passage on the topic, preferring
+    // the philosopher's own works
     let quoteData: QuoteData | undefined;
     try {
       appendEventFeed(`${formatTime(new Date().toISOString())} · searching quotes...`);
-      // Note: In a real implementation, this would call a backend endpoint
-      // that uses the MCP Exa tool with a search query like:
-      // `${philosopher.name} ${topicRef.current} classical Chinese philosophy quote`
-      // For now, we'll skip the actual search and include a placeholder in the prompt.
-      quoteData = undefined; // Placeholder for actual Exa integration
+      const [passage] = await searchQuotes({
+        philosopher: philosopher.id,
+        query: `${topicRef.current} ${triggerText}`,
+        limit: 1,
+      });
+      if (passage) {
+        quoteData = {
+          chinese: passage.chinese,
+          english: passage.english,
+          source: passage.source,
+          passageId: passage.id,
+          retrieved: true,
+        };
+      }
     } catch (error) {
       console.warn('Quote search failed:', error);
       // Continue without quote
     }
 
+    const turnPhase = phaseRef.current;
+    const draftId = `reply-${firstTask.philosopherId}-${Date.now()}`;
+    const draftMessage: MessageEvent = {
+      id: draftId,
+      type: 'message',
+      speaker: philosopher.id,
+      recipients: ['moderator'],
+      phase: turnPhase,
+      timestamp: new Date().toISOString(),
+      surface: '',
+      translations: { english: '' },
+      draft: true,
+    };
+    setMessages((prev) => [...prev, draftMessage]);
+
+    const controller = new AbortController();
+    activeTurnsRef.current.set(philosopher.id, { controller, tasks });
+    let attempts = 1;
+
     try {
-      // Enhance prompt with request for Chinese quote
-      const enhancedPrompt = `${context.promptText}\n\nIMPORTANT: Please include a relevant quote from ${philosopher.name}'s teachings in your response. Provide the quote in classical Chinese, followed by English translation, and cite the source.`;
+      // The output contract always asks for a quote; a retrieved passage is
+      // offered as grounding the philosopher may quote
+      const quoteRequest = `IMPORTANT: Please include a relevant quote from ${philosopher.name}'s teachings in the "quote" field: the classical Chinese, an English translation, and the source.`;
+      const enhancedPrompt = quoteData
+        ? `${context.promptText}\n\nGround your response in this passage (${quoteData.source}):\n${quoteData.chinese}\n${quoteData.english}\n\n${quoteRequest} Quote this passage if it is the one you draw on.`
+        : `${context.promptText}\n\n${quoteRequest}`;
+
+      // Stream tokens into the draft so long turns render progressively
+      const streamHandlers = {
+        signal: controller.signal,
+        onToken: (_token: string, aggregate: string) => {
+          const partial = extractPartialFinal(aggregate);
+          setMessages((prev) =>
+            prev.map((message) =>
+              message.id === draftId && message.surface !== partial
+                ? { ...message, surface: partial }
+                : message,
+            ),
+          );
+        },
+      };
+      // Transient failures retry with backoff; the draft restarts empty each time
+      const response = await withRetries(
+        (attempt) => {
+          attempts = attempt;
+          const agentTask = {
+            taskId: attempt === 1 ? draftId : `${draftId}-retry-${attempt}`,
+            text: enhancedPrompt,
+          };
+          return agentUrl
+            ? remoteAgent && !remoteAgent.streaming
+              ? sendTaskToAgent(agentUrl, agentTask, streamHandlers)
+              : streamTaskFromAgent(agentUrl, agentTask, streamHandlers)
+            : streamMessageFromBackend(
+                {
+                  messages: [{ role: 'user', content: enhancedPrompt }],
+                  options: normalizeLLMChoice(philosopher.llm),
+                },
+                streamHandlers,
+              );
+        },
+        {
+          signal: controller.signal,
+          onRetry: (error, attempt, delayMs) => {
+            setMessages((prev) =>
+              prev.map((message) =>
+                message.id === draftId ? { ...message, surface: '' } : message,
+              ),
+            );
+            appendEventFeed(
+              `${formatTime(new Date().toISOString())} · ${philosopher.name} retry ${attempt}/${DEFAULT_RETRY_POLICY.maxAttempts - 1} in ${Math.round(delayMs / 1000)}s (${errorReason(error)})`,
+            );
+          },
+        },
+      );
 
-      const response = await sendMessageToBackend({
-        messages: [{ role: 'user', content: enhancedPrompt }],
-      });
+      const { finalText, reasoning, addressees, quote, whisper } = parseModelResponse(
+        response.content,
+      );
 
-      const { finalText, reasoning, addressees } = parseModelResponse(response.content);
+      // The quote the model cites is the one shown, so it is checked against the
+      // corpus; without one the retrieved passage is shown, labelled as retrieved
+      let replyQuote = quoteData;
+      if (quote) {
+        try {
+          const verification = await verifyQuote(quote, { signal: controller.signal });
+          replyQuote = { ...quote, passageId: verification.match?.id, verification };
+          appendEventFeed(
+            `${formatTime(new Date().toISOString())} · quote ${verification.status} (${Math.round(verification.score * 100)}%)`,
+          );
+        } catch (error) {
+          if (controller.signal.aborted) throw error;
+          console.warn('Quote verification failed:', error);
+          replyQuote = quote;
+        }
+      }
 
       // Determine recipients: use addressees from response if provided, otherwise fall back to speakers + moderator
       let replyRecipients: string[];
@@ -388,30 +922,20 @@ const App = () => {
 
       const replyTimestamp = new Date().toISOString();
       const replyMessage: MessageEvent = {
-        id: `reply-${firstTask.philosopherId}-${Date.now()}`,
+        id: draftId,
         type: 'message',
         speaker: philosopher.id,
         recipients: replyRecipients,
-        phase: currentPhase,
+        phase: turnPhase,
         timestamp: replyTimestamp,
         surface: finalText,
         insight: reasoning,
-        quote: quoteData,
+        quote: replyQuote,
         translations: { english: finalText },
+        visibility: resolveVisibility(visibilityPolicyRef.current, whisper),
       };
 
-      setMessages((prev) => [...prev, replyMessage]);
-      appendEventFeed(
-        `${formatTime(replyTimestamp)} · ${philosopher.name} → ${replyRecipients.join(', ')}`,
-      );
-
-      setMemories((prev) => {
-        const next = pushMemoryEntry(prev, replyMessage);
-        memoriesRef.current = next;
-        return next;
-      });
-
-      const historyLines = buildHistoryLines(context, currentPhase);
+      const historyLines = buildHistoryLines(context, turnPhase);
       const contextMessages = historyLines.map((line) => ({
         id: line.id,
         speaker: line.speaker,
@@ -421,12 +945,12 @@ const App = () => {
       }));
 
       const firstUniqueTrigger = uniqueTriggers[0];
-      if (!firstUniqueTrigger) return;
+      if (!firstUniqueTrigger) return null;
 
       const snapshot: InspectorSnapshot = {
         id: `ctx-${firstTask.philosopherId}-${Date.now()}`,
         type: 'context-snapshot',
-        phase: currentPhase,
+        phase: turnPhase,
         timestamp: replyTimestamp,
         contextId: `session-${firstTask.philosopherId}`,
         round: messages.length + 1,
@@ -438,6 +962,15 @@ const App = () => {
           rendered: context.promptText,
         },
         contextMessages,
+        memorySummary: context.memorySummary
+          ? {
+              id: context.memorySummary.id,
+              createdAt: context.memorySummary.createdAt,
+              totalEntries: context.memorySummary.totalEntries,
+              from: context.memorySummary.from,
+              to: context.memorySummary.to,
+            }
+          : undefined,
         callPayload: {
           recipient: firstTask.philosopherId,
           history: context.renderedHistory,
@@ -446,21 +979,222 @@ const App = () => {
           triggerId: firstUniqueTrigger.id,
           final: finalText,
           reasoning: reasoning ?? undefined,
+          budget: context.budget,
+          recalled: context.recalled.map(({ entry, score }) => ({
+            id: entry.id,
+            speaker: entry.speaker,
+            timestamp: entry.timestamp,
+            score,
+          })),
+          answeredBy: answeredByFrom(response.metadata),
         },
       };
 
       setSnapshots((prev) => [...prev, snapshot]);
 
-      enqueueResponsesFromMessage(replyMessage);
+      const guarded = recordReply(
+        guardRef.current,
+        guardSettingsRef.current,
+        { speaker: philosopher.id, text: finalText },
+        { nameOf: philosopherName },
+      );
+      guardRef.current = guarded.state;
+      if (guarded.trip) tripGuard(guarded.trip);
+
+      return replyMessage;
     } catch (error) {
+      setMessages((prev) => prev.filter((message) => message.id !== draftId));
+      if (controller.signal.aborted || isAbortError(error)) {
+        appendEventFeed(
+          `${formatTime(new Date().toISOString())} · moderator → ${philosopher.name} turn cancelled`,
+        );
+        return null;
+      }
       console.error(error);
+      // Keep the triggers so the moderator can retry, skip or reassign the turn
+      const failed: FailedTurn = {
+        id: `failed-${philosopher.id}-${Date.now()}`,
+        philosopherId: philosopher.id,
+        tasks,
+        reason: errorReason(error),
+        attempts,
+        failedAt: new Date().toISOString(),
+      };
+      setFailedTurns((prev) => [...prev, failed]);
+      appendEventFeed(
+        `${formatTime(failed.failedAt)} · backend error (${philosopher.name}) after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${failed.reason}`,
+      );
+      return null;
+    } finally {
+      if (activeTurnsRef.current.get(philosopher.id)?.controller === controller) {
+        activeTurnsRef.current.delete(philosopher.id);
+      }
+    }
+  }
+
+  /**
+   * Commits a finished reply, or in approval mode moves it from the transcript
+   * to the review tray.
+   */
+  function settleReply(reply: MessageEvent, tasks: ResponseTask[]) {
+    if (!approvalModeRef.current) {
+      commitReply(reply);
+      return;
+    }
+    setMessages((prev) => prev.filter((message) => message.id !== reply.id));
+    setPendingDrafts((prev) => [...prev, { message: reply, tasks }]);
+    appendEventFeed(
+      `${formatTime(reply.timestamp)} · ${philosopherName(reply.speaker)} → awaiting moderator approval`,
+    );
+  }
+
+  /**
+   * Adds a finished reply to the transcript and memory and routes it to its
+   * addressees. Runs when a turn ends, or on approval in approval mode.
+   */
+  function commitReply(message: MessageEvent) {
+    setMessages((prev) =>
+      prev.some((entry) => entry.id === message.id)
+        ? prev.map((entry) => (entry.id === message.id ? message : entry))
+        : [...prev, message],
+    );
+    const whisper = visibilityOf(message) === 'whisper';
+    appendEventFeed(
+      `${formatTime(message.timestamp)} · ${philosopherName(message.speaker)} ${whisper ? 'whispers ' : ''}→ ${message.recipients.join(', ')}`,
+    );
+
+    setMemories((prev) => {
+      const next = pushMemoryEntry(prev, message);
+      memoriesRef.current = next;
+      return next;
+    });
+
+    // Translations run beside the queue; the next speaker does not wait for them
+    if (autoTranslateRef.current && message.surface) {
+      TARGET_LANGUAGES.forEach((language) => {
+        void requestTranslation(message, language);
+      });
+    }
+
+    enqueueResponsesFromMessage(message);
+  }
+
+  function philosopherName(id: string) {
+    return philosopherMap.get(id)?.name ?? id;
+  }
+
+  /**
+   * Pauses auto-responses and explains why in the event feed and the transcript.
+   * The notice is a `system` message kept out of memory and the queue.
+   */
+  function tripGuard(trip: GuardTrip) {
+    isPausedRef.current = true;
+    setIsPaused(true);
+    const timestamp = new Date().toISOString();
+    const surface = `Auto-responses paused: ${trip.message} Resume to let the council continue.`;
+    appendEventFeed(
+      `${formatTime(timestamp)} · system → auto-paused (${trip.reason}): ${trip.message}`,
+    );
+    const notice: MessageEvent = {
+      id: `guard-${Date.now()}`,
+      type: 'message',
+      speaker: 'system',
+      recipients: ['moderator'],
+      phase: phaseRef.current,
+      timestamp,
+      surface,
+      translations: { english: surface },
+    };
+    setMessages((prev) => [...prev, notice]);
+  }
+
+  /**
+   * TRANSLATION
+   *
+   * Replies are translated through the backend on demand (language switcher) or
+   * automatically after each turn. Results are kept as TranslationEvents linked to
+   * the message and merged into its `translations` map for display.
+   */
+  async function requestTranslation(message: MessageEvent, language: TargetLanguage) {
+    const key = translationKey(message.id, language);
+    if (pendingTranslationsRef.current.has(key) || message.translations[language]) return;
+
+    pendingTranslationsRef.current.add(key);
+    setPendingTranslations(Array.from(pendingTranslationsRef.current));
+    try {
+      // Translated by the model the speaker answers with
+      const text = await translateText({
+        text: message.surface,
+        language,
+        options: normalizeLLMChoice(philosopherMap.get(message.speaker)?.llm),
+      });
+      setTranslations((prev) =>
+        upsertTranslation(prev, createTranslationEvent(message.id, language, text)),
+      );
+      const speakerName = philosopherMap.get(message.speaker)?.name ?? message.speaker;
+      appendEventFeed(
+        `${formatTime(new Date().toISOString())} · system → translated ${speakerName} (${TRANSLATION_LANGUAGE_LABELS[language]})`,
+      );
+    } catch (error) {
+      console.warn('Translation failed:', error);
+      appendEventFeed(`${formatTime(new Date().toISOString())} · translation failed`, {
+        dedupe: true,
+      });
+    } finally {
+      pendingTranslationsRef.current.delete(key);
+      setPendingTranslations(Array.from(pendingTranslationsRef.current));
+    }
+  }
+
+  /**
+   * MEMORY SUMMARIZATION
+   *
+   * Once a philosopher's history outgrows the memory window, the older entries
+   * are condensed by the model into a rolling summary (included in later prompts
+   * as <MemorySummary>) instead of being dropped.
+   */
+  async function condenseMemory(owner: string) {
+    if (summarizingRef.current.has(owner) || playbackRef.current) return;
+    const entries = entriesToSummarize(memoriesRef.current, owner);
+    if (entries.length === 0) return;
+
+    summarizingRef.current.add(owner);
+    const philosopher = philosopherMap.get(owner);
+    const name = philosopher?.name ?? owner;
+    try {
+      const prompt = buildSummaryPrompt(name, getSummaryFor(memoriesRef.current, owner), entries);
+      const response = await sendMessageToBackend({
+        messages: [{ role: 'user', content: prompt }],
+        options: normalizeLLMChoice(philosopher?.llm),
+      });
+      const text = response.content.trim();
+      if (!text) throw new Error('Empty memory summary');
+      const createdAt = new Date().toISOString();
+      setMemories((prev) => {
+        const next = applyMemorySummary(prev, owner, entries, text, createdAt);
+        memoriesRef.current = next;
+        return next;
+      });
       appendEventFeed(
-        `${formatTime(new Date().toISOString())} · backend error (${philosopher.name})`,
-        { dedupe: true },
+        `${formatTime(createdAt)} · system → condensed ${entries.length} memories for ${name}`,
       );
+    } catch (error) {
+      console.warn('Memory summarization failed:', error);
+      appendEventFeed(`${formatTime(new Date().toISOString())} · memory summary failed (${name})`, {
+        dedupe: true,
+      });
+    } finally {
+      summarizingRef.current.delete(owner);
     }
   }
 
+  const handleTranslateMessage = (messageId: string, language: TargetLanguage) => {
+    const message = displayedMessages.find((entry) => entry.id === messageId);
+    if (message && !message.draft && !isReplaying) {
+      void requestTranslation(message, language);
+    }
+  };
+
   useEffect(() => {
     updateQueueDepths();
   }, [updateQueueDepths]);
@@ -471,8 +1205,40 @@ const App = () => {
       .catch(() => setBackendHealthy(false));
   }, []);
 
+  // Start (or re-port) one A2A agent server per built-in philosopher on the backend
+  useEffect(() => {
+    let cancelled = false;
+    registerAgents(philosophers.filter((philosopher) => !philosopher.remoteAgent))
+      .then((agents) => {
+        if (cancelled) return;
+        const next = Object.fromEntries(agents.map((agent) => [agent.id, agent]));
+        agentStatusesRef.current = next;
+        setAgentStatuses(next);
+        agents
+          .filter((agent) => agent.status === 'failed')
+          .forEach((agent) =>
+            appendEventFeed(
+              `${formatTime(new Date().toISOString())} · agent :${agent.port} failed to start (${agent.error})`,
+              { dedupe: true },
+            ),
+          );
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.warn('Agent registration failed; using the shared proxy', error);
+        agentStatusesRef.current = {};
+        setAgentStatuses({});
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [philosophers]);
+
   useEffect(() => {
     memoriesRef.current = memories;
+    philosopherIds.forEach((id) => {
+      void condenseMemory(id);
+    });
   }, [memories]);
 
   useEffect(() => {
@@ -486,18 +1252,170 @@ const App = () => {
     topicRef.current = topic;
   }, [topic]);
 
+  useEffect(() => {
+    autoTranslateRef.current = autoTranslate;
+  }, [autoTranslate]);
+
+  useEffect(() => {
+    approvalModeRef.current = approvalMode;
+  }, [approvalMode]);
+
+  useEffect(() => {
+    broadcastSettingsRef.current = broadcastSettings;
+  }, [broadcastSettings]);
+
+  useEffect(() => {
+    visibilityPolicyRef.current = visibilityPolicy;
+  }, [visibilityPolicy]);
+
+  useEffect(() => {
+    guardSettingsRef.current = guardSettings;
+  }, [guardSettings]);
+
+  const changePhase = useCallback(
+    (next: Phase, source: 'moderator' | 'auto') => {
+      const change = createPhaseChange(next);
+      phaseRef.current = next;
+      setCurrentPhase(next);
+      setPhaseChanges((prev) => [...prev, change]);
+      appendEventFeed(
+        `${formatTime(change.timestamp)} · ${source === 'auto' ? 'system' : 'moderator'} → phase: ${PHASE_LABELS[next]}`,
+      );
+    },
+    [appendEventFeed],
+  );
+
+  const handleAdvancePhase = () => {
+    const next = getNextPhase(phaseRef.current);
+    if (next) changePhase(next, 'moderator');
+  };
+
+  const handleRollbackPhase = () => {
+    const previous = getPreviousPhase(phaseRef.current);
+    if (previous) changePhase(previous, 'moderator');
+  };
+
+  // Auto-advance once every active philosopher has spoken in the current phase
+  useEffect(() => {
+    if (!autoAdvancePhase) return;
+    const next = getNextPhase(currentPhase);
+    if (!next) return;
+    const phaseStartedAt = phaseChanges[phaseChanges.length - 1]?.timestamp ?? sessionDate;
+    if (haveAllSpokenInPhase(messages, currentPhase, activeIds, phaseStartedAt)) {
+      changePhase(next, 'auto');
+    }
+  }, [
+    autoAdvancePhase,
+    currentPhase,
+    phaseChanges,
+    messages,
+    activeIds,
+    sessionDate,
+    changePhase,
+  ]);
+
   const roster = useMemo(
     () => philosophers.filter((philosopher) => activeIds.includes(philosopher.id)),
     [philosophers, activeIds],
   );
 
+  /**
+   * PLAYBACK
+   *
+   * While a transcript is replaying, the views render the revealed slice of the
+   * imported events instead of the live session. Live state is left untouched and
+   * the queue is held, so no backend calls happen until the replay is closed.
+   */
+  const isReplaying = playback !== null;
+  const replay = useMemo(
+    () => (playback ? revealEvents(playback.events, playback.cursor) : null),
+    [playback],
+  );
+  const replayRoster = useMemo(() => {
+    if (!playback) return roster;
+    const speakers = new Set(
+      playback.events.flatMap((event) => (event.type === 'message' ? [event.speaker] : [])),
+    );
+    return philosophers.filter((philosopher) => speakers.has(philosopher.id));
+  }, [playback, philosophers, roster]);
+
+  const displayedMessages = useMemo(
+    () => applyTranslations(replay?.messages ?? messages, replay?.translations ?? translations),
+    [replay, messages, translations],
+  );
+  const displayedTranslations = replay?.translations ?? translations;
+  const displayedSnapshots = replay?.snapshots ?? snapshots;
+  const displayedPhaseChanges = replay?.phaseChanges ?? phaseChanges;
+  const displayedPhase = replay?.phase ?? currentPhase;
+
+  useEffect(() => {
+    playbackRef.current = playback;
+  }, [playback]);
+
+  useEffect(() => {
+    if (!playback?.playing) return;
+    if (playback.cursor >= playback.events.length) {
+      setPlayback((prev) => (prev ? { ...prev, playing: false } : prev));
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      setPlayback((prev) => (prev ? { ...prev, cursor: prev.cursor + 1 } : prev));
+    }, playbackDelay(playback.events, playback.cursor, playback.speed));
+    return () => window.clearTimeout(timer);
+  }, [playback]);
+
+  const startPlayback = (label: string, events: readonly ConversationEvent[]) => {
+    if (events.length === 0) {
+      appendEventFeed(`${formatTime(new Date().toISOString())} · replay skipped: no events`);
+      return;
+    }
+    playbackRef.current = createPlayback(label, events);
+    setPlayback(playbackRef.current);
+    setActiveSnapshotId(null);
+    appendEventFeed(
+      `${formatTime(new Date().toISOString())} · system → replaying ${label} (${events.length} events)`,
+    );
+  };
+
+  const handleImportTranscript = (file: File) => {
+    file
+      .text()
+      .then((text) => startPlayback(file.name, parseTranscriptJsonl(text)))
+      .catch((error: unknown) => {
+        const reason = error instanceof Error ? error.message : String(error);
+        appendEventFeed(`${formatTime(new Date().toISOString())} · import failed: ${reason}`);
+      });
+  };
+
+  const handleLoadDemoTranscript = () => startPlayback('demo dialogue', mockEventSequence);
+
+  const handleSeekPlayback = (cursor: number) => {
+    setPlayback((prev) =>
+      prev
+        ? {
+            ...prev,
+            cursor: Math.max(0, Math.min(prev.events.length, cursor)),
+            playing: prev.playing || prev.cursor >= prev.events.length,
+          }
+        : prev,
+    );
+  };
+
+  const handleExitPlayback = () => {
+    playbackRef.current = null;
+    setPlayback(null);
+    setActiveSnapshotId(null);
+    appendEventFeed(`${formatTime(new Date().toISOString())} · system → replay closed`);
+    drainQueues();
+  };
+
   const toggleActive = (id: string) => {
     setActiveIds((prev) =>
       prev.includes(id) ? prev.filter((entry) => entry !== id) : [...prev, id],
     );
   };
 
-  const handlePrompt = ({ prompt, recipients }: ComposerSubmission) => {
+  const handlePrompt = ({ prompt, recipients, whisper }: ComposerSubmission) => {
     const trimmed = prompt.trim();
     if (!trimmed || recipients.length === 0) return;
 
@@ -511,17 +1429,24 @@ const App = () => {
       timestamp,
       surface: trimmed,
       translations: { english: trimmed },
+      visibility: resolveVisibility(visibilityPolicy, whisper),
     };
 
     setMessages((prev) => [...prev, userMessage]);
-    appendEventFeed(`${formatTime(timestamp)} · moderator → ${recipients.join(', ')}`);
+    appendEventFeed(
+      `${formatTime(timestamp)} · moderator ${whisper ? 'whispers ' : ''}→ ${recipients.join(', ')}`,
+    );
 
     setMemories((prev) => {
       const next = pushMemoryEntry(prev, userMessage);
       memoriesRef.current = next;
       return next;
     });
+    guardRef.current = resetForPrompt(guardRef.current);
 
+    if (broadcastSettingsRef.current.parallel && isBroadcast(userMessage, activeIds)) {
+      broadcastsRef.current = [...broadcastsRef.current, userMessage.id];
+    }
     enqueueResponsesFromMessage(userMessage);
   };
 
@@ -550,9 +1475,419 @@ const App = () => {
     );
   };
 
+  /**
+   * SESSION PERSISTENCE
+   *
+   * The full orchestrator state (transcript, memories, roster, phase and the
+   * pending global queue) is serialized into a SessionState snapshot and stored by
+   * the backend. The active session autosaves after every change and is reopened
+   * on refresh.
+   */
+  const buildSessionState = (): SessionState => ({
+    version: SESSION_STATE_VERSION,
+    topic,
+    sessionDate,
+    philosophers,
+    activeIds,
+    showInsights,
+    phase: phaseRef.current,
+    phaseChanges,
+    autoAdvancePhase,
+    messages: withoutDrafts(messages),
+    snapshots,
+    memories: memoriesRef.current,
+    eventFeed,
+    queue: serializeQueue(
+      globalQueueRef.current,
+      Array.from(activeTurnsRef.current, ([philosopherId, { tasks }]) => ({
+        philosopherId,
+        tasks,
+      })),
+    ),
+    processedMessageIds: Array.from(processedMessagesRef.current),
+    isPaused,
+    translations,
+    displayLanguage,
+    autoTranslate,
+    visibilityPolicy,
+    scheduler: schedulerId,
+    guardSettings,
+    approvalMode,
+    pendingDrafts,
+    broadcastSettings,
+    failedTurns,
+  });
+
+  const applySessionState = (state: SessionState) => {
+    activeTurnsRef.current.forEach(({ controller }) => controller.abort());
+
+    globalQueueRef.current = deserializeQueue(state.queue);
+    processedMessagesRef.current = new Set(state.processedMessageIds ?? []);
+    memoriesRef.current = state.memories;
+    phaseRef.current = state.phase;
+    topicRef.current = state.topic;
+    isPausedRef.current = state.isPaused;
+    autoTranslateRef.current = state.autoTranslate ?? false;
+    visibilityPolicyRef.current = state.visibilityPolicy ?? DEFAULT_VISIBILITY_POLICY;
+    schedulerIdRef.current = state.scheduler ?? DEFAULT_SCHEDULER;
+    lastSpeakerRef.current = null;
+    pickedSpeakerRef.current = null;
+    pinnedSpeakerRef.current = null;
+    broadcastsRef.current = [];
+    broadcastSettingsRef.current = state.broadcastSettings ?? DEFAULT_BROADCAST_SETTINGS;
+    guardRef.current = createGuardState();
+    guardSettingsRef.current = state.guardSettings ?? DEFAULT_GUARD_SETTINGS;
+    approvalModeRef.current = state.approvalMode ?? false;
+
+    setPhilosophers(state.philosophers);
+    setActiveIds(state.activeIds);
+    setTopic(state.topic);
+    setSessionDate(state.sessionDate);
+    setShowInsights(state.showInsights);
+    setCurrentPhase(state.phase);
+    setPhaseChanges(state.phaseChanges ?? []);
+    setAutoAdvancePhase(state.autoAdvancePhase ?? false);
+    setMessages(state.messages);
+    setSnapshots(state.snapshots);
+    setActiveSnapshotId(null);
+    setMemories(state.memories);
+    setEventFeed(state.eventFeed ?? []);
+    setIsPaused(state.isPaused);
+    setTranslations(state.translations ?? []);
+    setDisplayLanguage(state.displayLanguage ?? 'english');
+    setAutoTranslate(state.autoTranslate ?? false);
+    setVisibilityPolicy(state.visibilityPolicy ?? DEFAULT_VISIBILITY_POLICY);
+    setSchedulerId(state.scheduler ?? DEFAULT_SCHEDULER);
+    setBids({});
+    setPinnedSpeaker(null);
+    setGuardSettings(state.guardSettings ?? DEFAULT_GUARD_SETTINGS);
+    setApprovalMode(state.approvalMode ?? false);
+    setPendingDrafts(state.pendingDrafts ?? []);
+    setBroadcastSettings(state.broadcastSettings ?? DEFAULT_BROADCAST_SETTINGS);
+    setFailedTurns(state.failedTurns ?? []);
+    // Resume draining once the restored roster has rendered
+    setResumeToken((prev) => prev + 1);
+  };
+
+  const refreshSessions = useCallback(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((error) => console.warn('Failed to list sessions', error));
+  }, []);
+
+  const openSession = useCallback(
+    async (id: string) => {
+      try {
+        const record = await loadSession(id);
+        if (!isSessionState(record.state)) {
+          throw new Error(`Session ${id} has an unsupported format`);
+        }
+        applySessionState(record.state);
+        setActiveSessionId(record.id);
+        window.localStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, record.id);
+        appendEventFeed(
+          `${formatTime(new Date().toISOString())} · system → session "${record.title}" loaded`,
+        );
+      } catch (error) {
+        console.error(error);
+        window.localStorage.removeItem(ACTIVE_SESSION_STORAGE_KEY);
+        appendEventFeed(`${formatTime(new Date().toISOString())} · session load failed`, {
+          dedupe: true,
+        });
+      }
+    },
+    [appendEventFeed],
+  );
+
+  const handleCreateSession = async (title: string) => {
+    try {
+      const record = await createSession(title, buildSessionState());
+      setActiveSessionId(record.id);
+      window.localStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, record.id);
+      appendEventFeed(
+        `${formatTime(new Date().toISOString())} · system → session "${record.title}" saved`,
+      );
+      refreshSessions();
+    } catch (error) {
+      console.error(error);
+      appendEventFeed(`${formatTime(new Date().toISOString())} · session save failed`, {
+        dedupe: true,
+      });
+    }
+  };
+
+  const handleRenameSession = async (id: string, title: string) => {
+    try {
+      await renameSession(id, title);
+      refreshSessions();
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+      if (id === activeSessionId) {
+        setActiveSessionId(null);
+        window.localStorage.removeItem(ACTIVE_SESSION_STORAGE_KEY);
+      }
+      refreshSessions();
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleDetachSession = () => {
+    setActiveSessionId(null);
+    window.localStorage.removeItem(ACTIVE_SESSION_STORAGE_KEY);
+  };
+
+  // Reopen the last active session after a refresh
+  useEffect(() => {
+    refreshSessions();
+    const storedId = window.localStorage.getItem(ACTIVE_SESSION_STORAGE_KEY);
+    if (storedId) {
+      void openSession(storedId);
+    }
+  }, [refreshSessions, openSession]);
+
+  useEffect(() => {
+    if (resumeToken > 0) {
+      updateQueueDepths();
+      drainQueues();
+    }
+  }, [resumeToken]);
+
+  // Autosave the active session (debounced)
+  useEffect(() => {
+    if (!activeSessionId || isReplaying) return;
+    const timer = window.setTimeout(() => {
+      saveSession(activeSessionId, buildSessionState()).catch((error) => {
+        console.warn('Session autosave failed', error);
+      });
+    }, SESSION_AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [
+    activeSessionId,
+    isReplaying,
+    topic,
+    philosophers,
+    activeIds,
+    showInsights,
+    currentPhase,
+    phaseChanges,
+    autoAdvancePhase,
+    messages,
+    snapshots,
+    memories,
+    eventFeed,
+    queueOrder,
+    queueDepths,
+    isPaused,
+    translations,
+    displayLanguage,
+    autoTranslate,
+    visibilityPolicy,
+    schedulerId,
+    guardSettings,
+    approvalMode,
+    pendingDrafts,
+    broadcastSettings,
+    failedTurns,
+  ]);
+
+  const handleExport = (format: ExportFormat, { includeInsights }: { includeInsights: boolean }) => {
+    const content = exportTranscript(format, {
+      topic,
+      date: formatDate(sessionDate),
+      participants: philosophers.filter(
+        (philosopher) =>
+          (!isReplaying && activeIds.includes(philosopher.id)) ||
+          displayedMessages.some((message) => message.speaker === philosopher.id),
+      ),
+      messages: displayedMessages,
+      phaseChanges: displayedPhaseChanges,
+      snapshots: displayedSnapshots,
+      translations: displayedTranslations,
+      includeInsights,
+    });
+    downloadText(content, exportFilename(format, topic, sessionDate), EXPORT_MIME_TYPES[format]);
+    appendEventFeed(`${formatTime(new Date().toISOString())} · system → exported ${format}`);
+  };
+
+  const handleSchedulerChange = (id: SchedulerId) => {
+    schedulerIdRef.current = id;
+    pickedSpeakerRef.current = null;
+    setSchedulerId(id);
+    setBids({});
+    // Re-order whoever is already waiting under the new policy
+    globalQueueRef.current.queue = SCHEDULERS[id].enqueue(
+      globalQueueRef.current.queue,
+      [],
+      schedulerContext(),
+    );
+    updateQueueDepths();
+    appendEventFeed(
+      `${formatTime(new Date().toISOString())} · system → scheduler ${SCHEDULERS[id].label}`,
+    );
+    drainQueues();
+  };
+
+  const handlePickNextSpeaker = (philosopherId: string) => {
+    pickedSpeakerRef.current = philosopherId;
+    appendEventFeed(
+      `${formatTime(new Date().toISOString())} · moderator → ${philosopherMap.get(philosopherId)?.name ?? philosopherId} speaks next`,
+    );
+    drainQueues();
+  };
+
+  const handleApproveDraft = (draftId: string, edits: DraftEdits) => {
+    const draft = pendingDrafts.find((entry) => entry.message.id === draftId);
+    if (!draft) return;
+    setPendingDrafts((prev) => prev.filter((entry) => entry.message.id !== draftId));
+    const message = approveDraft(draft, edits, new Date().toISOString());
+    appendEventFeed(
+      `${formatTime(message.timestamp)} · moderator → approved ${philosopherName(message.speaker)}${isDraftEdited(draft, edits) ? ' (edited)' : ''}`,
+    );
+    commitReply(message);
+  };
+
+  const handleRejectDraft = (draftId: string) => {
+    const draft = pendingDrafts.find((entry) => entry.message.id === draftId);
+    if (!draft) return;
+    setPendingDrafts((prev) => prev.filter((entry) => entry.message.id !== draftId));
+    appendEventFeed(
+      `${formatTime(new Date().toISOString())} · moderator → rejected ${philosopherName(draft.message.speaker)}`,
+    );
+  };
+
+  const handleRegenerateDraft = (draftId: string) => {
+    const draft = pendingDrafts.find((entry) => entry.message.id === draftId);
+    if (!draft) return;
+    setPendingDrafts((prev) => prev.filter((entry) => entry.message.id !== draftId));
+    const speaker = draft.message.speaker;
+    requeueTasks(speaker, draft.tasks);
+    appendEventFeed(
+      `${formatTime(new Date().toISOString())} · moderator → regenerate ${philosopherName(speaker)}`,
+    );
+    drainQueues();
+  };
+
+  /**
+   * FAILED TURNS
+   *
+   * Recovery for turns that failed after their automatic retries: run the same
+   * triggers again, hand them to another philosopher, or drop them explicitly.
+   */
+  const takeFailedTurn = (failedId: string) => {
+    const failed = failedTurns.find((entry) => entry.id === failedId);
+    if (failed) setFailedTurns((prev) => prev.filter((entry) => entry.id !== failedId));
+    return failed;
+  };
+
+  const handleRetryTurn = (failedId: string) => {
+    const failed = takeFailedTurn(failedId);
+    if (!failed) return;
+    requeueTasks(failed.philosopherId, failed.tasks);
+    appendEventFeed(
+      `${formatTime(new Date().toISOString())} · moderator → retry ${philosopherName(failed.philosopherId)}`,
+    );
+    drainQueues();
+  };
+
+  const handleSkipTurn = (failedId: string) => {
+    const failed = takeFailedTurn(failedId);
+    if (!failed) return;
+    appendEventFeed(
+      `${formatTime(new Date().toISOString())} · moderator → skipped ${philosopherName(failed.philosopherId)} (${failed.tasks.length} trigger${failed.tasks.length === 1 ? '' : 's'} dropped)`,
+    );
+  };
+
+  const handleReassignTurn = (failedId: string, philosopherId: string) => {
+    const failed = takeFailedTurn(failedId);
+    if (!failed) return;
+    requeueTasks(philosopherId, reassignTasks(failed.tasks, philosopherId));
+    appendEventFeed(
+      `${formatTime(new Date().toISOString())} · moderator → reassigned ${philosopherName(failed.philosopherId)}'s turn to ${philosopherName(philosopherId)}`,
+    );
+    drainQueues();
+  };
+
+  /**
+   * QUEUE PANEL
+   *
+   * Moderator edits to the global queue. Each swaps in a new `QueueState`
+   * (`lib/queue.ts`); the speaker holding the lock already owns its tasks, so
+   * edits only affect turns that have not started.
+   */
+  const logQueueEdit = (action: string) => {
+    appendEventFeed(`${formatTime(new Date().toISOString())} · moderator → ${action}`);
+  };
+
+  const handleReorderQueue = (philosopherId: string, index: number) => {
+    globalQueueRef.current = moveInQueue(globalQueueRef.current, philosopherId, index);
+    updateQueueDepths();
+    logQueueEdit(`moved ${philosopherName(philosopherId)} to position ${index + 1}`);
+    drainQueues();
+  };
+
+  const handleRemoveFromQueue = (philosopherId: string) => {
+    const { state, removed } = removeFromQueue(globalQueueRef.current, philosopherId);
+    globalQueueRef.current = state;
+    if (pickedSpeakerRef.current === philosopherId) pickedSpeakerRef.current = null;
+    if (pinnedSpeakerRef.current === philosopherId) {
+      pinnedSpeakerRef.current = null;
+      setPinnedSpeaker(null);
+    }
+    setBids((prev) => {
+      if (!(philosopherId in prev)) return prev;
+      const next = { ...prev };
+      delete next[philosopherId];
+      return next;
+    });
+    updateQueueDepths();
+    logQueueEdit(
+      `removed ${philosopherName(philosopherId)} (${removed.length} pending task${removed.length === 1 ? '' : 's'})`,
+    );
+  };
+
+  const handleSplitTask = (philosopherId: string, taskId: string) => {
+    globalQueueRef.current = splitTask(globalQueueRef.current, philosopherId, taskId);
+    updateQueueDepths();
+    logQueueEdit(`split a trigger off ${philosopherName(philosopherId)}'s batch`);
+  };
+
+  const handleMergeBatches = (philosopherId: string) => {
+    globalQueueRef.current = mergeBatches(globalQueueRef.current, philosopherId);
+    updateQueueDepths();
+    logQueueEdit(`merged ${philosopherName(philosopherId)}'s batches into one turn`);
+  };
+
+  const handlePinSpeaker = (philosopherId: string | null) => {
+    pinnedSpeakerRef.current = philosopherId;
+    setPinnedSpeaker(philosopherId);
+    if (philosopherId) {
+      globalQueueRef.current = moveInQueue(globalQueueRef.current, philosopherId, 0);
+      updateQueueDepths();
+      logQueueEdit(`pinned ${philosopherName(philosopherId)} to speak next`);
+      drainQueues();
+    } else {
+      logQueueEdit('unpinned the next speaker');
+    }
+  };
+
+  const handleStopSpeaker = () => {
+    activeTurnsRef.current.forEach(({ controller }) => {
+      if (!controller.signal.aborted) controller.abort();
+    });
+  };
+
   const handleTogglePause = () => {
     setIsPaused((prev) => {
       const next = !prev;
+      // Resuming is the moderator's go-ahead: start a fresh turn budget
+      if (!next) guardRef.current = resetAfterResume(guardRef.current);
       const label = next ? 'auto-responses paused' : 'auto-responses resumed';
       appendEventFeed(`${formatTime(new Date().toISOString())} · system → ${label}`, {
         dedupe: true,
@@ -561,6 +1896,11 @@ const App = () => {
     });
   };
 
+  const currentSpeakerName =
+    currentSpeakers.length > 0
+      ? currentSpeakers.map((id) => philosopherMap.get(id)?.name ?? id).join(', ')
+      : null;
+
   return (
     <div className="app-shell">
       <HeaderBand
@@ -569,6 +1909,8 @@ const App = () => {
         backendHealthy={backendHealthy}
         isPaused={isPaused}
         onTogglePause={handleTogglePause}
+        currentSpeakerName={currentSpeakerName}
+        onStopSpeaker={handleStopSpeaker}
       />
 
       <div
@@ -585,32 +1927,97 @@ const App = () => {
           eventFeed={eventFeed}
           queueDepths={queueDepths}
           queueOrder={queueOrder}
+          pendingTasks={pendingTasks}
+          pinnedSpeaker={pinnedSpeaker}
+          onReorderQueue={handleReorderQueue}
+          onRemoveFromQueue={handleRemoveFromQueue}
+          onSplitTask={handleSplitTask}
+          onMergeBatches={handleMergeBatches}
+          onPinSpeaker={handlePinSpeaker}
+          phase={currentPhase}
+          onAdvancePhase={handleAdvancePhase}
+          onRollbackPhase={handleRollbackPhase}
+          autoAdvancePhase={autoAdvancePhase}
+          onToggleAutoAdvancePhase={setAutoAdvancePhase}
           onAddPhilosopher={handleAddPhilosopher}
           onUpdatePhilosopher={handleUpdatePhilosopher}
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          onCreateSession={handleCreateSession}
+          onLoadSession={(id) => void openSession(id)}
+          onRenameSession={handleRenameSession}
+          onDeleteSession={handleDeleteSession}
+          onDetachSession={handleDetachSession}
+          onRefreshSessions={refreshSessions}
+          agentStatuses={agentStatuses}
+          displayLanguage={displayLanguage}
+          onDisplayLanguageChange={setDisplayLanguage}
+          autoTranslate={autoTranslate}
+          onToggleAutoTranslate={setAutoTranslate}
+          visibilityPolicy={visibilityPolicy}
+          onVisibilityPolicyChange={setVisibilityPolicy}
+          schedulerId={schedulerId}
+          onSchedulerChange={handleSchedulerChange}
+          bids={bids}
+          onPickNextSpeaker={schedulerId === 'moderator-picks' ? handlePickNextSpeaker : undefined}
+          guardSettings={guardSettings}
+          onGuardSettingsChange={setGuardSettings}
+          approvalMode={approvalMode}
+          onToggleApprovalMode={setApprovalMode}
+          broadcastSettings={broadcastSettings}
+          onBroadcastSettingsChange={setBroadcastSettings}
         />
 
         <section className={`dialogue-board ${inspectorOpen ? 'inspector-visible' : ''}`}>
           <DialogueStream
             topic={topic}
             date={formatDate(sessionDate)}
-            messages={messages}
-            roster={roster}
+            messages={displayedMessages}
+            phase={displayedPhase}
+            phaseChanges={displayedPhaseChanges}
+            roster={replayRoster}
             participants={philosophers}
             showInsights={showInsights}
-            currentSpeaker={currentSpeaker}
+            currentSpeakers={currentSpeakers}
+            onStopSpeaker={handleStopSpeaker}
             perspectiveMode={perspectiveMode}
             selectedPhilosopherId={selectedPhilosopherId}
             onPerspectiveModeChange={setPerspectiveMode}
             onPhilosopherSelect={setSelectedPhilosopherId}
             onSendPrompt={handlePrompt}
+            onExport={handleExport}
+            displayLanguage={displayLanguage}
+            pendingTranslations={pendingTranslations}
+            onTranslateMessage={isReplaying ? undefined : handleTranslateMessage}
+            playback={playback}
+            onImportTranscript={handleImportTranscript}
+            onLoadDemoTranscript={handleLoadDemoTranscript}
+            onTogglePlayback={() =>
+              setPlayback((prev) => (prev ? { ...prev, playing: !prev.playing } : prev))
+            }
+            onSeekPlayback={handleSeekPlayback}
+            onPlaybackSpeedChange={(speed) =>
+              setPlayback((prev) => (prev ? { ...prev, speed } : prev))
+            }
+            onExitPlayback={handleExitPlayback}
+            pendingDrafts={isReplaying ? [] : pendingDrafts}
+            onApproveDraft={handleApproveDraft}
+            onRejectDraft={handleRejectDraft}
+            onRegenerateDraft={handleRegenerateDraft}
+            failedTurns={isReplaying ? [] : failedTurns}
+            onRetryTurn={handleRetryTurn}
+            onSkipTurn={handleSkipTurn}
+            onReassignTurn={handleReassignTurn}
           />
 
           <InspectorDrawer
             open={inspectorOpen}
-            snapshots={snapshots}
+            snapshots={displayedSnapshots}
             activeSnapshotId={activeSnapshotId}
             onSelectSnapshot={setActiveSnapshotId}
-            messages={messages}
+            messages={displayedMessages}
+            memorySummaries={isReplaying ? {} : (memories.summaries ?? {})}
+            participantIds={philosopherIds}
             onClose={() => setInspectorOpen(false)}
           />
         </section>
@@ -619,7 +2026,7 @@ const App = () => {
           <PhilosopherViewSidebar
             philosopherId={selectedPhilosopherId}
             philosopher={philosophers.find((p) => p.id === selectedPhilosopherId)!}
-            messages={messages}
+            messages={displayedMessages}
             participants={philosophers}
             showInsights={showInsights}
             onClose={() => setPerspectiveMode('moderator')}
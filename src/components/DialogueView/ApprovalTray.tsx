@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import type { PendingDraft, Philosopher } from '../../types';
+import { draftAddressees, isDraftEdited, type DraftEdits } from '../../lib/approval';
+import { formatTime } from '../../lib/time';
+import styles from './ApprovalTray.module.css';
+
+interface ApprovalTrayProps {
+  drafts: PendingDraft[];
+  participants: Philosopher[];
+  onApprove: (draftId: string, edits: DraftEdits) => void;
+  onReject: (draftId: string) => void;
+  onRegenerate: (draftId: string) => void;
+}
+
+/**
+ * Review tray for approval mode: each finished reply can be edited, re-routed,
+ * approved, rejected or sent back for regeneration.
+ */
+export const ApprovalTray = ({
+  drafts,
+  participants,
+  onApprove,
+  onReject,
+  onRegenerate,
+}: ApprovalTrayProps) => {
+  if (drafts.length === 0) return null;
+
+  return (
+    <section className={styles.tray} aria-label="Drafts awaiting approval">
+      <strong>
+        Awaiting approval · {drafts.length} {drafts.length === 1 ? 'draft' : 'drafts'}
+      </strong>
+      <ol>
+        {drafts.map((draft) => (
+          <DraftReview
+            key={draft.message.id}
+            draft={draft}
+            participants={participants}
+            onApprove={(edits) => onApprove(draft.message.id, edits)}
+            onReject={() => onReject(draft.message.id)}
+            onRegenerate={() => onRegenerate(draft.message.id)}
+          />
+        ))}
+      </ol>
+    </section>
+  );
+};
+
+interface DraftReviewProps {
+  draft: PendingDraft;
+  participants: Philosopher[];
+  onApprove: (edits: DraftEdits) => void;
+  onReject: () => void;
+  onRegenerate: () => void;
+}
+
+const DraftReview = ({
+  draft,
+  participants,
+  onApprove,
+  onReject,
+  onRegenerate,
+}: DraftReviewProps) => {
+  const [surface, setSurface] = useState(draft.message.surface);
+  const [addressees, setAddressees] = useState(() => draftAddressees(draft));
+
+  const speaker = participants.find(
+    (philosopher) => philosopher.id === draft.message.speaker,
+  );
+  const candidates = participants.filter(
+    (philosopher) => philosopher.id !== draft.message.speaker,
+  );
+  const edits = { surface, addressees };
+  const edited = isDraftEdited(draft, edits);
+
+  const toggleAddressee = (id: string) => {
+    setAddressees((prev) =>
+      prev.includes(id) ? prev.filter((entry) => entry !== id) : [...prev, id],
+    );
+  };
+
+  return (
+    <li className={styles.draft}>
+      <div className={styles.meta}>
+        <span>
+          {speaker?.name || draft.message.speaker} · {formatTime(draft.message.timestamp)}
+        </span>
+        {edited && <span className={styles.editedBadge}>edited</span>}
+      </div>
+      <textarea
+        value={surface}
+        onChange={(event) => setSurface(event.target.value)}
+        aria-label="Reply text"
+      />
+      <div className={styles.toggleBar} role="group" aria-label="Route reply to">
+        {candidates.map((philosopher) => (
+          <button
+            key={philosopher.id}
+            className={`${styles.pill} ${addressees.includes(philosopher.id) ? styles.active : ''}`}
+            onClick={() => toggleAddressee(philosopher.id)}
+            type="button"
+          >
+            {philosopher.name}
+          </button>
+        ))}
+      </div>
+      <div className={styles.actions}>
+        <button className={styles.secondaryButton} onClick={onReject} type="button">
+          Reject
+        </button>
+        <button className={styles.secondaryButton} onClick={onRegenerate} type="button">
+          Regenerate
+        </button>
+        <button
+          className={styles.primaryButton}
+          onClick={() => onApprove(edits)}
+          disabled={surface.trim().length === 0}
+          type="button"
+        >
+          {edited ? 'Approve edits' : 'Approve'}
+        </button>
+      </div>
+    </li>
+  );
+};
@@ -1,40 +1,112 @@
-import type { Philosopher, MessageEvent, ComposerSubmission } from '../../types';
+import type {
+  FailedTurn,
+  Philosopher,
+  MessageEvent,
+  PendingDraft,
+  ComposerSubmission,
+  Phase,
+  PhaseChangeEvent,
+  TranslationLanguage,
+} from '../../types';
+import { PHASE_LABELS } from '../../lib/phases';
+import { formatTime } from '../../lib/time';
+import type { ExportFormat } from '../../lib/export';
+import type { PlaybackState } from '../../lib/playback';
+import type { DraftEdits } from '../../lib/approval';
+import { TARGET_LANGUAGES, translationKey, type TargetLanguage } from '../../lib/translation';
 import { MessageCard } from './MessageCard';
+import { ExportMenu } from './ExportMenu';
+import { PlaybackBar, ReplayMenu } from './PlaybackBar';
 import { PromptComposer } from './PromptComposer';
+import { ApprovalTray } from './ApprovalTray';
+import { FailedTurns } from './FailedTurns';
 import styles from './DialogueStream.module.css';
 
 interface DialogueStreamProps {
   topic: string;
   date: string;
   messages: MessageEvent[];
+  phase: Phase;
+  phaseChanges: PhaseChangeEvent[];
   roster: Philosopher[];
   participants: Philosopher[];
   showInsights: boolean;
-  currentSpeaker: string | null;
+  /** Philosophers answering right now; several during a parallel broadcast. */
+  currentSpeakers: string[];
+  onStopSpeaker: () => void;
   perspectiveMode: 'moderator' | 'philosopher';
   selectedPhilosopherId: string | null;
   onPerspectiveModeChange: (mode: 'moderator' | 'philosopher') => void;
   onPhilosopherSelect: (id: string | null) => void;
   onSendPrompt: (submission: ComposerSubmission) => void;
+  onExport: (format: ExportFormat, options: { includeInsights: boolean }) => void;
+  playback: PlaybackState | null;
+  onImportTranscript: (file: File) => void;
+  onLoadDemoTranscript: () => void;
+  onTogglePlayback: () => void;
+  onSeekPlayback: (cursor: number) => void;
+  onPlaybackSpeedChange: (speed: number) => void;
+  onExitPlayback: () => void;
+  displayLanguage: TranslationLanguage;
+  pendingTranslations: readonly string[];
+  onTranslateMessage?: (messageId: string, language: TargetLanguage) => void;
+  pendingDrafts: PendingDraft[];
+  onApproveDraft: (draftId: string, edits: DraftEdits) => void;
+  onRejectDraft: (draftId: string) => void;
+  onRegenerateDraft: (draftId: string) => void;
+  failedTurns: FailedTurn[];
+  onRetryTurn: (failedId: string) => void;
+  onSkipTurn: (failedId: string) => void;
+  onReassignTurn: (failedId: string, philosopherId: string) => void;
 }
 
 export const DialogueStream = ({
   topic,
   date,
   messages,
+  phase,
+  phaseChanges,
   roster,
   participants,
   showInsights,
-  currentSpeaker,
+  currentSpeakers,
+  onStopSpeaker,
   perspectiveMode,
   selectedPhilosopherId,
   onPerspectiveModeChange,
   onPhilosopherSelect,
   onSendPrompt,
+  onExport,
+  playback,
+  onImportTranscript,
+  onLoadDemoTranscript,
+  onTogglePlayback,
+  onSeekPlayback,
+  onPlaybackSpeedChange,
+  onExitPlayback,
+  displayLanguage,
+  pendingTranslations,
+  onTranslateMessage,
+  pendingDrafts,
+  onApproveDraft,
+  onRejectDraft,
+  onRegenerateDraft,
+  failedTurns,
+  onRetryTurn,
+  onSkipTurn,
+  onReassignTurn,
 }: DialogueStreamProps) => {
-  const speakerName = currentSpeaker
-    ? participants.find((p) => p.id === currentSpeaker)?.name || currentSpeaker
-    : null;
+  const speakerName =
+    currentSpeakers.length > 0
+      ? currentSpeakers
+          .map((id) => participants.find((p) => p.id === id)?.name || id)
+          .join(', ')
+      : null;
+
+  // Interleave phase dividers with messages in chronological order
+  const timeline: Array<MessageEvent | PhaseChangeEvent> = [...messages, ...phaseChanges].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+  );
 
   return (
     <>
@@ -42,15 +114,30 @@ export const DialogueStream = ({
         <div>
           <h3>Dialogue Stream</h3>
           <span className={styles.dialogueTopic}>
-            Topic: {topic} · {date}
+            Topic: {topic} · {date} · Phase: {PHASE_LABELS[phase]}
           </span>
         </div>
         <div className={styles.dialogueMeta}>
           {speakerName ? (
-            <span className={styles.turnIndicator}>🎤 {speakerName} is speaking...</span>
+            <>
+              <span className={styles.turnIndicator}>
+                🎤 {speakerName} {currentSpeakers.length > 1 ? 'are' : 'is'} speaking...
+              </span>
+              <button className={styles.stopSpeaker} onClick={onStopSpeaker} type="button">
+                Stop speaker
+              </button>
+            </>
           ) : (
             <span>Active philosophers: {roster.length}</span>
           )}
+          <ExportMenu disabled={messages.length === 0} onExport={onExport} />
+          {!playback && (
+            <ReplayMenu
+              disabled={currentSpeakers.length > 0}
+              onImportFile={onImportTranscript}
+              onLoadDemo={onLoadDemoTranscript}
+            />
+          )}
         </div>
       </div>
 
@@ -96,16 +183,25 @@ export const DialogueStream = ({
       </div>
 
       <ol className={styles.messageList}>
-        {messages.map((message) => (
-          <MessageCard
-            key={message.id}
-            message={message}
-            showInsights={showInsights}
-            participants={participants}
-            highlightReasoning={false}
-          />
-        ))}
-        {messages.length === 0 && (
+        {timeline.map((event) =>
+          event.type === 'phase-change' ? (
+            <PhaseDivider key={event.id} event={event} />
+          ) : (
+            <MessageCard
+              key={event.id}
+              message={event}
+              showInsights={showInsights}
+              participants={participants}
+              highlightReasoning={false}
+              displayLanguage={displayLanguage}
+              pendingLanguages={TARGET_LANGUAGES.filter((language) =>
+                pendingTranslations.includes(translationKey(event.id, language)),
+              )}
+              onTranslate={onTranslateMessage}
+            />
+          ),
+        )}
+        {messages.length === 0 && !playback && (
           <li className={styles.welcomeMessage}>
             <div className={styles.welcomeHeader}>
               <h2>🏮 Welcome to Confucian Café 🏮</h2>
@@ -212,7 +308,41 @@ export const DialogueStream = ({
         )}
       </ol>
 
-      <PromptComposer roster={roster} onSubmit={onSendPrompt} />
+      {playback ? (
+        <PlaybackBar
+          playback={playback}
+          onTogglePlay={onTogglePlayback}
+          onSeek={onSeekPlayback}
+          onSpeedChange={onPlaybackSpeedChange}
+          onExit={onExitPlayback}
+        />
+      ) : (
+        <>
+          <FailedTurns
+            turns={failedTurns}
+            participants={participants}
+            onRetry={onRetryTurn}
+            onSkip={onSkipTurn}
+            onReassign={onReassignTurn}
+          />
+          <ApprovalTray
+            drafts={pendingDrafts}
+            participants={participants}
+            onApprove={onApproveDraft}
+            onReject={onRejectDraft}
+            onRegenerate={onRegenerateDraft}
+          />
+          <PromptComposer roster={roster} onSubmit={onSendPrompt} />
+        </>
+      )}
     </>
   );
 };
+
+const PhaseDivider = ({ event }: { event: PhaseChangeEvent }) => (
+  <li className={styles.phaseDivider} aria-label={`Phase changed to ${PHASE_LABELS[event.phase]}`}>
+    <span>
+      {PHASE_LABELS[event.phase]} · {formatTime(event.timestamp)}
+    </span>
+  </li>
+);
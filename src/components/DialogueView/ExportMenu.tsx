@@ -0,0 +1,45 @@
+import { useState } from 'react';
+import type { ExportFormat } from '../../lib/export';
+import styles from './ExportMenu.module.css';
+
+interface ExportMenuProps {
+  disabled: boolean;
+  onExport: (format: ExportFormat, options: { includeInsights: boolean }) => void;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  jsonl: 'JSON Lines',
+  html: 'HTML',
+};
+
+export const ExportMenu = ({ disabled, onExport }: ExportMenuProps) => {
+  const [includeInsights, setIncludeInsights] = useState(false);
+
+  return (
+    <details className={styles.exportMenu}>
+      <summary>Export transcript</summary>
+      <div className={styles.exportPanel}>
+        {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((format) => (
+          <button
+            key={format}
+            className={styles.exportButton}
+            onClick={() => onExport(format, { includeInsights })}
+            disabled={disabled}
+            type="button"
+          >
+            {FORMAT_LABELS[format]}
+          </button>
+        ))}
+        <label className={styles.insightToggle}>
+          <input
+            type="checkbox"
+            checked={includeInsights}
+            onChange={(event) => setIncludeInsights(event.target.checked)}
+          />
+          Include internal reasoning
+        </label>
+      </div>
+    </details>
+  );
+};
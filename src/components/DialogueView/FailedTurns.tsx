@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import type { FailedTurn, Philosopher } from '../../types';
+import { formatTime } from '../../lib/time';
+import styles from './FailedTurns.module.css';
+
+interface FailedTurnsProps {
+  turns: FailedTurn[];
+  participants: Philosopher[];
+  onRetry: (failedId: string) => void;
+  onSkip: (failedId: string) => void;
+  onReassign: (failedId: string, philosopherId: string) => void;
+}
+
+/**
+ * Turns that failed after their automatic retries, each with its error and
+ * the triggers it still owes an answer to.
+ */
+export const FailedTurns = ({
+  turns,
+  participants,
+  onRetry,
+  onSkip,
+  onReassign,
+}: FailedTurnsProps) => {
+  if (turns.length === 0) return null;
+
+  return (
+    <ol className={styles.failedTurns} aria-label="Failed turns">
+      {turns.map((turn) => (
+        <FailedTurnCard
+          key={turn.id}
+          turn={turn}
+          participants={participants}
+          onRetry={() => onRetry(turn.id)}
+          onSkip={() => onSkip(turn.id)}
+          onReassign={(philosopherId) => onReassign(turn.id, philosopherId)}
+        />
+      ))}
+    </ol>
+  );
+};
+
+interface FailedTurnCardProps {
+  turn: FailedTurn;
+  participants: Philosopher[];
+  onRetry: () => void;
+  onSkip: () => void;
+  onReassign: (philosopherId: string) => void;
+}
+
+const FailedTurnCard = ({
+  turn,
+  participants,
+  onRetry,
+  onSkip,
+  onReassign,
+}: FailedTurnCardProps) => {
+  const others = participants.filter(
+    (philosopher) => philosopher.id !== turn.philosopherId,
+  );
+  const [target, setTarget] = useState(others[0]?.id ?? '');
+  const nameOf = (id: string) =>
+    participants.find((philosopher) => philosopher.id === id)?.name ?? id;
+
+  return (
+    <li className={styles.card} role="alert">
+      <div className={styles.meta}>
+        <strong>{`⚠ ${nameOf(turn.philosopherId)}'s turn failed`}</strong>
+        <span>
+          {formatTime(turn.failedAt)} · {turn.attempts} attempt
+          {turn.attempts === 1 ? '' : 's'}
+        </span>
+      </div>
+      <p className={styles.reason}>{turn.reason}</p>
+      <details>
+        <summary>
+          {turn.tasks.length} pending trigger{turn.tasks.length === 1 ? '' : 's'}
+        </summary>
+        <ul>
+          {turn.tasks.map((task) => (
+            <li key={task.id}>
+              {nameOf(task.trigger.speaker)}: {task.trigger.surface}
+            </li>
+          ))}
+        </ul>
+      </details>
+      <div className={styles.actions}>
+        <button className={styles.primaryButton} onClick={onRetry} type="button">
+          Retry
+        </button>
+        <button className={styles.secondaryButton} onClick={onSkip} type="button">
+          Skip
+        </button>
+        {others.length > 0 && (
+          <span className={styles.reassign}>
+            <select
+              value={target}
+              onChange={(event) => setTarget(event.target.value)}
+              aria-label="Reassign to"
+            >
+              {others.map((philosopher) => (
+                <option key={philosopher.id} value={philosopher.id}>
+                  {philosopher.name}
+                </option>
+              ))}
+            </select>
+            <button
+              className={styles.secondaryButton}
+              onClick={() => onReassign(target)}
+              disabled={!target}
+              type="button"
+            >
+              Reassign
+            </button>
+          </span>
+        )}
+      </div>
+    </li>
+  );
+};
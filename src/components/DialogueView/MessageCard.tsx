@@ -1,12 +1,45 @@
-import type { MessageEvent, Philosopher } from '../../types';
+import { useState } from 'react';
+import type {
+  MessageEvent,
+  Philosopher,
+  QuoteVerification,
+  TranslationLanguage,
+} from '../../types';
 import { formatTime } from '../../lib/time';
+import { visibilityOf } from '../../lib/visibility';
+import {
+  TRANSLATION_LANGUAGES,
+  TRANSLATION_LANGUAGE_LABELS,
+  textInLanguage,
+  type TargetLanguage,
+} from '../../lib/translation';
 import styles from './MessageCard.module.css';
 
+const VERIFICATION_LABELS: Record<QuoteVerification['status'], string> = {
+  verified: '✓ verified',
+  'close-paraphrase': '≈ close paraphrase',
+  unverified: '? unverified',
+};
+
+const verificationTitle = (verification: QuoteVerification) =>
+  [
+    `${Math.round(verification.score * 100)}% match`,
+    verification.match && `closest: ${verification.match.source}`,
+    verification.note,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
 interface MessageCardProps {
   message: MessageEvent;
   showInsights: boolean;
   participants: Philosopher[];
   highlightReasoning?: boolean;
+  /** Global language choice; each card can override it locally. */
+  displayLanguage?: TranslationLanguage;
+  pendingLanguages?: readonly TargetLanguage[];
+  /** Requests a missing translation; omitted when translation is unavailable (e.g. replays). */
+  onTranslate?: (messageId: string, language: TargetLanguage) => void;
 }
 
 export const MessageCard = ({
@@ -14,7 +47,24 @@ export const MessageCard = ({
   showInsights,
   participants,
   highlightReasoning = false,
+  displayLanguage = 'english',
+  pendingLanguages = [],
+  onTranslate,
 }: MessageCardProps) => {
+  const [languageOverride, setLanguageOverride] = useState<TranslationLanguage | null>(null);
+  const language = languageOverride ?? displayLanguage;
+  const { text, translated } = textInLanguage(message, language);
+  const translating = language !== 'english' && pendingLanguages.includes(language);
+  const system = message.speaker === 'system';
+  const translatable = !message.draft && message.speaker !== 'moderator' && !system;
+
+  const selectLanguage = (next: TranslationLanguage) => {
+    setLanguageOverride(next === displayLanguage ? null : next);
+    if (next !== 'english' && !message.translations[next]) {
+      onTranslate?.(message.id, next);
+    }
+  };
+
   const speaker = participants.find((philosopher) => philosopher.id === message.speaker);
   const recipientLabels = message.recipients.map((recipient) => {
     if (recipient === 'moderator') {
@@ -25,17 +75,84 @@ export const MessageCard = ({
   });
 
   return (
-    <li className={`${styles.message} ${highlightReasoning ? styles.ownMessage : ''}`}>
+    <li
+      className={`${styles.message} ${highlightReasoning ? styles.ownMessage : ''} ${message.draft ? styles.draft : ''} ${system ? styles.systemNotice : ''}`}
+    >
       <div className={styles.meta}>
         <span>
           {speaker?.name || message.speaker} · {formatTime(message.timestamp)} · →{' '}
           {recipientLabels.join(', ')}
         </span>
+        {visibilityOf(message) === 'whisper' && (
+          <span className={styles.whisperBadge} title="Only the recipients heard this">
+            🤫 whisper
+          </span>
+        )}
+        {message.draft && <span className={styles.draftBadge}>composing…</span>}
+        {translatable && (
+          <span className={styles.languageSwitch} role="group" aria-label="Message language">
+            {TRANSLATION_LANGUAGES.map((entry) => (
+              <button
+                key={entry}
+                type="button"
+                className={`${styles.languageOption} ${entry === language ? styles.active : ''}`}
+                onClick={() => selectLanguage(entry)}
+                disabled={
+                  entry !== 'english' && !message.translations[entry] && !onTranslate
+                }
+              >
+                {TRANSLATION_LANGUAGE_LABELS[entry]}
+              </button>
+            ))}
+          </span>
+        )}
       </div>
-      <p>{message.surface}</p>
+      {message.draft && !message.surface ? (
+        <p className={styles.typingIndicator} aria-label="Reply in progress">
+          <span />
+          <span />
+          <span />
+        </p>
+      ) : (
+        <p lang={translated ? 'zh' : undefined}>{text}</p>
+      )}
+      {translatable && language !== 'english' && !translated && (
+        <p className={styles.translationStatus}>
+          {translating
+            ? `Translating into ${TRANSLATION_LANGUAGE_LABELS[language]}…`
+            : `No ${TRANSLATION_LANGUAGE_LABELS[language]} translation yet.`}
+          {!translating && onTranslate && (
+            <button
+              type="button"
+              className={styles.translateButton}
+              onClick={() => onTranslate(message.id, language)}
+            >
+              Translate
+            </button>
+          )}
+        </p>
+      )}
       {message.quote && (
         <details className={styles.quoteBlock} open>
-          <summary>📜 Classical Quote</summary>
+          <summary>
+            📜 Classical Quote
+            {message.quote.verification && (
+              <span
+                className={`${styles.verificationBadge} ${styles[message.quote.verification.status]}`}
+                title={verificationTitle(message.quote.verification)}
+              >
+                {VERIFICATION_LABELS[message.quote.verification.status]}
+              </span>
+            )}
+            {!message.quote.verification && message.quote.retrieved && (
+              <span
+                className={`${styles.verificationBadge} ${styles.retrieved}`}
+                title="Passage retrieved from the corpus for this turn; the reply did not quote it"
+              >
+                ⌕ retrieved
+              </span>
+            )}
+          </summary>
           <div className={styles.chineseQuote}>{message.quote.chinese}</div>
           <div className={styles.englishTranslation}>{message.quote.english}</div>
           <cite className={styles.quoteSource}>— {message.quote.source}</cite>
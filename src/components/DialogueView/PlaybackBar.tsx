@@ -0,0 +1,122 @@
+import { useRef } from 'react';
+import {
+  PLAYBACK_SPEEDS,
+  playbackTimestamp,
+  type PlaybackState,
+} from '../../lib/playback';
+import { formatTime } from '../../lib/time';
+import styles from './PlaybackBar.module.css';
+
+interface ReplayMenuProps {
+  disabled: boolean;
+  onImportFile: (file: File) => void;
+  onLoadDemo: () => void;
+}
+
+export const ReplayMenu = ({ disabled, onImportFile, onLoadDemo }: ReplayMenuProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <details className={styles.replayMenu}>
+      <summary>Replay</summary>
+      <div className={styles.replayPanel}>
+        <button
+          className={styles.replayButton}
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled}
+          type="button"
+        >
+          Import JSONL transcript…
+        </button>
+        <button
+          className={styles.replayButton}
+          onClick={onLoadDemo}
+          disabled={disabled}
+          type="button"
+        >
+          Play demo dialogue
+        </button>
+        {disabled && (
+          <span className={styles.replayHint}>Stop the current speaker first.</span>
+        )}
+        <input
+          ref={fileInputRef}
+          className={styles.fileInput}
+          type="file"
+          accept=".jsonl,.ndjson,application/x-ndjson"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            if (file) onImportFile(file);
+            event.target.value = '';
+          }}
+        />
+      </div>
+    </details>
+  );
+};
+
+interface PlaybackBarProps {
+  playback: PlaybackState;
+  onTogglePlay: () => void;
+  onSeek: (cursor: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+export const PlaybackBar = ({
+  playback,
+  onTogglePlay,
+  onSeek,
+  onSpeedChange,
+  onExit,
+}: PlaybackBarProps) => {
+  const total = playback.events.length;
+  const finished = playback.cursor >= total;
+  const clock = playbackTimestamp(playback.events, playback.cursor);
+
+  return (
+    <div className={styles.playbackBar}>
+      <div className={styles.playbackHeader}>
+        <strong>Replaying: {playback.label}</strong>
+        <span className={styles.playbackHint}>No backend calls during playback</span>
+      </div>
+      <div className={styles.controls}>
+        <button
+          className={styles.primaryButton}
+          onClick={() => (finished ? onSeek(0) : onTogglePlay())}
+          type="button"
+        >
+          {finished ? 'Restart' : playback.playing ? 'Pause' : 'Play'}
+        </button>
+        <input
+          className={styles.seek}
+          type="range"
+          min={0}
+          max={total}
+          value={playback.cursor}
+          onChange={(event) => onSeek(Number(event.target.value))}
+          aria-label="Seek"
+        />
+        <span className={styles.position}>
+          {playback.cursor}/{total}
+          {clock && ` · ${formatTime(clock)}`}
+        </span>
+        <select
+          className={styles.speed}
+          value={playback.speed}
+          onChange={(event) => onSpeedChange(Number(event.target.value))}
+          aria-label="Playback speed"
+        >
+          {PLAYBACK_SPEEDS.map((speed) => (
+            <option key={speed} value={speed}>
+              {speed}×
+            </option>
+          ))}
+        </select>
+        <button className={styles.exitButton} onClick={onExit} type="button">
+          Exit replay
+        </button>
+      </div>
+    </div>
+  );
+};
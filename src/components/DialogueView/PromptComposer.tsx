@@ -10,6 +10,7 @@ interface PromptComposerProps {
 export const PromptComposer = ({ onSubmit, roster }: PromptComposerProps) => {
   const [prompt, setPrompt] = useState('');
   const [recipients, setRecipients] = useState<string[]>(['confucius', 'laozi', 'mozi']);
+  const [whisper, setWhisper] = useState(false);
 
   useEffect(() => {
     setRecipients((prev) => {
@@ -42,8 +43,9 @@ export const PromptComposer = ({ onSubmit, roster }: PromptComposerProps) => {
   };
 
   const handleSubmit = () => {
-    onSubmit({ prompt, recipients });
+    onSubmit({ prompt, recipients, whisper });
     setPrompt('');
+    setWhisper(false);
   };
 
   const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -84,6 +86,14 @@ export const PromptComposer = ({ onSubmit, roster }: PromptComposerProps) => {
               {philosopher.name}
             </button>
           ))}
+          <button
+            className={`${styles.pill} ${whisper ? styles.active : ''}`}
+            onClick={() => setWhisper((prev) => !prev)}
+            title="Only the selected philosophers will hear this message"
+            type="button"
+          >
+            🤫 Whisper
+          </button>
         </div>
         <button
           className={styles.primaryButton}
@@ -91,7 +101,7 @@ export const PromptComposer = ({ onSubmit, roster }: PromptComposerProps) => {
           disabled={disableSubmit}
           type="button"
         >
-          Send Prompt
+          {whisper ? 'Send Whisper' : 'Send Prompt'}
         </button>
       </div>
     </div>
@@ -6,6 +6,8 @@ interface HeaderBandProps {
   backendHealthy: boolean | null;
   isPaused: boolean;
   onTogglePause: () => void;
+  currentSpeakerName: string | null;
+  onStopSpeaker: () => void;
 }
 
 export const HeaderBand = ({
@@ -14,6 +16,8 @@ export const HeaderBand = ({
   backendHealthy,
   isPaused,
   onTogglePause,
+  currentSpeakerName,
+  onStopSpeaker,
 }: HeaderBandProps) => {
   const backendStatusClass =
     backendHealthy === null ? 'pending' : backendHealthy ? 'online' : 'offline';
@@ -29,6 +33,11 @@ export const HeaderBand = ({
         <button className={styles.inspectorToggle} onClick={onToggleInspector}>
           {inspectorOpen ? 'Hide Inspector' : 'Show Inspector'}
         </button>
+        {currentSpeakerName && (
+          <button className={styles.stopButton} onClick={onStopSpeaker} type="button">
+            ⏹ Stop {currentSpeakerName}
+          </button>
+        )}
         <button className={styles.pauseToggle} onClick={onTogglePause} type="button">
           {isPaused ? 'Resume auto-responses' : 'Pause auto-responses'}
         </button>
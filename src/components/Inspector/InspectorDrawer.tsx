@@ -1,14 +1,30 @@
 import { useState } from 'react';
-import type { InspectorSnapshot, MessageEvent } from '../../types';
+import type { ContextSection, InspectorSnapshot, MessageEvent } from '../../types';
 import { formatTime } from '../../lib/time';
+import { downloadText } from '../../lib/download';
+import type { MemorySummary } from '../../lib/memory';
+import { VISIBILITY_LABELS, audienceFor, visibilityOf } from '../../lib/visibility';
 import styles from './InspectorDrawer.module.css';
 
+const CONTEXT_SECTIONS: readonly ContextSection[] = [
+  'persona',
+  'directive',
+  'summary',
+  'direct',
+  'recalled',
+  'ambient',
+];
+
 interface InspectorDrawerProps {
   open: boolean;
   snapshots: InspectorSnapshot[];
   activeSnapshotId: string | null;
   onSelectSnapshot: (id: string) => void;
   messages: MessageEvent[];
+  /** Rolling memory summaries per philosopher (`MemoryState.summaries`). */
+  memorySummaries: Record<string, MemorySummary[]>;
+  /** Philosophers in the session, for showing who could see each message. */
+  participantIds: string[];
   onClose: () => void;
 }
 
@@ -18,6 +34,8 @@ export const InspectorDrawer = ({
   activeSnapshotId,
   onSelectSnapshot,
   messages,
+  memorySummaries,
+  participantIds,
   onClose,
 }: InspectorDrawerProps) => {
   if (!open) return null;
@@ -63,7 +81,12 @@ export const InspectorDrawer = ({
           </div>
 
           {activeSnapshot && (
-            <SnapshotDetails snapshot={activeSnapshot} messages={messages} />
+            <SnapshotDetails
+              snapshot={activeSnapshot}
+              messages={messages}
+              summaries={memorySummaries[activeSnapshot.audience] ?? []}
+              participantIds={participantIds}
+            />
           )}
         </div>
       )}
@@ -74,25 +97,33 @@ export const InspectorDrawer = ({
 interface SnapshotDetailsProps {
   snapshot: InspectorSnapshot;
   messages: MessageEvent[];
+  summaries: MemorySummary[];
+  participantIds: string[];
 }
 
-const SnapshotDetails = ({ snapshot, messages }: SnapshotDetailsProps) => {
+const SnapshotDetails = ({
+  snapshot,
+  messages,
+  summaries,
+  participantIds,
+}: SnapshotDetailsProps) => {
   const recordedAt = new Date(snapshot.timestamp).toLocaleString();
   const messageMap = new Map(messages.map((message) => [message.id, message]));
   const missing = snapshot.contextMessages.filter((entry) => !messageMap.has(entry.id));
   const latestExchange = snapshot.callPayload?.latest ?? null;
-
-  const downloadText = (text: string, filename: string) => {
-    const blob = new Blob([text], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-  };
+  const budget = snapshot.callPayload?.budget;
+  // Snapshots saved before a section existed have no entry for it
+  const budgetSections = budget
+    ? CONTEXT_SECTIONS.filter((section) => budget.sections[section])
+    : [];
+  const droppedCount = budget
+    ? budgetSections.reduce(
+        (total, section) => total + budget.sections[section].dropped,
+        0,
+      )
+    : 0;
+  const recalled = snapshot.callPayload?.recalled ?? [];
+  const answeredBy = snapshot.callPayload?.answeredBy;
 
   return (
     <>
@@ -109,6 +140,14 @@ const SnapshotDetails = ({ snapshot, messages }: SnapshotDetailsProps) => {
         <div>
           <strong>Recorded</strong> {recordedAt}
         </div>
+        {answeredBy && (
+          <div>
+            <strong>Answered By</strong>{' '}
+            {answeredBy.model
+              ? `${answeredBy.provider} · ${answeredBy.model}`
+              : answeredBy.provider}
+          </div>
+        )}
         <div>
           <strong>User Prompt</strong> {snapshot.userPrompt}
         </div>
@@ -125,6 +164,33 @@ const SnapshotDetails = ({ snapshot, messages }: SnapshotDetailsProps) => {
             ? 'Context mirror in sync'
             : `Pending ${missing.length} message${missing.length === 1 ? '' : 's'} from stream`}
         </span>
+        {budget && (
+          <span
+            className={styles.pill}
+            title={budgetSections
+              .map(
+                (section) =>
+                  `${section}: ${budget.sections[section].tokens} tokens, ${budget.sections[section].included} kept, ${budget.sections[section].shortened} shortened, ${budget.sections[section].dropped} dropped`,
+              )
+              .join('\n')}
+          >
+            {budget.overBudget ? '⚠ ' : ''}Budget {budget.used}/{budget.limit} tokens
+            {droppedCount > 0 ? ` · ${droppedCount} dropped` : ''}
+          </span>
+        )}
+        {recalled.length > 0 && (
+          <span
+            className={styles.pill}
+            title={recalled
+              .map(
+                (item) =>
+                  `${new Date(item.timestamp).toLocaleString()} · ${item.speaker} (score ${item.score.toFixed(2)})`,
+              )
+              .join('\n')}
+          >
+            Recalled {recalled.length} earlier exchange{recalled.length === 1 ? '' : 's'}
+          </span>
+        )}
       </div>
 
       <div className={styles.inspectorActions}>
@@ -162,17 +228,71 @@ const SnapshotDetails = ({ snapshot, messages }: SnapshotDetailsProps) => {
         </details>
       )}
 
-      <AgentLens snapshot={snapshot} messages={messages} />
+      <MemorySummaries snapshot={snapshot} messages={messages} summaries={summaries} />
+
+      <AgentLens snapshot={snapshot} messages={messages} participantIds={participantIds} />
     </>
   );
 };
 
+const MemorySummaries = ({
+  snapshot,
+  messages,
+  summaries,
+}: Omit<SnapshotDetailsProps, 'participantIds'>) => {
+  if (summaries.length === 0 && !snapshot.memorySummary) return null;
+  const messageMap = new Map(messages.map((message) => [message.id, message]));
+  const used = snapshot.memorySummary;
+
+  return (
+    <section>
+      <strong>Memory Summaries</strong>
+      <div className={styles.toggleBar} style={{ margin: '6px 0' }}>
+        <span className={styles.pill}>
+          {used
+            ? `Prompt included summary of ${used.totalEntries} entries (${formatTime(used.from)}–${formatTime(used.to)})`
+            : 'Prompt had no summary yet'}
+        </span>
+      </div>
+      {[...summaries].reverse().map((summary) => (
+        <details
+          key={summary.id}
+          className={styles.insight}
+          open={summary.id === used?.id}
+        >
+          <summary>
+            {formatTime(summary.createdAt)} · condensed {summary.coveredIds.length} entries
+            from {summary.coveredSpeakers.join(', ')}
+          </summary>
+          <p>{summary.text}</p>
+          <ul className={styles.agentContextList}>
+            {summary.coveredIds.map((id) => {
+              const message = messageMap.get(id);
+              return (
+                <li key={id}>
+                  <div className={styles.meta}>
+                    {message
+                      ? `${message.speaker} · ${formatTime(message.timestamp)}`
+                      : id}
+                  </div>
+                  {message && <div>{message.surface}</div>}
+                </li>
+              );
+            })}
+          </ul>
+        </details>
+      ))}
+    </section>
+  );
+};
+
 interface AgentLensProps {
   snapshot: InspectorSnapshot;
   messages: MessageEvent[];
+  participantIds: string[];
 }
 
-const AgentLens = ({ snapshot, messages }: AgentLensProps) => {
+const AgentLens = ({ snapshot, messages, participantIds }: AgentLensProps) => {
   const messageMap = new Map(messages.map((message) => [message.id, message]));
   const pending = snapshot.contextMessages.filter((entry) => !messageMap.has(entry.id));
 
@@ -192,14 +312,21 @@ const AgentLens = ({ snapshot, messages }: AgentLensProps) => {
             <div>No prior statements; the agent only receives the user prompt.</div>
           </li>
         )}
-        {snapshot.contextMessages.map((entry) => (
-          <li key={entry.id}>
-            <div className={styles.meta}>
-              {entry.speaker} · {formatTime(entry.timestamp)}
-            </div>
-            <div>{entry.surface}</div>
-          </li>
-        ))}
+        {snapshot.contextMessages.map((entry) => {
+          const message = messageMap.get(entry.id);
+          return (
+            <li key={entry.id}>
+              <div className={styles.meta}>
+                {entry.speaker} · {formatTime(entry.timestamp)}
+                {message &&
+                  ` · ${VISIBILITY_LABELS[visibilityOf(message)]}, seen by ${
+                    audienceFor(message, participantIds).join(', ') || 'moderator only'
+                  }`}
+              </div>
+              <div>{entry.surface}</div>
+            </li>
+          );
+        })}
       </ul>
     </section>
   );
@@ -1,5 +1,6 @@
 import type { MessageEvent, Philosopher } from '../../types';
 import { formatTime } from '../../lib/time';
+import { canSee, visibilityOf } from '../../lib/visibility';
 import styles from './PhilosopherViewSidebar.module.css';
 
 interface PhilosopherViewSidebarProps {
@@ -19,16 +20,19 @@ export const PhilosopherViewSidebar = ({
   showInsights,
   onClose,
 }: PhilosopherViewSidebarProps) => {
+  // Only messages the visibility policy let this philosopher hear
+  const visibleMessages = messages.filter((msg) => canSee(msg, philosopherId));
+
   // Direct messages: addressed to this philosopher
-  const directMessages = messages.filter(
+  const directMessages = visibleMessages.filter(
     (msg) =>
       msg.recipients.includes(philosopherId) ||
       msg.recipients.includes('all') ||
       msg.speaker === philosopherId,
   );
 
-  // General chit-chat: messages not addressed to this philosopher
-  const chitChatMessages = messages.filter(
+  // General chit-chat: public messages between others
+  const chitChatMessages = visibleMessages.filter(
     (msg) =>
       !msg.recipients.includes(philosopherId) &&
       !msg.recipients.includes('all') &&
@@ -61,7 +65,8 @@ export const PhilosopherViewSidebar = ({
             <span className={styles.messageCount}>{directMessages.length}</span>
           </div>
           <p className={styles.sectionDescription}>
-            Messages addressed to you, broadcast to all, or sent by you
+            Messages addressed to you, broadcast to all, or sent by you (whispers
+            included)
           </p>
           <ol className={styles.sidebarMessageList}>
             {directMessages.length === 0 ? (
@@ -87,7 +92,7 @@ export const PhilosopherViewSidebar = ({
             <span className={styles.messageCount}>{chitChatMessages.length}</span>
           </div>
           <p className={styles.sectionDescription}>
-            Conversations between others that you can overhear
+            Public conversations between others that you can overhear
           </p>
           <ol className={styles.sidebarMessageList}>
             {chitChatMessages.length === 0 ? (
@@ -136,7 +141,10 @@ const PhilosopherMessageCard = ({
         <span className={styles.speakerName}>{speaker?.name || message.speaker}</span>
         <span className={styles.timestamp}>{formatTime(message.timestamp)}</span>
       </div>
-      <div className={styles.messageRecipients}>→ {recipientLabels.join(', ')}</div>
+      <div className={styles.messageRecipients}>
+        {visibilityOf(message) === 'whisper' ? '🤫 whispered ' : ''}→{' '}
+        {recipientLabels.join(', ')}
+      </div>
       <p className={styles.messageText}>{message.surface}</p>
       {isOwnMessage && message.insight && (
         <details className={styles.sidebarInsight} open>
@@ -0,0 +1,65 @@
+import type { GuardSettings } from '../../lib/guard';
+import styles from './AddParticipantCard.module.css';
+
+interface GuardSettingsCardProps {
+  settings: GuardSettings;
+  onChange: (settings: GuardSettings) => void;
+}
+
+const FIELDS: Array<{
+  key: keyof GuardSettings;
+  label: string;
+  min: number;
+  max?: number;
+  step: number;
+}> = [
+  { key: 'maxAutoTurns', label: 'Max turns per moderator prompt', min: 0, step: 1 },
+  {
+    key: 'cooldownSeconds',
+    label: 'Per-philosopher cooldown (seconds)',
+    min: 0,
+    step: 5,
+  },
+  { key: 'pingPongLimit', label: 'A↔B exchanges before pausing', min: 0, step: 1 },
+  {
+    key: 'duplicateThreshold',
+    label: 'Near-duplicate similarity (0–1)',
+    min: 0,
+    max: 1,
+    step: 0.05,
+  },
+];
+
+/**
+ * Limits for the runaway-conversation guard. Any value of 0 turns that check
+ * off.
+ */
+export const GuardSettingsCard = ({ settings, onChange }: GuardSettingsCardProps) => (
+  <div className={styles.addPhilosopherCard}>
+    <strong>Runaway guard</strong>
+    <p>
+      Auto-responses pause when a limit trips; the reason appears in the event feed and
+      the transcript. Resuming resets the turn count. Set a value to 0 to disable it.
+    </p>
+    <div className={styles.addForm}>
+      {FIELDS.map(({ key, label, min, max, step }) => (
+        <label key={key}>
+          <span>{label}</span>
+          <input
+            type="number"
+            min={min}
+            max={max}
+            step={step}
+            value={settings[key]}
+            onChange={(event) => {
+              const value = Number(event.target.value);
+              if (Number.isFinite(value) && value >= 0) {
+                onChange({ ...settings, [key]: value });
+              }
+            }}
+          />
+        </label>
+      ))}
+    </div>
+  </div>
+);
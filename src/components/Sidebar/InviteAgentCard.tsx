@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import type { Philosopher } from '../../types';
+import { fetchAgentCard, resolveAgentCardUrl, type A2AAgentCard } from '../../lib/a2a';
+import styles from './AddParticipantCard.module.css';
+
+interface InviteAgentCardProps {
+  onAdd: (philosopher: Philosopher) => void;
+  existingIds: Set<string>;
+}
+
+const toSlug = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Seats an external A2A agent in the council. The agent card supplies the name
+ * and persona; the participant's turns are then sent to the agent's endpoint.
+ */
+export const InviteAgentCard = ({ onAdd, existingIds }: InviteAgentCardProps) => {
+  const [agentUrl, setAgentUrl] = useState('');
+  const [card, setCard] = useState<A2AAgentCard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fetching, setFetching] = useState(false);
+
+  const handleFetch = async () => {
+    setCard(null);
+    setError(null);
+    setFetching(true);
+    try {
+      setCard(await fetchAgentCard(agentUrl));
+    } catch (fetchError) {
+      setError(fetchError instanceof Error ? fetchError.message : String(fetchError));
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const handleInvite = () => {
+    if (!card) return;
+    const baseId = toSlug(card.name) || 'agent';
+    let candidateId = baseId;
+    for (let suffix = 2; existingIds.has(candidateId); suffix += 1) {
+      candidateId = `${baseId}-${suffix}`;
+    }
+    const endpoint = new URL(card.url);
+    const summary = card.description?.trim() || `External A2A agent ${card.name}.`;
+    const skills = card.skills
+      .map(
+        (skill) => `- ${skill.name}${skill.description ? `: ${skill.description}` : ''}`,
+      )
+      .join('\n');
+
+    onAdd({
+      id: candidateId,
+      name: card.name,
+      school: card.provider?.organization ?? 'External agent',
+      port: Number(endpoint.port) || (endpoint.protocol === 'https:' ? 443 : 80),
+      personaSummary: summary,
+      personaTemplate: skills ? `${summary}\n\nSkills:\n${skills}` : summary,
+      remoteAgent: {
+        url: card.url,
+        cardUrl: resolveAgentCardUrl(agentUrl),
+        streaming: card.capabilities.streaming === true,
+      },
+    });
+    setAgentUrl('');
+    setCard(null);
+  };
+
+  return (
+    <div className={styles.addPhilosopherCard}>
+      <strong>Invite A2A agent</strong>
+      <p>
+        Paste the URL of any A2A-compliant agent (or its agent card) to seat it in the
+        council.
+      </p>
+      {error && <span className={styles.formError}>{error}</span>}
+      <div className={styles.addForm}>
+        <label>
+          <span>Agent URL</span>
+          <input
+            value={agentUrl}
+            onChange={(event) => {
+              setAgentUrl(event.target.value);
+              setCard(null);
+            }}
+            placeholder="http://localhost:9100"
+          />
+        </label>
+      </div>
+      {card && (
+        <div className={styles.agentPreview}>
+          <strong>{card.name}</strong>
+          {card.description && <p>{card.description}</p>}
+          <span className={styles.agentMeta}>
+            {card.url} · {card.capabilities.streaming ? 'streaming' : 'request/response'}
+            {card.skills.length > 0 &&
+              ` · skills: ${card.skills.map((skill) => skill.name).join(', ')}`}
+          </span>
+        </div>
+      )}
+      {card ? (
+        <button className={styles.primaryButton} onClick={handleInvite} type="button">
+          Invite {card.name}
+        </button>
+      ) : (
+        <button
+          className={styles.primaryButton}
+          onClick={() => void handleFetch()}
+          disabled={!agentUrl.trim() || fetching}
+          type="button"
+        >
+          {fetching ? 'Fetching agent card…' : 'Fetch agent card'}
+        </button>
+      )}
+    </div>
+  );
+};
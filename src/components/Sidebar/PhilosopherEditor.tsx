@@ -1,5 +1,12 @@
 import { useState } from 'react';
 import type { Philosopher } from '../../types';
+import { DEFAULT_CONTEXT_BUDGET } from '../../lib/context';
+import {
+  LLM_PROVIDERS,
+  LLM_PROVIDER_LABELS,
+  SUGGESTED_MODELS,
+  normalizeLLMChoice,
+} from '../../lib/models';
 import styles from './PhilosopherEditor.module.css';
 
 interface PhilosopherEditorProps {
@@ -17,9 +24,14 @@ export const PhilosopherEditor = ({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSave(editedPhilosopher);
+    onSave({ ...editedPhilosopher, llm: normalizeLLMChoice(editedPhilosopher.llm) });
   };
 
+  const provider = editedPhilosopher.llm?.provider;
+  const suggestedModels = provider
+    ? SUGGESTED_MODELS[provider]
+    : LLM_PROVIDERS.flatMap((key) => SUGGESTED_MODELS[key]);
+
   return (
     <div className={styles.editorOverlay}>
       <div className={styles.editorModal}>
@@ -78,6 +90,73 @@ export const PhilosopherEditor = ({
             />
           </div>
 
+          <div className={styles.formGroup}>
+            <label htmlFor="contextBudget">Context budget (tokens)</label>
+            <input
+              id="contextBudget"
+              type="number"
+              min={500}
+              step={500}
+              value={editedPhilosopher.contextBudget ?? DEFAULT_CONTEXT_BUDGET}
+              onChange={(e) =>
+                setEditedPhilosopher({
+                  ...editedPhilosopher,
+                  contextBudget: parseInt(e.target.value, 10) || undefined,
+                })
+              }
+            />
+          </div>
+
+          {!editedPhilosopher.remoteAgent && (
+            <div className={styles.formRow}>
+              <div className={styles.formGroup}>
+                <label htmlFor="llmProvider">Provider</label>
+                <select
+                  id="llmProvider"
+                  value={provider ?? ''}
+                  onChange={(e) =>
+                    setEditedPhilosopher({
+                      ...editedPhilosopher,
+                      llm: {
+                        ...editedPhilosopher.llm,
+                        provider: LLM_PROVIDERS.find((key) => key === e.target.value),
+                      },
+                    })
+                  }
+                >
+                  <option value="">Backend default</option>
+                  {LLM_PROVIDERS.map((key) => (
+                    <option key={key} value={key}>
+                      {LLM_PROVIDER_LABELS[key]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className={styles.formGroup}>
+                <label htmlFor="llmModel">Model</label>
+                <input
+                  id="llmModel"
+                  type="text"
+                  list="llmModelSuggestions"
+                  placeholder="Provider default"
+                  value={editedPhilosopher.llm?.model ?? ''}
+                  onChange={(e) =>
+                    setEditedPhilosopher({
+                      ...editedPhilosopher,
+                      llm: { ...editedPhilosopher.llm, model: e.target.value },
+                    })
+                  }
+                />
+                <datalist id="llmModelSuggestions">
+                  {suggestedModels.map((model) => (
+                    <option key={model} value={model} />
+                  ))}
+                </datalist>
+              </div>
+            </div>
+          )}
+
           <div className={styles.formGroup}>
             <label htmlFor="personaSummary">Persona Summary</label>
             <textarea
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import type { Philosopher, ResponseTask } from '../../types';
+import { groupBatches } from '../../lib/queue';
+import { SCHEDULERS, type SchedulerId } from '../../lib/scheduler';
+import styles from './Sidebar.module.css';
+
+interface QueuePanelProps {
+  philosophers: Philosopher[];
+  queueOrder: string[];
+  pendingTasks: Record<string, ResponseTask[]>;
+  schedulerId: SchedulerId;
+  bids: Record<string, number>;
+  pinnedSpeaker: string | null;
+  onReorder: (philosopherId: string, index: number) => void;
+  onRemove: (philosopherId: string) => void;
+  onSplitTask: (philosopherId: string, taskId: string) => void;
+  onMergeBatches: (philosopherId: string) => void;
+  onPin: (philosopherId: string | null) => void;
+  /** Set when the moderator picks the next speaker. */
+  onPickNextSpeaker?: (philosopherId: string) => void;
+}
+
+const excerpt = (text: string) => (text.length > 80 ? `${text.slice(0, 77)}…` : text);
+
+/**
+ * Speaking order with moderator controls: drag to reorder, pin the next
+ * speaker, drop a speaker's pending tasks, and split or merge the triggers
+ * batched into their turns.
+ */
+export const QueuePanel = ({
+  philosophers,
+  queueOrder,
+  pendingTasks,
+  schedulerId,
+  bids,
+  pinnedSpeaker,
+  onReorder,
+  onRemove,
+  onSplitTask,
+  onMergeBatches,
+  onPin,
+  onPickNextSpeaker,
+}: QueuePanelProps) => {
+  const [dragging, setDragging] = useState<string | null>(null);
+
+  if (queueOrder.length === 0) return null;
+
+  const nameOf = (id: string) =>
+    philosophers.find((philosopher) => philosopher.id === id)?.name ?? id;
+
+  return (
+    <div className={styles.card}>
+      <header>
+        <span>🎤 Speaking Order</span>
+        <span className={styles.rosterPort}>{SCHEDULERS[schedulerId].label}</span>
+      </header>
+      <div className={styles.queueOrderList}>
+        {queueOrder.map((philosopherId, index) => {
+          const tasks = pendingTasks[philosopherId] ?? [];
+          const batches = groupBatches(tasks);
+          const pinned = pinnedSpeaker === philosopherId;
+          return (
+            <div
+              key={philosopherId}
+              className={`${styles.queueOrderItem} ${dragging === philosopherId ? styles.dragging : ''}`}
+              draggable
+              onDragStart={() => setDragging(philosopherId)}
+              onDragEnd={() => setDragging(null)}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (dragging && dragging !== philosopherId) onReorder(dragging, index);
+                setDragging(null);
+              }}
+            >
+              <span className={styles.queuePosition}>{index + 1}</span>
+              <span className={styles.queuePhilosopherName}>
+                {nameOf(philosopherId)}
+                {pinned && ' 📌'}
+              </span>
+              {tasks.length > 0 && (
+                <span className={styles.queueMessageCount}>
+                  {tasks.length} msg{tasks.length > 1 ? 's' : ''}
+                </span>
+              )}
+              {bids[philosopherId] !== undefined && (
+                <span className={styles.queueMessageCount}>
+                  bid {bids[philosopherId]}
+                </span>
+              )}
+              {onPickNextSpeaker && (
+                <button
+                  className={styles.pill}
+                  onClick={() => onPickNextSpeaker(philosopherId)}
+                  type="button"
+                >
+                  Speak next
+                </button>
+              )}
+              <button
+                className={`${styles.pill} ${pinned ? styles.active : ''}`}
+                onClick={() => onPin(pinned ? null : philosopherId)}
+                title="Speak next regardless of the turn-taking policy"
+                type="button"
+              >
+                {pinned ? 'Unpin' : 'Pin'}
+              </button>
+              <button
+                className={styles.pill}
+                onClick={() => onRemove(philosopherId)}
+                title="Drop this speaker's pending tasks"
+                type="button"
+              >
+                Remove
+              </button>
+              {tasks.length > 0 && (
+                <details className={styles.queueTasks}>
+                  <summary>
+                    {batches.length > 1
+                      ? `${tasks.length} triggers over ${batches.length} turns`
+                      : `${tasks.length} trigger${tasks.length > 1 ? 's' : ''} in one turn`}
+                  </summary>
+                  {batches.map((batch, turn) => (
+                    <div key={batch[0]?.id ?? turn} className={styles.queueBatch}>
+                      {batches.length > 1 && <strong>Turn {turn + 1}</strong>}
+                      <ol>
+                        {batch.map((task) => (
+                          <li key={task.id}>
+                            <span>
+                              {nameOf(task.trigger.speaker)}:{' '}
+                              {excerpt(task.trigger.surface)}
+                            </span>
+                            {batch.length > 1 && (
+                              <button
+                                className={styles.pill}
+                                onClick={() => onSplitTask(philosopherId, task.id)}
+                                title="Answer this trigger in a separate turn"
+                                type="button"
+                              >
+                                Split
+                              </button>
+                            )}
+                          </li>
+                        ))}
+                      </ol>
+                    </div>
+                  ))}
+                  {batches.length > 1 && (
+                    <button
+                      className={styles.pill}
+                      onClick={() => onMergeBatches(philosopherId)}
+                      type="button"
+                    >
+                      Merge into one turn
+                    </button>
+                  )}
+                </details>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <p>Drag speakers to reorder; round robin and bidding re-sort at the next turn.</p>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import type { SessionSummary } from '../../types';
+import styles from './SessionPanel.module.css';
+
+interface SessionPanelProps {
+  sessions: SessionSummary[];
+  activeSessionId: string | null;
+  onCreate: (title: string) => void;
+  onLoad: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onDetach: () => void;
+  onRefresh: () => void;
+}
+
+export const SessionPanel = ({
+  sessions,
+  activeSessionId,
+  onCreate,
+  onLoad,
+  onRename,
+  onDelete,
+  onDetach,
+  onRefresh,
+}: SessionPanelProps) => {
+  const [title, setTitle] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const activeSession = sessions.find((session) => session.id === activeSessionId);
+
+  const handleCreate = () => {
+    onCreate(title.trim());
+    setTitle('');
+  };
+
+  const commitRename = (id: string) => {
+    const trimmed = renameValue.trim();
+    if (trimmed) {
+      onRename(id, trimmed);
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <>
+      <div className={styles.sessionCard}>
+        <strong>Current session</strong>
+        {activeSession ? (
+          <>
+            <span className={styles.activeTitle}>{activeSession.title}</span>
+            <p>Changes are saved automatically.</p>
+            <button className={styles.ghostButton} onClick={onDetach} type="button">
+              Stop autosaving
+            </button>
+          </>
+        ) : (
+          <p>Unsaved. Save this dialogue to resume it after a refresh.</p>
+        )}
+        <div className={styles.createRow}>
+          <input
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            placeholder="Session title"
+          />
+          <button className={styles.primaryButton} onClick={handleCreate} type="button">
+            Save as new
+          </button>
+        </div>
+      </div>
+
+      <div className={styles.sessionCard}>
+        <header className={styles.listHeader}>
+          <strong>Saved sessions</strong>
+          <button className={styles.ghostButton} onClick={onRefresh} type="button">
+            Refresh
+          </button>
+        </header>
+        {sessions.length === 0 && <span>No saved sessions yet.</span>}
+        <ul className={styles.sessionList}>
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className={session.id === activeSessionId ? styles.active : undefined}
+            >
+              {renamingId === session.id ? (
+                <input
+                  value={renameValue}
+                  onChange={(event) => setRenameValue(event.target.value)}
+                  onBlur={() => commitRename(session.id)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') commitRename(session.id);
+                    if (event.key === 'Escape') setRenamingId(null);
+                  }}
+                  aria-label="Session title"
+                />
+              ) : (
+                <span className={styles.sessionTitle}>{session.title}</span>
+              )}
+              <span className={styles.sessionMeta}>
+                Updated {new Date(session.updatedAt).toLocaleString()}
+              </span>
+              <div className={styles.sessionActions}>
+                <button onClick={() => onLoad(session.id)} type="button">
+                  Load
+                </button>
+                <button
+                  onClick={() => {
+                    setRenamingId(session.id);
+                    setRenameValue(session.title);
+                  }}
+                  type="button"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Delete session "${session.title}"?`)) {
+                      onDelete(session.id);
+                    }
+                  }}
+                  type="button"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </>
+  );
+};
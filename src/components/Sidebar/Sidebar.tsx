@@ -1,7 +1,26 @@
 import { useState } from 'react';
-import type { Philosopher } from '../../types';
+import type {
+  Phase,
+  Philosopher,
+  ResponseTask,
+  SessionSummary,
+  TranslationLanguage,
+  VisibilityPolicy,
+} from '../../types';
+import { PHASE_LABELS, PHASE_SEQUENCE } from '../../lib/phases';
+import type { AgentRegistration } from '../../lib/a2a';
+import { TRANSLATION_LANGUAGES, TRANSLATION_LANGUAGE_LABELS } from '../../lib/translation';
+import { VISIBILITY_LABELS, VISIBILITY_POLICIES } from '../../lib/visibility';
+import { SCHEDULERS, SCHEDULER_IDS, type SchedulerId } from '../../lib/scheduler';
+import type { GuardSettings } from '../../lib/guard';
+import type { BroadcastSettings } from '../../lib/broadcast';
+import { describeLLMChoice } from '../../lib/models';
 import { AddParticipantCard } from './AddParticipantCard';
+import { GuardSettingsCard } from './GuardSettingsCard';
+import { InviteAgentCard } from './InviteAgentCard';
 import { PhilosopherEditor } from './PhilosopherEditor';
+import { QueuePanel } from './QueuePanel';
+import { SessionPanel } from './SessionPanel';
 import styles from './Sidebar.module.css';
 
 interface SidebarProps {
@@ -15,8 +34,47 @@ interface SidebarProps {
   eventFeed: string[];
   queueDepths: Record<string, number>;
   queueOrder: string[];
+  pendingTasks: Record<string, ResponseTask[]>;
+  pinnedSpeaker: string | null;
+  onReorderQueue: (philosopherId: string, index: number) => void;
+  onRemoveFromQueue: (philosopherId: string) => void;
+  onSplitTask: (philosopherId: string, taskId: string) => void;
+  onMergeBatches: (philosopherId: string) => void;
+  onPinSpeaker: (philosopherId: string | null) => void;
+  phase: Phase;
+  onAdvancePhase: () => void;
+  onRollbackPhase: () => void;
+  autoAdvancePhase: boolean;
+  onToggleAutoAdvancePhase: (value: boolean) => void;
   onAddPhilosopher: (philosopher: Philosopher) => void;
   onUpdatePhilosopher?: (philosopher: Philosopher) => void;
+  sessions: SessionSummary[];
+  activeSessionId: string | null;
+  onCreateSession: (title: string) => void;
+  onLoadSession: (id: string) => void;
+  onRenameSession: (id: string, title: string) => void;
+  onDeleteSession: (id: string) => void;
+  onDetachSession: () => void;
+  onRefreshSessions: () => void;
+  agentStatuses: Record<string, AgentRegistration>;
+  displayLanguage: TranslationLanguage;
+  onDisplayLanguageChange: (language: TranslationLanguage) => void;
+  autoTranslate: boolean;
+  onToggleAutoTranslate: (value: boolean) => void;
+  visibilityPolicy: VisibilityPolicy;
+  onVisibilityPolicyChange: (policy: VisibilityPolicy) => void;
+  schedulerId: SchedulerId;
+  onSchedulerChange: (id: SchedulerId) => void;
+  /** Latest urgency bids per philosopher (bidding scheduler). */
+  bids: Record<string, number>;
+  /** Set when the moderator picks the next speaker. */
+  onPickNextSpeaker?: (philosopherId: string) => void;
+  guardSettings: GuardSettings;
+  onGuardSettingsChange: (settings: GuardSettings) => void;
+  approvalMode: boolean;
+  onToggleApprovalMode: (value: boolean) => void;
+  broadcastSettings: BroadcastSettings;
+  onBroadcastSettingsChange: (settings: BroadcastSettings) => void;
 }
 
 export const Sidebar = ({
@@ -30,11 +88,51 @@ export const Sidebar = ({
   eventFeed,
   queueDepths,
   queueOrder,
+  pendingTasks,
+  pinnedSpeaker,
+  onReorderQueue,
+  onRemoveFromQueue,
+  onSplitTask,
+  onMergeBatches,
+  onPinSpeaker,
+  phase,
+  onAdvancePhase,
+  onRollbackPhase,
+  autoAdvancePhase,
+  onToggleAutoAdvancePhase,
   onAddPhilosopher,
   onUpdatePhilosopher,
+  sessions,
+  activeSessionId,
+  onCreateSession,
+  onLoadSession,
+  onRenameSession,
+  onDeleteSession,
+  onDetachSession,
+  onRefreshSessions,
+  agentStatuses,
+  displayLanguage,
+  onDisplayLanguageChange,
+  autoTranslate,
+  onToggleAutoTranslate,
+  visibilityPolicy,
+  onVisibilityPolicyChange,
+  schedulerId,
+  onSchedulerChange,
+  bids,
+  onPickNextSpeaker,
+  guardSettings,
+  onGuardSettingsChange,
+  approvalMode,
+  onToggleApprovalMode,
+  broadcastSettings,
+  onBroadcastSettingsChange,
 }: SidebarProps) => {
-  const [activeTab, setActiveTab] = useState<'roster' | 'controls' | 'events'>('roster');
+  const [activeTab, setActiveTab] = useState<'roster' | 'controls' | 'events' | 'sessions'>(
+    'roster',
+  );
   const [editingPhilosopher, setEditingPhilosopher] = useState<Philosopher | null>(null);
+  const phaseIndex = PHASE_SEQUENCE.indexOf(phase);
   const selected = philosophers.filter((philosopher) =>
     activeIds.includes(philosopher.id),
   );
@@ -63,6 +161,13 @@ export const Sidebar = ({
         >
           Events
         </button>
+        <button
+          className={activeTab === 'sessions' ? styles.active : ''}
+          onClick={() => setActiveTab('sessions')}
+          type="button"
+        >
+          Sessions
+        </button>
       </div>
 
       <div className={styles.tabPanel}>
@@ -99,6 +204,21 @@ export const Sidebar = ({
                     <span className={styles.rosterPort}>
                       {philosopher.school} · port {philosopher.port}
                     </span>
+                    {!philosopher.remoteAgent && philosopher.llm && (
+                      <span className={styles.rosterPort}>
+                        {describeLLMChoice(philosopher.llm)}
+                      </span>
+                    )}
+                    {philosopher.remoteAgent ? (
+                      <span
+                        className={`${styles.agentChip} ${styles.running}`}
+                        title={`External A2A agent at ${philosopher.remoteAgent.url}`}
+                      >
+                        remote
+                      </span>
+                    ) : (
+                      <AgentChip registration={agentStatuses[philosopher.id]} />
+                    )}
                     <span
                       className={`${styles.queueChip} ${queueDepths[philosopher.id] ? styles.active : ''}`}
                     >
@@ -119,30 +239,20 @@ export const Sidebar = ({
               </div>
             ))}
 
-            {queueOrder.length > 0 && (
-              <div className={styles.card}>
-                <header>
-                  <span>🎤 Speaking Order</span>
-                </header>
-                <div className={styles.queueOrderList}>
-                  {queueOrder.map((philosopherId, index) => {
-                    const philosopher = philosophers.find((p) => p.id === philosopherId);
-                    if (!philosopher) return null;
-                    return (
-                      <div key={philosopherId} className={styles.queueOrderItem}>
-                        <span className={styles.queuePosition}>{index + 1}</span>
-                        <span className={styles.queuePhilosopherName}>{philosopher.name}</span>
-                        {(queueDepths[philosopherId] ?? 0) > 0 && (
-                          <span className={styles.queueMessageCount}>
-                            {queueDepths[philosopherId]} msg{(queueDepths[philosopherId] ?? 0) > 1 ? 's' : ''}
-                          </span>
-                        )}
-                      </div>
-                    );
-                  })}
-                </div>
-              </div>
-            )}
+            <QueuePanel
+              philosophers={philosophers}
+              queueOrder={queueOrder}
+              pendingTasks={pendingTasks}
+              schedulerId={schedulerId}
+              bids={bids}
+              pinnedSpeaker={pinnedSpeaker}
+              onReorder={onReorderQueue}
+              onRemove={onRemoveFromQueue}
+              onSplitTask={onSplitTask}
+              onMergeBatches={onMergeBatches}
+              onPin={onPinSpeaker}
+              onPickNextSpeaker={onPickNextSpeaker}
+            />
           </>
         )}
 
@@ -160,6 +270,51 @@ export const Sidebar = ({
               <p>Define the central question or theme for this philosophical dialogue.</p>
             </div>
 
+            <div className={styles.card}>
+              <strong>Dialogue Phase</strong>
+              <div className={styles.phaseTrack}>
+                {PHASE_SEQUENCE.map((entry, index) => (
+                  <span
+                    key={entry}
+                    className={`${styles.phaseStep} ${entry === phase ? styles.active : ''} ${index < phaseIndex ? styles.completed : ''}`}
+                  >
+                    {PHASE_LABELS[entry]}
+                  </span>
+                ))}
+              </div>
+              <div className={styles.toggleBar}>
+                <button
+                  className={styles.pill}
+                  onClick={onRollbackPhase}
+                  disabled={phaseIndex <= 0}
+                  type="button"
+                >
+                  ← Roll back
+                </button>
+                <button
+                  className={styles.pill}
+                  onClick={onAdvancePhase}
+                  disabled={phaseIndex >= PHASE_SEQUENCE.length - 1}
+                  type="button"
+                >
+                  Advance →
+                </button>
+              </div>
+              <div className={styles.toggleBar}>
+                <button
+                  className={`${styles.pill} ${autoAdvancePhase ? styles.active : ''}`}
+                  onClick={() => onToggleAutoAdvancePhase(!autoAdvancePhase)}
+                  type="button"
+                >
+                  Auto-advance {autoAdvancePhase ? 'on' : 'off'}
+                </button>
+              </div>
+              <p>
+                Each phase adds its own directive to every prompt. With auto-advance on, the
+                council moves on once every active philosopher has spoken in this phase.
+              </p>
+            </div>
+
             <div className={styles.card}>
               <strong>Insights Visibility</strong>
               <div className={styles.toggleBar}>
@@ -184,10 +339,149 @@ export const Sidebar = ({
               </p>
             </div>
 
+            <div className={styles.card}>
+              <strong>Turn-taking</strong>
+              <div className={styles.toggleBar}>
+                {SCHEDULER_IDS.map((id) => (
+                  <button
+                    key={id}
+                    className={`${styles.pill} ${schedulerId === id ? styles.active : ''}`}
+                    onClick={() => onSchedulerChange(id)}
+                    type="button"
+                  >
+                    {SCHEDULERS[id].label}
+                  </button>
+                ))}
+              </div>
+              <p>{SCHEDULERS[schedulerId].description}</p>
+            </div>
+
+            <div className={styles.card}>
+              <strong>Parallel Broadcasts</strong>
+              <div className={styles.toggleBar}>
+                <button
+                  className={`${styles.pill} ${broadcastSettings.parallel ? styles.active : ''}`}
+                  onClick={() =>
+                    onBroadcastSettingsChange({
+                      ...broadcastSettings,
+                      parallel: !broadcastSettings.parallel,
+                    })
+                  }
+                  type="button"
+                >
+                  Parallel {broadcastSettings.parallel ? 'on' : 'off'}
+                </button>
+                <label className={styles.concurrencyLimit}>
+                  Up to
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={broadcastSettings.concurrency}
+                    onChange={(event) => {
+                      const value = Math.floor(Number(event.target.value));
+                      if (value >= 1) {
+                        onBroadcastSettingsChange({
+                          ...broadcastSettings,
+                          concurrency: value,
+                        });
+                      }
+                    }}
+                  />
+                  at once
+                </label>
+              </div>
+              <p>
+                Prompts to the whole council are answered by several philosophers at once,
+                all from the same context. Replies are added in addressee order when the
+                last one finishes, and follow-ups are routed only then.
+              </p>
+            </div>
+
+            <GuardSettingsCard
+              settings={guardSettings}
+              onChange={onGuardSettingsChange}
+            />
+
+            <div className={styles.card}>
+              <strong>Moderator Approval</strong>
+              <div className={styles.toggleBar}>
+                <button
+                  className={`${styles.pill} ${approvalMode ? styles.active : ''}`}
+                  onClick={() => onToggleApprovalMode(!approvalMode)}
+                  type="button"
+                >
+                  Approval mode {approvalMode ? 'on' : 'off'}
+                </button>
+              </div>
+              <p>
+                With approval mode on, finished replies wait in a review tray above the
+                composer. Edit the text or its addressees, then approve, reject or
+                regenerate. Only approved replies enter memory and reach other
+                philosophers.
+              </p>
+            </div>
+
+            <div className={styles.card}>
+              <strong>Visibility</strong>
+              <div className={styles.toggleBar}>
+                {VISIBILITY_POLICIES.map((policy) => (
+                  <button
+                    key={policy}
+                    className={`${styles.pill} ${visibilityPolicy === policy ? styles.active : ''}`}
+                    onClick={() => onVisibilityPolicyChange(policy)}
+                    type="button"
+                  >
+                    {VISIBILITY_LABELS[policy]}
+                  </button>
+                ))}
+              </div>
+              <p>
+                In a public council every philosopher overhears every message as ambient
+                context; addressed-only delivers messages to their recipients. Whispers
+                from the composer or a philosopher always stay private.
+              </p>
+            </div>
+
+            <div className={styles.card}>
+              <strong>Language</strong>
+              <div className={styles.toggleBar}>
+                {TRANSLATION_LANGUAGES.map((language) => (
+                  <button
+                    key={language}
+                    className={`${styles.pill} ${displayLanguage === language ? styles.active : ''}`}
+                    onClick={() => onDisplayLanguageChange(language)}
+                    type="button"
+                  >
+                    {TRANSLATION_LANGUAGE_LABELS[language]}
+                  </button>
+                ))}
+              </div>
+              <div className={styles.toggleBar}>
+                <button
+                  className={`${styles.pill} ${autoTranslate ? styles.active : ''}`}
+                  onClick={() => onToggleAutoTranslate(!autoTranslate)}
+                  type="button"
+                >
+                  Auto-translate {autoTranslate ? 'on' : 'off'}
+                </button>
+              </div>
+              <p>
+                Show replies in English, modern Chinese or Classical Chinese. Untranslated
+                replies offer a Translate button; with auto-translate on, every new reply
+                is translated into both.
+              </p>
+            </div>
+
             <AddParticipantCard
               onAdd={onAddPhilosopher}
               existingIds={new Set(philosophers.map((philosopher) => philosopher.id))}
             />
+
+            <InviteAgentCard
+              onAdd={onAddPhilosopher}
+              existingIds={new Set(philosophers.map((philosopher) => philosopher.id))}
+            />
           </>
         )}
 
@@ -202,6 +496,19 @@ export const Sidebar = ({
             </div>
           </div>
         )}
+
+        {activeTab === 'sessions' && (
+          <SessionPanel
+            sessions={sessions}
+            activeSessionId={activeSessionId}
+            onCreate={onCreateSession}
+            onLoad={onLoadSession}
+            onRename={onRenameSession}
+            onDelete={onDeleteSession}
+            onDetach={onDetachSession}
+            onRefresh={onRefreshSessions}
+          />
+        )}
       </div>
 
       {editingPhilosopher && onUpdatePhilosopher && (
@@ -217,3 +524,25 @@ export const Sidebar = ({
     </aside>
   );
 };
+
+const AgentChip = ({ registration }: { registration?: AgentRegistration }) => {
+  if (!registration) {
+    return (
+      <span className={styles.agentChip} title="Agent not registered; turns use the shared proxy">
+        proxy
+      </span>
+    );
+  }
+  return registration.status === 'running' ? (
+    <span
+      className={`${styles.agentChip} ${styles.running}`}
+      title={`A2A agent at ${registration.url ?? `port ${registration.port}`}`}
+    >
+      A2A
+    </span>
+  ) : (
+    <span className={`${styles.agentChip} ${styles.failed}`} title={registration.error}>
+      A2A failed
+    </span>
+  );
+};
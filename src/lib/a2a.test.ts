@@ -0,0 +1,149 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  resolveAgentCardUrl,
+  sendTaskToAgent,
+  streamTaskFromAgent,
+  validateAgentCard,
+} from './a2a';
+
+const sseResponse = (results: unknown[]) =>
+  new Response(
+    results
+      .map((result) => `data: ${JSON.stringify({ jsonrpc: '2.0', id: 1, result })}\n\n`)
+      .join(''),
+    { headers: { 'Content-Type': 'text/event-stream' } },
+  );
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('streamTaskFromAgent', () => {
+  it('should aggregate artifact chunks until the final status', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      sseResponse([
+        { id: 't1', status: { state: 'working' }, final: false },
+        { id: 't1', artifact: { append: true, parts: [{ type: 'text', text: 'Ren ' }] } },
+        {
+          id: 't1',
+          artifact: { append: true, parts: [{ type: 'text', text: 'first.' }] },
+        },
+        { id: 't1', status: { state: 'completed' }, final: true },
+      ]),
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const tokens: string[] = [];
+
+    const response = await streamTaskFromAgent(
+      'http://localhost:8001',
+      { taskId: 't1', text: 'Speak.' },
+      { onToken: (token) => tokens.push(token) },
+    );
+
+    expect(response.content).toBe('Ren first.');
+    expect(tokens).toEqual(['Ren ', 'first.']);
+    const body = JSON.parse(fetchMock.mock.calls[0]![1].body as string);
+    expect(body.method).toBe('tasks/sendSubscribe');
+    expect(body.params.message.parts[0].text).toBe('Speak.');
+  });
+
+  it('should reject when the task fails', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        sseResponse([
+          {
+            id: 't1',
+            status: {
+              state: 'failed',
+              message: { role: 'agent', parts: [{ type: 'text', text: 'boom' }] },
+            },
+            final: true,
+          },
+        ]),
+      ),
+    );
+
+    await expect(
+      streamTaskFromAgent('http://localhost:8001', { taskId: 't1', text: 'Speak.' }),
+    ).rejects.toThrow('Agent task failed: boom');
+  });
+});
+
+describe('sendTaskToAgent', () => {
+  it('should return the completed artifact text', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        Response.json({
+          jsonrpc: '2.0',
+          id: 't1',
+          result: {
+            id: 't1',
+            status: { state: 'completed' },
+            artifacts: [{ index: 0, parts: [{ type: 'text', text: 'Wu wei.' }] }],
+          },
+        }),
+      ),
+    );
+
+    const response = await sendTaskToAgent('http://localhost:8002', {
+      taskId: 't1',
+      text: 'Hi',
+    });
+
+    expect(response.content).toBe('Wu wei.');
+  });
+});
+
+describe('resolveAgentCardUrl', () => {
+  it('should append the well-known path to a base URL', () => {
+    expect(resolveAgentCardUrl('http://localhost:9100/')).toBe(
+      'http://localhost:9100/.well-known/agent.json',
+    );
+    expect(resolveAgentCardUrl('https://agents.example.com/sage')).toBe(
+      'https://agents.example.com/sage/.well-known/agent.json',
+    );
+  });
+
+  it('should keep an explicit card URL and reject other protocols', () => {
+    expect(resolveAgentCardUrl('http://localhost:9100/card.json')).toBe(
+      'http://localhost:9100/card.json',
+    );
+    expect(() => resolveAgentCardUrl('ftp://localhost/agent')).toThrow('http or https');
+  });
+});
+
+describe('validateAgentCard', () => {
+  const card = {
+    name: ' Gongsun Long ',
+    url: '/rpc',
+    version: '1.0.0',
+    capabilities: { streaming: true },
+    skills: [],
+  };
+  const cardUrl = 'http://localhost:9100/.well-known/agent.json';
+
+  it('should trim the name and resolve a relative endpoint URL', () => {
+    const validated = validateAgentCard(card, cardUrl);
+
+    expect(validated.name).toBe('Gongsun Long');
+    expect(validated.url).toBe('http://localhost:9100/rpc');
+  });
+
+  it('should reject cards missing required fields', () => {
+    expect(() => validateAgentCard([], cardUrl)).toThrow('JSON object');
+    expect(() => validateAgentCard({ ...card, url: undefined }, cardUrl)).toThrow(
+      '"url"',
+    );
+    expect(() => validateAgentCard({ ...card, skills: undefined }, cardUrl)).toThrow(
+      '"skills"',
+    );
+  });
+
+  it('should reject agents that do not accept text', () => {
+    expect(() =>
+      validateAgentCard({ ...card, defaultInputModes: ['image/png'] }, cardUrl),
+    ).toThrow('text input');
+  });
+});
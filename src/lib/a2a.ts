@@ -0,0 +1,289 @@
+/**
+ * A2A Client
+ *
+ * Minimal Agent-to-Agent protocol client used to route philosopher turns to the
+ * per-philosopher agent servers the backend starts on each `Philosopher.port`,
+ * and to external agents invited into the council by agent-card URL.
+ */
+
+import { readEventStream, type ClaudeMessageResponse, type StreamHandlers } from './api';
+
+export type A2ATextPart = { type: 'text'; text: string };
+
+export type A2AMessage = {
+  role: 'user' | 'agent';
+  parts: A2ATextPart[];
+};
+
+export type A2ATaskState =
+  | 'submitted'
+  | 'working'
+  | 'input-required'
+  | 'completed'
+  | 'canceled'
+  | 'failed'
+  | 'unknown';
+
+export type A2ATaskStatus = {
+  state: A2ATaskState;
+  message?: A2AMessage;
+  timestamp?: string;
+};
+
+export type A2AAgentCard = {
+  name: string;
+  description?: string;
+  url: string;
+  version: string;
+  protocolVersion?: string;
+  provider?: { organization: string; url?: string };
+  capabilities: { streaming?: boolean; pushNotifications?: boolean };
+  defaultInputModes?: string[];
+  defaultOutputModes?: string[];
+  skills: Array<{ id: string; name: string; description?: string; tags?: string[] }>;
+};
+
+/** Status of one agent server as reported by `PUT /api/agents`. */
+export type AgentRegistration = {
+  id: string;
+  port: number;
+  status: 'running' | 'failed';
+  url?: string;
+  card?: A2AAgentCard;
+  error?: string;
+};
+
+type JsonRpcResponse<T> = {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: T;
+  error?: { code: number; message: string };
+};
+
+type TaskStreamEvent = {
+  id: string;
+  status?: A2ATaskStatus;
+  artifact?: { index?: number; append?: boolean; parts: A2ATextPart[] };
+  final?: boolean;
+  /** Built-in agents report the provider and model that answered here. */
+  metadata?: Record<string, unknown>;
+};
+
+type Task = {
+  id: string;
+  status: A2ATaskStatus;
+  artifacts?: Array<{ index?: number; parts: A2ATextPart[] }>;
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * Agent servers listen on the philosopher's port on the same host as the
+ * backend, which in development is the host serving the UI.
+ */
+export const agentUrlForPort = (port: number): string => {
+  const hostname =
+    typeof window === 'undefined' ? 'localhost' : window.location.hostname || 'localhost';
+  return `http://${hostname}:${port}`;
+};
+
+const textOf = (parts: readonly A2ATextPart[] | undefined) =>
+  (parts ?? [])
+    .filter((part) => part.type === 'text')
+    .map((part) => part.text)
+    .join('');
+
+const userMessage = (text: string): A2AMessage => ({
+  role: 'user',
+  parts: [{ type: 'text', text }],
+});
+
+const failureMessage = (status: A2ATaskStatus) =>
+  `Agent task ${status.state}: ${textOf(status.message?.parts) || 'no details'}`;
+
+async function postRpc(
+  agentUrl: string,
+  method: string,
+  params: Record<string, unknown>,
+  signal?: AbortSignal,
+): Promise<Response> {
+  const response = await fetch(agentUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: params.id ?? Date.now(), method, params }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Agent error ${response.status}: ${text}`);
+  }
+  return response;
+}
+
+export const AGENT_CARD_PATH = '/.well-known/agent.json';
+
+/**
+ * Accepts either an agent's base URL or the full agent-card URL and returns the
+ * agent-card URL.
+ */
+export const resolveAgentCardUrl = (input: string): string => {
+  const url = new URL(input.trim());
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Agent URL must use http or https');
+  }
+  if (url.pathname.endsWith('.json')) return url.toString();
+  url.pathname = `${url.pathname.replace(/\/+$/, '')}${AGENT_CARD_PATH}`;
+  return url.toString();
+};
+
+/**
+ * Checks the fields this client relies on and returns a normalized card.
+ * Throws with a readable reason when the document is not a usable agent card.
+ *
+ * @param value - Parsed JSON from the agent-card URL
+ * @param cardUrl - Where the card was fetched from; relative `url`s resolve against it
+ */
+export const validateAgentCard = (value: unknown, cardUrl: string): A2AAgentCard => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('Agent card must be a JSON object');
+  }
+  const card = value as Partial<A2AAgentCard>;
+  if (typeof card.name !== 'string' || !card.name.trim()) {
+    throw new Error('Agent card is missing "name"');
+  }
+  if (typeof card.url !== 'string' || !card.url.trim()) {
+    throw new Error('Agent card is missing "url"');
+  }
+  let endpoint: URL;
+  try {
+    endpoint = new URL(card.url, cardUrl);
+  } catch {
+    throw new Error(`Agent card has an invalid "url": ${card.url}`);
+  }
+  if (typeof card.version !== 'string') {
+    throw new Error('Agent card is missing "version"');
+  }
+  if (!card.capabilities || typeof card.capabilities !== 'object') {
+    throw new Error('Agent card is missing "capabilities"');
+  }
+  if (!Array.isArray(card.skills)) {
+    throw new Error('Agent card is missing "skills"');
+  }
+  const inputModes = card.defaultInputModes ?? ['text'];
+  if (!inputModes.some((mode) => mode === 'text' || mode.startsWith('text/'))) {
+    throw new Error('Agent does not accept text input');
+  }
+
+  return {
+    ...card,
+    name: card.name.trim(),
+    url: endpoint.toString(),
+    version: card.version,
+    capabilities: card.capabilities,
+    skills: card.skills,
+  };
+};
+
+export async function fetchAgentCard(input: string): Promise<A2AAgentCard> {
+  const cardUrl = resolveAgentCardUrl(input);
+  const response = await fetch(cardUrl);
+  if (!response.ok) {
+    throw new Error(`Agent card unavailable (${response.status})`);
+  }
+  let json: unknown;
+  try {
+    json = await response.json();
+  } catch {
+    throw new Error('Agent card is not valid JSON');
+  }
+  return validateAgentCard(json, cardUrl);
+}
+
+/**
+ * Sends a task with `tasks/send` and waits for the completed reply.
+ */
+export async function sendTaskToAgent(
+  agentUrl: string,
+  { taskId, text }: { taskId: string; text: string },
+  { signal }: Pick<StreamHandlers, 'signal'> = {},
+): Promise<ClaudeMessageResponse> {
+  const response = await postRpc(
+    agentUrl,
+    'tasks/send',
+    { id: taskId, message: userMessage(text) },
+    signal,
+  );
+  const payload = (await response.json()) as JsonRpcResponse<Task>;
+  if (payload.error) {
+    throw new Error(`Agent error ${payload.error.code}: ${payload.error.message}`);
+  }
+  const task = payload.result;
+  if (!task || task.status.state !== 'completed') {
+    throw new Error(task ? failureMessage(task.status) : 'Agent returned no task');
+  }
+  return {
+    content: textOf(task.artifacts?.[0]?.parts) || textOf(task.status.message?.parts),
+    metadata: { ...task.metadata, agentUrl, taskId: task.id },
+  };
+}
+
+/**
+ * Sends a task with `tasks/sendSubscribe`, invoking `onToken` for every streamed
+ * artifact chunk. Resolves with the aggregated content once the final status
+ * update arrives.
+ */
+export async function streamTaskFromAgent(
+  agentUrl: string,
+  { taskId, text }: { taskId: string; text: string },
+  { onToken, signal }: StreamHandlers = {},
+): Promise<ClaudeMessageResponse> {
+  const response = await postRpc(
+    agentUrl,
+    'tasks/sendSubscribe',
+    { id: taskId, message: userMessage(text) },
+    signal,
+  );
+
+  // Invalid params are answered with a plain JSON-RPC error instead of a stream
+  if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    const payload = (await response.json()) as JsonRpcResponse<Task>;
+    throw new Error(
+      payload.error
+        ? `Agent error ${payload.error.code}: ${payload.error.message}`
+        : 'Agent did not open a stream',
+    );
+  }
+
+  let content = '';
+  let finalStatus: A2ATaskStatus | undefined;
+  let finalMetadata: Record<string, unknown> | undefined;
+
+  await readEventStream(response, (data) => {
+    const payload = JSON.parse(data) as JsonRpcResponse<TaskStreamEvent>;
+    if (payload.error) {
+      throw new Error(`Agent error ${payload.error.code}: ${payload.error.message}`);
+    }
+    const event = payload.result;
+    if (!event) return false;
+
+    const chunk = textOf(event.artifact?.parts);
+    if (chunk) {
+      content = event.artifact?.append === false ? chunk : content + chunk;
+      onToken?.(chunk, content);
+    }
+    if (event.final) {
+      finalStatus = event.status;
+      finalMetadata = event.metadata;
+      return true;
+    }
+    return false;
+  });
+
+  if (!finalStatus) {
+    throw new Error('Agent stream ended before the task finished');
+  }
+  if (finalStatus.state !== 'completed') {
+    throw new Error(failureMessage(finalStatus));
+  }
+  return { content, metadata: { ...finalMetadata, agentUrl, taskId } };
+}
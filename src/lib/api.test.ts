@@ -0,0 +1,54 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { streamMessageFromBackend } from './api';
+
+const sseResponse = (events: string[]) =>
+  new Response(events.map((data) => `data: ${data}\n\n`).join(''), {
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('streamMessageFromBackend', () => {
+  it('should aggregate deltas and metadata until [DONE]', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValue(
+          sseResponse([
+            JSON.stringify({ delta: { text: 'Ren ' } }),
+            JSON.stringify({ delta: { text: 'first.' } }),
+            JSON.stringify({ metadata: { providerKey: 'mock' } }),
+            '[DONE]',
+          ]),
+        ),
+    );
+    const tokens: string[] = [];
+
+    const response = await streamMessageFromBackend(
+      { messages: [{ role: 'user', content: 'Speak.' }] },
+      { onToken: (token) => tokens.push(token) },
+    );
+
+    expect(response).toEqual({
+      content: 'Ren first.',
+      metadata: { providerKey: 'mock' },
+    });
+    expect(tokens).toEqual(['Ren ', 'first.']);
+  });
+
+  it('should reject a stream that ends before [DONE]', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValue(sseResponse([JSON.stringify({ delta: { text: 'Ren ' } })])),
+    );
+
+    await expect(
+      streamMessageFromBackend({ messages: [{ role: 'user', content: 'Speak.' }] }),
+    ).rejects.toThrow('Backend stream ended before [DONE]');
+  });
+});
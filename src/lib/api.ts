@@ -1,3 +1,15 @@
+import type {
+  LLMChoice,
+  Philosopher,
+  QuoteData,
+  QuoteVerification,
+  SessionSummary,
+  TranslationEvent,
+} from '../types';
+import type { AgentRegistration } from './a2a';
+import { normalizeLLMChoice } from './models';
+import type { SessionRecord, SessionState } from './sessions';
+
 export type ClaudeMessagePayload = {
   messages: Array<{ role: 'user' | 'assistant' | 'system'; content: string }>;
   options?: Record<string, unknown>;
@@ -8,8 +20,14 @@ export type ClaudeMessageResponse = {
   metadata?: Record<string, unknown>;
 };
 
+export type RequestOptions = {
+  /** Aborting the signal cancels the fetch; the backend then stops the provider. */
+  signal?: AbortSignal;
+};
+
 export async function sendMessageToBackend(
   payload: ClaudeMessagePayload,
+  { signal }: RequestOptions = {},
 ): Promise<ClaudeMessageResponse> {
   const response = await fetch('/api/message', {
     method: 'POST',
@@ -17,6 +35,7 @@ export async function sendMessageToBackend(
       'Content-Type': 'application/json',
     },
     body: JSON.stringify(payload),
+    signal,
   });
 
   if (!response.ok) {
@@ -27,6 +46,255 @@ export async function sendMessageToBackend(
   return (await response.json()) as ClaudeMessageResponse;
 }
 
+export type StreamHandlers = RequestOptions & {
+  onToken?: (token: string, aggregate: string) => void;
+};
+
+/**
+ * Streams a reply from `/api/stream`, invoking `onToken` for every `delta.text`
+ * server-sent event. Resolves with the aggregated content, and the `metadata`
+ * event naming the provider and model that answered, once `[DONE]` arrives;
+ * rejects if the stream ends without it.
+ */
+export async function streamMessageFromBackend(
+  payload: ClaudeMessagePayload,
+  { onToken, signal }: StreamHandlers = {},
+): Promise<ClaudeMessageResponse> {
+  const response = await fetch('/api/stream', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+    signal,
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Backend error ${response.status}: ${text}`);
+  }
+
+  let content = '';
+  let metadata: Record<string, unknown> | undefined;
+  let finished = false;
+  await readEventStream(response, (data) => {
+    if (data === '[DONE]') {
+      finished = true;
+      return true;
+    }
+
+    const event = JSON.parse(data) as {
+      delta?: { text?: unknown };
+      metadata?: Record<string, unknown>;
+      error?: string;
+    };
+    if (event.error) {
+      throw new Error(`Backend stream error: ${event.error}`);
+    }
+    if (event.metadata) {
+      metadata = event.metadata;
+    }
+    const text = event.delta?.text;
+    if (typeof text === 'string' && text.length > 0) {
+      content += text;
+      onToken?.(text, content);
+    }
+    return false;
+  });
+
+  // A dropped connection must not pass for a complete (but truncated) reply
+  if (!finished) {
+    throw new Error('Backend stream ended before [DONE]');
+  }
+  return { content, metadata };
+}
+
+/**
+ * Reads a server-sent event stream, passing each event's `data` payload to
+ * `onData`. Stops early once `onData` returns true.
+ */
+export async function readEventStream(
+  response: Response,
+  onData: (data: string) => boolean,
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Backend stream unavailable: response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      const data = rawEvent
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (!data) continue;
+      if (onData(data)) {
+        await reader.cancel();
+        return;
+      }
+    }
+  }
+}
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException
+    ? error.name === 'AbortError'
+    : error instanceof Error && error.name === 'AbortError';
+
+async function requestJson<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Backend error ${response.status}: ${text}`);
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  return (await response.json()) as T;
+}
+
+export async function listSessions(): Promise<SessionSummary[]> {
+  const { sessions } = await requestJson<{ sessions: SessionSummary[] }>('/api/sessions');
+  return sessions;
+}
+
+export async function createSession(title: string, state: SessionState): Promise<SessionRecord> {
+  const { session } = await requestJson<{ session: SessionRecord }>('/api/sessions', {
+    method: 'POST',
+    body: JSON.stringify({ title, state }),
+  });
+  return session;
+}
+
+export async function loadSession(id: string): Promise<SessionRecord> {
+  const { session } = await requestJson<{ session: SessionRecord }>(
+    `/api/sessions/${encodeURIComponent(id)}`,
+  );
+  return session;
+}
+
+export async function saveSession(id: string, state: SessionState): Promise<SessionRecord> {
+  const { session } = await requestJson<{ session: SessionRecord }>(
+    `/api/sessions/${encodeURIComponent(id)}`,
+    { method: 'PUT', body: JSON.stringify({ state }) },
+  );
+  return session;
+}
+
+export async function renameSession(id: string, title: string): Promise<SessionRecord> {
+  const { session } = await requestJson<{ session: SessionRecord }>(
+    `/api/sessions/${encodeURIComponent(id)}`,
+    { method: 'PATCH', body: JSON.stringify({ title }) },
+  );
+  return session;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await requestJson<void>(`/api/sessions/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export type QuotePassage = {
+  id: string;
+  work: string;
+  chineseTitle: string;
+  philosopher: string;
+  chapter: string;
+  section: string;
+  chinese: string;
+  english: string;
+  source: string;
+  score: number;
+};
+
+export async function searchQuotes(
+  { philosopher, query, limit = 3 }: { philosopher?: string; query: string; limit?: number },
+  { signal }: RequestOptions = {},
+): Promise<QuotePassage[]> {
+  const params = new URLSearchParams({ q: query, limit: String(limit) });
+  if (philosopher) params.set('philosopher', philosopher);
+  const { results } = await requestJson<{ results: QuotePassage[] }>(
+    `/api/quotes/search?${params.toString()}`,
+    { signal },
+  );
+  return results;
+}
+
+/**
+ * Checks a quote returned by the model against the bundled corpus.
+ */
+export async function verifyQuote(
+  { chinese, english, source }: QuoteData,
+  { signal }: RequestOptions = {},
+): Promise<QuoteVerification> {
+  return requestJson<QuoteVerification>('/api/quotes/verify', {
+    method: 'POST',
+    body: JSON.stringify({ chinese, english, source }),
+    signal,
+  });
+}
+
+/**
+ * Translates a reply into modern or Classical Chinese via the backend LLM.
+ */
+export async function translateText(
+  {
+    text,
+    language,
+    options,
+  }: { text: string; language: TranslationEvent['language']; options?: LLMChoice },
+  { signal }: RequestOptions = {},
+): Promise<string> {
+  const result = await requestJson<{ language: string; text: string }>('/api/translate', {
+    method: 'POST',
+    body: JSON.stringify({ text, language, options }),
+    signal,
+  });
+  return result.text;
+}
+
+export async function registerAgents(
+  philosophers: readonly Philosopher[],
+): Promise<AgentRegistration[]> {
+  const { agents } = await requestJson<{ agents: AgentRegistration[] }>('/api/agents', {
+    method: 'PUT',
+    body: JSON.stringify({
+      philosophers: philosophers.map(
+        ({ id, name, school, port, personaSummary, llm }) => ({
+          id,
+          name,
+          school,
+          port,
+          personaSummary,
+          llm: normalizeLLMChoice(llm),
+        }),
+      ),
+    }),
+  });
+  return agents;
+}
+
 export async function healthCheck(): Promise<boolean> {
   try {
     const response = await fetch('/health');
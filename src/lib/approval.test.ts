@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { approveDraft, draftAddressees, isDraftEdited } from './approval';
+import type { PendingDraft } from '../types';
+
+const draft: PendingDraft = {
+  message: {
+    id: 'reply-mozi-1',
+    type: 'message',
+    speaker: 'mozi',
+    recipients: ['confucius', 'moderator'],
+    phase: 'introduce',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    surface: 'Impartial care benefits all.',
+    translations: { english: 'Impartial care benefits all.' },
+  },
+  tasks: [],
+};
+
+describe('approveDraft', () => {
+  it('keeps an unedited draft as generated apart from the timestamp', () => {
+    const edits = { surface: draft.message.surface, addressees: draftAddressees(draft) };
+    const approved = approveDraft(draft, edits, '2024-01-01T00:05:00.000Z');
+
+    expect(isDraftEdited(draft, edits)).toBe(false);
+    expect(approved).toEqual({ ...draft.message, timestamp: '2024-01-01T00:05:00.000Z' });
+  });
+
+  it('applies an edited surface and re-routes to the chosen addressees', () => {
+    const edits = {
+      surface: '  Care without distinction.  ',
+      addressees: ['laozi', 'mozi'],
+    };
+    const approved = approveDraft(draft, edits, '2024-01-01T00:05:00.000Z');
+
+    expect(isDraftEdited(draft, edits)).toBe(true);
+    expect(approved.surface).toBe('Care without distinction.');
+    expect(approved.translations).toEqual({ english: 'Care without distinction.' });
+    expect(approved.recipients).toEqual(['laozi', 'moderator']);
+  });
+
+  it('routes to the moderator only when every addressee is removed', () => {
+    const edits = { surface: draft.message.surface, addressees: [] };
+
+    expect(isDraftEdited(draft, edits)).toBe(true);
+    expect(approveDraft(draft, edits, draft.message.timestamp).recipients).toEqual([
+      'moderator',
+    ]);
+  });
+});
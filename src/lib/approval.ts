@@ -0,0 +1,52 @@
+/**
+ * Moderator Approval
+ *
+ * In approval mode a finished reply waits in the review tray instead of being
+ * committed. Only approved drafts reach memory and route on to their
+ * addressees; a rejected draft is discarded, and a regenerated one puts its
+ * tasks back in the queue.
+ */
+
+import type { MessageEvent, PendingDraft } from '../types';
+
+export type DraftEdits = {
+  surface: string;
+  /** Philosophers the reply is routed to; the moderator is always added. */
+  addressees: string[];
+};
+
+/** Philosophers a draft currently addresses, without the moderator. */
+export const draftAddressees = (draft: PendingDraft): string[] =>
+  draft.message.recipients.filter((recipient) => recipient !== 'moderator');
+
+export const isDraftEdited = (draft: PendingDraft, edits: DraftEdits): boolean => {
+  const addressees = draftAddressees(draft);
+  return (
+    edits.surface.trim() !== draft.message.surface ||
+    edits.addressees.length !== addressees.length ||
+    edits.addressees.some((id) => !addressees.includes(id))
+  );
+};
+
+/**
+ * The message committed when a draft is approved. It is stamped with the
+ * approval time so the transcript and memory stay in commit order; an edited
+ * surface replaces the English text.
+ */
+export const approveDraft = (
+  draft: PendingDraft,
+  edits: DraftEdits,
+  timestamp: string,
+): MessageEvent => {
+  const surface = edits.surface.trim();
+  return {
+    ...draft.message,
+    timestamp,
+    surface,
+    recipients: [
+      ...edits.addressees.filter((id) => id !== draft.message.speaker),
+      'moderator',
+    ],
+    translations: { english: surface },
+  };
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { isBroadcast, mapWithConcurrency } from './broadcast';
+import type { MessageEvent } from '../types';
+
+const prompt = (recipients: string[]): MessageEvent => ({
+  id: 'user-1',
+  type: 'message',
+  speaker: 'moderator',
+  recipients,
+  phase: 'introduce',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  surface: 'What is virtue?',
+  translations: { english: 'What is virtue?' },
+});
+
+const council = ['confucius', 'laozi', 'mozi'];
+
+describe('isBroadcast', () => {
+  it('recognises prompts to the whole council', () => {
+    expect(isBroadcast(prompt(['all']), council)).toBe(true);
+    expect(isBroadcast(prompt(['mozi', 'laozi', 'confucius']), council)).toBe(true);
+  });
+
+  it('ignores prompts to part of the council or a single philosopher', () => {
+    expect(isBroadcast(prompt(['confucius', 'laozi']), council)).toBe(false);
+    expect(isBroadcast(prompt(['all']), ['confucius'])).toBe(false);
+  });
+
+  it('judges against the active philosophers when the roster has inactive ones', () => {
+    const roster = [...council, 'mencius', 'xunzi'];
+    const active = roster.filter((id) => council.includes(id));
+
+    expect(isBroadcast(prompt(council), active)).toBe(true);
+    expect(isBroadcast(prompt(council), roster)).toBe(false);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('keeps input order whatever order calls finish in', async () => {
+    const delays = [30, 5, 15, 0];
+    const finished: number[] = [];
+
+    const results = await mapWithConcurrency(delays, 2, async (delay, index) => {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      finished.push(index);
+      return index * 10;
+    });
+
+    expect(results).toEqual([0, 10, 20, 30]);
+    expect(finished).not.toEqual([0, 1, 2, 3]);
+  });
+
+  it('never runs more than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5], 2, async () => {
+      running += 1;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      running -= 1;
+    });
+
+    expect(peak).toBe(2);
+  });
+});
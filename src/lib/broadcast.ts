@@ -0,0 +1,62 @@
+/**
+ * Parallel Broadcasts
+ *
+ * Turns are normally strictly sequential. In parallel mode a moderator prompt
+ * addressed to the whole council is answered by up to `concurrency`
+ * philosophers at once, all reading the same memory snapshot. Replies are
+ * committed in addressee order once every philosopher has answered.
+ */
+
+import type { MessageEvent } from '../types';
+
+export type BroadcastSettings = {
+  parallel: boolean;
+  /** Philosophers answering at the same time. */
+  concurrency: number;
+};
+
+export const DEFAULT_BROADCAST_SETTINGS: BroadcastSettings = {
+  parallel: false,
+  concurrency: 3,
+};
+
+/**
+ * True when a message addresses the whole council (`all`, or every
+ * philosopher other than the speaker) and more than one philosopher would answer.
+ * `participantIds` are the active philosophers, not the whole roster: the
+ * composer addresses only those taking part.
+ */
+export const isBroadcast = (
+  message: MessageEvent,
+  participantIds: readonly string[],
+): boolean => {
+  const addressees = participantIds.filter((id) => id !== message.speaker);
+  if (addressees.length < 2) return false;
+  return (
+    message.recipients.includes('all') ||
+    addressees.every((id) => message.recipients.includes(id))
+  );
+};
+
+/**
+ * Maps `items` through `fn` with at most `limit` calls in flight. Items start
+ * in order and results keep the order of `items`, whatever order they finish in.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await fn(items[index] as T, index);
+    }
+  };
+  const workers = Math.max(1, Math.min(Math.floor(limit), items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+};
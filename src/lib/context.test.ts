@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import type { Philosopher } from '../types';
+import { assembleContextForPhilosopher } from './context';
+import type { MemoryEntry, MemoryState } from './memory';
+
+const confucius: Philosopher = {
+  id: 'confucius',
+  name: 'Confucius',
+  school: 'Confucianism',
+  port: 8001,
+  personaSummary: 'Ritual and benevolence.',
+  personaTemplate: 'You are Confucius.',
+};
+
+const entry = (index: number, recipients: string[]): MemoryEntry => ({
+  id: `msg-${index}`,
+  speaker: 'laozi',
+  recipients,
+  phase: 'introduce',
+  timestamp: new Date(Date.UTC(2025, 9, 6, 9, index)).toISOString(),
+  message: `Statement ${index}: ${'the way that can be told is not the eternal way '.repeat(8)}`,
+});
+
+// Even indexes address Confucius directly; odd ones reach him only as ambient context
+const memories: MemoryState = {
+  max: 10,
+  store: {
+    all: [],
+    confucius: Array.from({ length: 10 }, (_, index) =>
+      entry(index, index % 2 === 0 ? ['confucius'] : ['mozi']),
+    ),
+  },
+};
+
+const prompt = {
+  recipients: ['confucius'],
+  text: 'Continue.',
+  timestamp: '2025-10-06T11:00:00Z',
+  speaker: 'moderator',
+};
+
+describe('assembleContextForPhilosopher budget', () => {
+  // Persona and directive plus room for about three history entries
+  const { sections } = assembleContextForPhilosopher(confucius, memories, prompt).budget;
+  const tight = sections.persona.tokens + sections.directive.tokens + 300;
+
+  it('should keep everything when the budget is generous', () => {
+    const { budget, historyEntries } = assembleContextForPhilosopher(
+      confucius,
+      memories,
+      prompt,
+      undefined,
+      { budget: 100_000 },
+    );
+
+    expect(historyEntries).toHaveLength(10);
+    expect(budget.overBudget).toBe(false);
+    expect(budget.used).toBeLessThanOrEqual(budget.limit);
+    expect(budget.sections.direct.dropped + budget.sections.ambient.dropped).toBe(0);
+  });
+
+  it('should drop the oldest messages first and keep the prompt in budget', () => {
+    const { budget, historyEntries, promptText } = assembleContextForPhilosopher(
+      confucius,
+      memories,
+      prompt,
+      undefined,
+      { budget: tight },
+    );
+
+    expect(budget.used).toBeLessThanOrEqual(tight);
+    expect(budget.sections.persona.included).toBe(1);
+    expect(budget.sections.directive.included).toBe(1);
+    expect(budget.sections.direct.dropped).toBeGreaterThan(0);
+    expect(historyEntries.at(-1)?.id).toBe('msg-8');
+    expect(promptText).not.toContain('Statement 0:');
+  });
+
+  it('should spend the budget on direct messages before ambient context', () => {
+    const { budget } = assembleContextForPhilosopher(
+      confucius,
+      memories,
+      prompt,
+      undefined,
+      {
+        budget: tight,
+      },
+    );
+
+    expect(budget.sections.ambient.dropped).toBe(5);
+    expect(budget.sections.direct.included).toBeGreaterThan(0);
+  });
+
+  it('should use the per-philosopher budget', () => {
+    const { budget } = assembleContextForPhilosopher(
+      { ...confucius, contextBudget: 1500 },
+      memories,
+      prompt,
+    );
+    expect(budget.limit).toBe(1500);
+  });
+
+  it('should flag a budget smaller than persona and directive', () => {
+    const { budget, historyEntries } = assembleContextForPhilosopher(
+      confucius,
+      memories,
+      prompt,
+      undefined,
+      { budget: 50 },
+    );
+    expect(budget.overBudget).toBe(true);
+    expect(historyEntries).toHaveLength(0);
+  });
+});
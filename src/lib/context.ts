@@ -1,24 +1,120 @@
-import { Philosopher } from '../types';
-import { MemoryEntry, MemoryState, getHistoryFor, getLatestFor } from './memory';
+import {
+  ContextBudgetReport,
+  ContextSection,
+  ContextSectionUsage,
+  Phase,
+  Philosopher,
+} from '../types';
+import {
+  MemoryEntry,
+  MemoryState,
+  MemorySummary,
+  getHistoryFor,
+  getLatestFor,
+  getSummaryFor,
+} from './memory';
+import { PHASE_DIRECTIVES } from './phases';
+import type { RecalledExchange } from './recall';
+import { estimateTokens, truncateToTokens } from './tokens';
+
+/** Default prompt budget in estimated tokens when a philosopher sets none. */
+export const DEFAULT_CONTEXT_BUDGET = 6000;
+
+// Below this many spare tokens a message is dropped rather than shortened
+const MIN_SHORTENED_TOKENS = 40;
 
 const formatEntry = (entry: MemoryEntry) =>
-  `{"sender": "${entry.speaker}", "receivers": [${entry.recipients.map(r => `"${r}"`).join(', ')}], "message": "${entry.message.replace(/"/g, '\\"')}"}`;
+  `{"sender": "${entry.speaker}", "receivers": [${entry.recipients.map(r => `"${r}"`).join(', ')}], ${entry.visibility === 'whisper' ? '"whisper": true, ' : ''}"message": "${entry.message.replace(/"/g, '\\"')}"}`;
+
+const formatRecalled = (entry: MemoryEntry) => `[${entry.timestamp}] ${formatEntry(entry)}`;
 
 export type AssembledContext = {
   promptText: string;
   renderedHistory: string;
   latestLine: string;
   historyEntries: MemoryEntry[];
+  /** Rolling summary of entries older than the verbatim window, if any. */
+  memorySummary: MemorySummary | null;
+  /** Older exchanges recalled into the prompt, chronological. */
+  recalled: RecalledExchange[];
+  budget: ContextBudgetReport;
 };
 
+export type ContextOptions = {
+  /** Current dialogue phase; adds a phase-specific directive to the prompt. */
+  phase?: Phase;
+  /** Overrides `philosopher.contextBudget`. */
+  budget?: number;
+  /** Older exchanges retrieved by `recallExchanges` for `<RecalledExchanges>`. */
+  recalled?: readonly RecalledExchange[];
+};
+
+const emptyUsage = (): ContextSectionUsage => ({ tokens: 0, included: 0, shortened: 0, dropped: 0 });
+
+/**
+ * Takes entries newest-first while they fit in `available` tokens. The first
+ * entry that does not fit is shortened if enough room is left; everything older
+ * is dropped. Returns the kept entries in chronological order.
+ */
+const fillNewestFirst = (
+  entries: readonly MemoryEntry[],
+  available: number,
+  format: (entry: MemoryEntry) => string = formatEntry,
+): { kept: MemoryEntry[]; usage: ContextSectionUsage } => {
+  const usage = emptyUsage();
+  const kept: MemoryEntry[] = [];
+  let remaining = available;
+
+  for (let index = entries.length - 1; index >= 0; index -= 1) {
+    const entry = entries[index]!;
+    const cost = estimateTokens(format(entry)) + 1;
+    if (cost <= remaining) {
+      kept.unshift(entry);
+      remaining -= cost;
+      usage.tokens += cost;
+      usage.included += 1;
+      continue;
+    }
+
+    const overhead = cost - estimateTokens(entry.message);
+    const message = remaining >= MIN_SHORTENED_TOKENS
+      ? truncateToTokens(entry.message, remaining - overhead)
+      : '';
+    if (message) {
+      const shortened = { ...entry, message };
+      kept.unshift(shortened);
+      usage.tokens += estimateTokens(format(shortened)) + 1;
+      usage.included += 1;
+      usage.shortened += 1;
+    } else {
+      usage.dropped += 1;
+    }
+    usage.dropped += index;
+    break;
+  }
+
+  return { kept, usage };
+};
+
+/**
+ * Builds the XML prompt for one turn within the philosopher's token budget.
+ *
+ * Sections claim the budget in priority order: persona, directive (topic, phase,
+ * latest exchange, prompt and output contract), memory summary, direct messages,
+ * recalled exchanges, then ambient context. Persona and directive are always
+ * kept; lower-priority content is shortened or dropped first, oldest messages
+ * before newer ones (least relevant first for recalled exchanges).
+ */
 export const assembleContextForPhilosopher = (
   philosopher: Philosopher,
   memoryState: MemoryState,
   newPrompt: { recipients: string[]; text: string; timestamp: string; speaker: string },
   topic?: string,
+  options: ContextOptions = {},
 ): AssembledContext => {
   const history = getHistoryFor(memoryState, philosopher.id);
   const trimmedHistory = history.slice(-memoryState.max);
+  const limit = options.budget ?? philosopher.contextBudget ?? DEFAULT_CONTEXT_BUDGET;
 
   // Separate direct messages from ambient context
   const directMessages: MemoryEntry[] = [];
@@ -37,18 +133,6 @@ export const assembleContextForPhilosopher = (
     }
   });
 
-  // Render messages in their respective sections
-  const directMessagesText = directMessages.length > 0
-    ? directMessages.map(formatEntry).join('\n')
-    : 'None';
-
-  const ambientMessagesText = ambientMessages.length > 0
-    ? ambientMessages.map(formatEntry).join('\n')
-    : 'None';
-
-  // Backward compatibility: keep full history for renderedHistory field
-  const renderedHistory = trimmedHistory.map(formatEntry).join('\n');
-
   const latestFromMemory = getLatestFor(memoryState, philosopher.id);
   const latestLine = latestFromMemory ? formatEntry(latestFromMemory) : 'None';
 
@@ -56,12 +140,100 @@ export const assembleContextForPhilosopher = (
 
   const topicSection = topic ? `\n  <Topic>\n    <![CDATA[\n    The topic to be discussed today is: ${topic}\n    ]]>\n  </Topic>\n` : '';
 
-  const promptText = `<Prompt>\n  <SystemPersona philosopher="${philosopher.id}" version="2025-10-06">\n    <![CDATA[\n    ${philosopher.personaTemplate}\n    ]]>\n  </SystemPersona>${topicSection}\n  <DirectMessages priority="high" max="${memoryState.max}">\n    <![CDATA[\n    ${directMessagesText}\n    ]]>\n  </DirectMessages>\n\n  <AmbientContext priority="low">\n    <![CDATA[\n    ${ambientMessagesText}\n    ]]>\n  </AmbientContext>\n\n  <LatestExchange>\n    <![CDATA[\n    ${latestLine}\n    ]]>\n  </LatestExchange>\n\n  <Directive>\n    <![CDATA[\n    Addressed: ${recipientsCSV || 'all'}\n    Prompt: ${newPrompt.text}\n    ]]>\n  </Directive>\n\n  <OutputContract>\n    <![CDATA[\n    Return a strict JSON object with keys "reasoning", "final", and "addressees".\n    - reasoning: concise internal analysis for the moderator; do not address recipients here.\n    - final: polished prose delivered to recipients; explicitly acknowledge the moderator and every listed recipient.\n    - addressees: optional array of philosopher IDs you wish to address with this response (e.g., ["laozi", "mozi"]).\n      The order matters: the first addressee will respond first, second responds second, etc.\n      If you want to address someone specifically, include their ID here. Otherwise, omit this field.\n    ]]>\n  </OutputContract>\n</Prompt>`;
+  const phaseSection = options.phase ? `\n  <PhaseDirective phase="${options.phase}">\n    <![CDATA[\n    ${PHASE_DIRECTIVES[options.phase]}\n    ]]>\n  </PhaseDirective>\n` : '';
+
+  const memorySummary = getSummaryFor(memoryState, philosopher.id);
+
+  const renderPrompt = (summaryText: string, directMessagesText: string, recalledText: string, ambientMessagesText: string) => {
+    const summarySection = memorySummary && summaryText ? `\n  <MemorySummary entries="${memorySummary.totalEntries}" from="${memorySummary.from}" to="${memorySummary.to}">\n    <![CDATA[\n    ${summaryText}\n    ]]>\n  </MemorySummary>\n` : '';
+    return `<Prompt>\n  <SystemPersona philosopher="${philosopher.id}" version="2025-10-06">\n    <![CDATA[\n    ${philosopher.personaTemplate}\n    ]]>\n  </SystemPersona>${topicSection}${phaseSection}${summarySection}\n  <DirectMessages priority="high" max="${memoryState.max}">\n    <![CDATA[\n    ${directMessagesText}\n    ]]>\n  </DirectMessages>\n${recalledText ? `\n  <RecalledExchanges priority="medium">\n    <![CDATA[\n    ${recalledText}\n    ]]>\n  </RecalledExchanges>\n` : ''}\n  <AmbientContext priority="low">\n    <![CDATA[\n    ${ambientMessagesText}\n    ]]>\n  </AmbientContext>\n\n  <LatestExchange>\n    <![CDATA[\n    ${latestLine}\n    ]]>\n  </LatestExchange>\n\n  <Directive>\n    <![CDATA[\n    Addressed: ${recipientsCSV || 'all'}\n    Prompt: ${newPrompt.text}\n    ]]>\n  </Directive>\n\n  <OutputContract>\n    <![CDATA[\n    Return a strict JSON object with keys "reasoning", "final", "addressees" and, when you cite a classic, "quote" and, to speak privately, "whisper".\n    - reasoning: concise internal analysis for the moderator; do not address recipients here.\n    - final: polished prose delivered to recipients; explicitly acknowledge the moderator and every listed recipient.\n    - addressees: optional array of philosopher IDs you wish to address with this response (e.g., ["laozi", "mozi"]).\n      The order matters: the first addressee will respond first, second responds second, etc.\n      If you want to address someone specifically, include their ID here. Otherwise, omit this field.\n    - quote: optional object {"chinese", "english", "source"} for a classical passage you cite; quote the original exactly and name the work and chapter. It is checked against the classical corpus.\n    - whisper: optional boolean; true sends "final" privately to your addressees and the moderator, unheard by the rest of the council. Messages marked "whisper" in your history were private to their sender and receivers.\n    ]]>\n  </OutputContract>\n</Prompt>`;
+  };
+
+  // Persona and directive are fixed; measure them on a prompt with empty history
+  const sections: Record<ContextSection, ContextSectionUsage> = {
+    persona: { ...emptyUsage(), tokens: estimateTokens(philosopher.personaTemplate), included: 1 },
+    directive: emptyUsage(),
+    summary: emptyUsage(),
+    direct: emptyUsage(),
+    recalled: emptyUsage(),
+    ambient: emptyUsage(),
+  };
+  const skeletonTokens = estimateTokens(renderPrompt('', 'None', '', 'None'));
+  sections.directive = { ...emptyUsage(), tokens: skeletonTokens - sections.persona.tokens, included: 1 };
+  let remaining = limit - skeletonTokens;
+
+  let summaryText = '';
+  if (memorySummary) {
+    const wrapperTokens = estimateTokens(renderPrompt(memorySummary.text, 'None', '', 'None')) - skeletonTokens - estimateTokens(memorySummary.text);
+    const available = remaining - wrapperTokens;
+    summaryText = available >= MIN_SHORTENED_TOKENS ? truncateToTokens(memorySummary.text, available) : '';
+    if (summaryText) {
+      const tokens = wrapperTokens + estimateTokens(summaryText);
+      sections.summary = { tokens, included: 1, shortened: summaryText === memorySummary.text ? 0 : 1, dropped: 0 };
+      remaining -= tokens;
+    } else {
+      sections.summary.dropped = 1;
+    }
+  }
+
+  const direct = fillNewestFirst(directMessages, Math.max(0, remaining));
+  sections.direct = direct.usage;
+  remaining -= direct.usage.tokens;
+
+  // Least relevant recalled exchanges go first; the wrapper is charged up front
+  const recalledByScore = [...(options.recalled ?? [])].sort((a, b) => a.score - b.score);
+  const recalledWrapperTokens = recalledByScore.length
+    ? estimateTokens(renderPrompt('', 'None', 'None', 'None')) - skeletonTokens
+    : 0;
+  const recalled = fillNewestFirst(
+    recalledByScore.map(item => item.entry),
+    Math.max(0, remaining - recalledWrapperTokens),
+    formatRecalled,
+  );
+  sections.recalled = recalled.usage;
+  if (recalled.kept.length) {
+    sections.recalled.tokens += recalledWrapperTokens;
+    remaining -= sections.recalled.tokens;
+  }
+  const recalledEntries = recalled.kept.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const recalledText = recalledEntries.map(formatRecalled).join('\n');
+
+  const ambient = fillNewestFirst(ambientMessages, Math.max(0, remaining));
+  sections.ambient = ambient.usage;
+
+  // Render messages in their respective sections
+  const directMessagesText = direct.kept.length > 0
+    ? direct.kept.map(formatEntry).join('\n')
+    : 'None';
+
+  const ambientMessagesText = ambient.kept.length > 0
+    ? ambient.kept.map(formatEntry).join('\n')
+    : 'None';
+
+  const includedHistory = [...direct.kept, ...ambient.kept].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
+  );
+
+  // Backward compatibility: keep full history for renderedHistory field
+  const renderedHistory = includedHistory.map(formatEntry).join('\n');
+
+  const promptText = renderPrompt(summaryText, directMessagesText, recalledText, ambientMessagesText);
 
   return {
     promptText,
     renderedHistory,
     latestLine,
-    historyEntries: trimmedHistory,
+    historyEntries: includedHistory,
+    memorySummary,
+    recalled: recalledEntries.map(entry => ({
+      entry,
+      score: options.recalled?.find(item => item.entry.id === entry.id)?.score ?? 0,
+    })),
+    budget: {
+      limit,
+      used: estimateTokens(promptText),
+      overBudget: skeletonTokens > limit,
+      sections,
+    },
   };
 };
@@ -0,0 +1,18 @@
+/**
+ * Triggers a browser download of in-memory text content.
+ */
+export const downloadText = (
+  text: string,
+  filename: string,
+  mimeType: string = 'text/plain;charset=utf-8',
+) => {
+  const blob = new Blob([text], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import type { MessageEvent, Philosopher } from '../types';
+import { createPhaseChange } from './phases';
+import {
+  collectConversationEvents,
+  exportFilename,
+  toHtml,
+  toJsonLines,
+  toMarkdown,
+  type TranscriptExport,
+} from './export';
+
+const confucius: Philosopher = {
+  id: 'confucius',
+  name: 'Confucius',
+  school: 'Confucianism',
+  port: 8001,
+  personaSummary: '',
+  personaTemplate: '',
+};
+
+const message = (overrides: Partial<MessageEvent>): MessageEvent => ({
+  id: 'msg-1',
+  type: 'message',
+  speaker: 'confucius',
+  recipients: ['moderator'],
+  phase: 'introduce',
+  timestamp: '2025-10-06T09:01:00Z',
+  surface: 'Rectify the names.',
+  insight: 'Order begins with language.',
+  translations: { english: 'Rectify the names.' },
+  ...overrides,
+});
+
+const transcript = (overrides: Partial<TranscriptExport> = {}): TranscriptExport => ({
+  topic: 'Flood <relief>',
+  date: 'October 6, 2025',
+  participants: [confucius],
+  messages: [
+    message({ id: 'msg-2', timestamp: '2025-10-06T09:02:00Z', surface: 'Second.' }),
+    message({}),
+    message({ id: 'draft', draft: true, surface: 'half-written' }),
+  ],
+  phaseChanges: [createPhaseChange('cross-response', '2025-10-06T09:01:30Z')],
+  ...overrides,
+});
+
+describe('collectConversationEvents', () => {
+  it('should order events by timestamp and skip drafts', () => {
+    const events = collectConversationEvents(transcript());
+
+    expect(events.map((event) => event.id)).toEqual([
+      'msg-1',
+      'phase-cross-response-1759741290000',
+      'msg-2',
+    ]);
+  });
+
+  it('should place translations right after the message they translate', () => {
+    const events = collectConversationEvents(
+      transcript({
+        translations: [
+          {
+            id: 'translation-msg-1:chinese',
+            type: 'translation',
+            parentId: 'msg-1',
+            language: 'chinese',
+            text: '正名。',
+          },
+        ],
+      }),
+    );
+
+    expect(events.map((event) => event.id)).toEqual([
+      'msg-1',
+      'translation-msg-1:chinese',
+      'phase-cross-response-1759741290000',
+      'msg-2',
+    ]);
+  });
+});
+
+describe('toJsonLines', () => {
+  it('should emit one parseable event per line', () => {
+    const lines = toJsonLines(collectConversationEvents(transcript()))
+      .trimEnd()
+      .split('\n');
+
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[0]!).surface).toBe('Rectify the names.');
+  });
+});
+
+describe('toMarkdown', () => {
+  it('should include speakers, phase headings and timestamps', () => {
+    const markdown = toMarkdown(transcript());
+
+    expect(markdown).toContain('### Confucius → Moderator');
+    expect(markdown).toContain('## Phase: Cross-response');
+    expect(markdown).toContain('datetime="2025-10-06T09:01:00Z"');
+    expect(markdown).not.toContain('half-written');
+  });
+
+  it('should only include internal reasoning when requested', () => {
+    expect(toMarkdown(transcript())).not.toContain('Order begins with language.');
+    expect(toMarkdown(transcript({ includeInsights: true }))).toContain(
+      'Order begins with language.',
+    );
+  });
+});
+
+describe('toHtml', () => {
+  it('should produce a standalone document with escaped content', () => {
+    const html = toHtml(transcript());
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<style>');
+    expect(html).toContain('Flood &lt;relief&gt;');
+    expect(html).not.toContain('<relief>');
+  });
+});
+
+describe('exportFilename', () => {
+  it('should slugify the topic and use the session day', () => {
+    expect(exportFilename('markdown', 'Flood <relief>', '2025-10-06T09:00:00Z')).toBe(
+      'confucian-cafe-flood-relief-2025-10-06.md',
+    );
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Transcript Export
+ *
+ * Renders a session as Markdown, JSON Lines (one ConversationEvent per line) or a
+ * self-contained HTML page styled like the café.
+ */
+
+import type {
+  ConversationEvent,
+  MessageEvent,
+  PhaseChangeEvent,
+  Philosopher,
+  QuoteData,
+  SnapshotEvent,
+  TranslationEvent,
+} from '../types';
+import { PHASE_LABELS } from './phases';
+import { formatTime } from './time';
+import { visibilityOf } from './visibility';
+
+export type ExportFormat = 'markdown' | 'jsonl' | 'html';
+
+export type TranscriptExport = {
+  topic: string;
+  date: string;
+  participants: readonly Philosopher[];
+  messages: readonly MessageEvent[];
+  phaseChanges: readonly PhaseChangeEvent[];
+  snapshots?: readonly SnapshotEvent[];
+  translations?: readonly TranslationEvent[];
+  includeInsights?: boolean;
+};
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  jsonl: 'jsonl',
+  html: 'html',
+};
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown;charset=utf-8',
+  jsonl: 'application/x-ndjson;charset=utf-8',
+  html: 'text/html;charset=utf-8',
+};
+
+const byTimestamp = (a: { timestamp: string }, b: { timestamp: string }) =>
+  new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+
+/**
+ * Collects every finished event of the session in chronological order.
+ * Streaming drafts are skipped. Translations carry no timestamp and follow the
+ * message they translate.
+ */
+export const collectConversationEvents = ({
+  messages,
+  phaseChanges,
+  snapshots = [],
+  translations = [],
+}: Pick<
+  TranscriptExport,
+  'messages' | 'phaseChanges' | 'snapshots' | 'translations'
+>): ConversationEvent[] => {
+  const timed: Array<MessageEvent | PhaseChangeEvent | SnapshotEvent> = [
+    ...snapshots,
+    ...messages.filter((message) => !message.draft),
+    ...phaseChanges,
+  ];
+  return timed
+    .sort(byTimestamp)
+    .flatMap<ConversationEvent>((event) =>
+      event.type === 'message'
+        ? [event, ...translations.filter((translation) => translation.parentId === event.id)]
+        : [event],
+    );
+};
+
+const TRANSLATION_HEADINGS: Record<TranslationEvent['language'], string> = {
+  chinese: 'Chinese',
+  classical_chinese: 'Classical Chinese',
+};
+
+const messageTranslations = (message: MessageEvent) =>
+  (Object.keys(TRANSLATION_HEADINGS) as Array<TranslationEvent['language']>).flatMap(
+    (language) => {
+      const text = message.translations[language];
+      return text ? [{ heading: TRANSLATION_HEADINGS[language], text }] : [];
+    },
+  );
+
+// Verification result, or a note that the passage was retrieved rather than quoted
+const quoteStatus = (quote: QuoteData): string =>
+  quote.verification
+    ? ` (${quote.verification.status})`
+    : quote.retrieved
+      ? ' (retrieved)'
+      : '';
+
+const nameResolver = (participants: readonly Philosopher[]) => {
+  const names = new Map(
+    participants.map((philosopher) => [philosopher.id, philosopher.name]),
+  );
+  return (id: string) => (id === 'moderator' ? 'Moderator' : (names.get(id) ?? id));
+};
+
+const transcriptTimeline = (transcript: TranscriptExport) =>
+  [
+    ...transcript.messages.filter((message) => !message.draft),
+    ...transcript.phaseChanges,
+  ].sort(byTimestamp);
+
+export const toMarkdown = (transcript: TranscriptExport): string => {
+  const nameOf = nameResolver(transcript.participants);
+  const lines: string[] = [
+    `# Confucian Café — ${transcript.topic}`,
+    '',
+    `_${transcript.date}_`,
+    '',
+  ];
+
+  if (transcript.participants.length > 0) {
+    const roster = transcript.participants
+      .map((philosopher) => `${philosopher.name} (${philosopher.school})`)
+      .join(', ');
+    lines.push(`**Participants:** ${roster}`, '');
+  }
+
+  transcriptTimeline(transcript).forEach((event) => {
+    if (event.type === 'phase-change') {
+      lines.push('---', '', `## Phase: ${PHASE_LABELS[event.phase]}`, '');
+      return;
+    }
+
+    const recipients = event.recipients.map(nameOf).join(', ');
+    const whisper = visibilityOf(event) === 'whisper' ? ' (whisper)' : '';
+    lines.push(
+      `### ${nameOf(event.speaker)} → ${recipients}${whisper}`,
+      '',
+      `<time datetime="${event.timestamp}">${formatTime(event.timestamp)}</time>`,
+      '',
+      event.surface,
+      '',
+    );
+
+    messageTranslations(event).forEach(({ heading, text }) => {
+      lines.push(`**${heading}:** ${text}`, '');
+    });
+
+    if (event.quote) {
+      lines.push(
+        `> 📜 **Classical Quote**`,
+        '>',
+        `> ${event.quote.chinese}`,
+        '>',
+        `> _${event.quote.english}_`,
+        '>',
+        `> — ${event.quote.source}${quoteStatus(event.quote)}`,
+        '',
+      );
+    }
+
+    if (transcript.includeInsights && event.insight) {
+      lines.push(`_Internal reasoning:_ ${event.insight}`, '');
+    }
+  });
+
+  return `${lines.join('\n').trimEnd()}\n`;
+};
+
+export const toJsonLines = (events: readonly ConversationEvent[]): string =>
+  events.map((event) => JSON.stringify(event)).join('\n') + (events.length ? '\n' : '');
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const HTML_STYLES = `
+  :root {
+    --chinese-red: #8b0000;
+    --chinese-gold: #ffd700;
+    --paper-beige: #f5f5dc;
+    --light-cream: #fffef0;
+    --ink-black: #1a1a1a;
+    --level-2: #b71c1c;
+    --level-3: #555555;
+    --level-4: #777777;
+    --border: rgba(139, 0, 0, 0.16);
+  }
+  * { box-sizing: border-box; }
+  body {
+    margin: 0;
+    padding: 32px 16px;
+    background: linear-gradient(135deg, var(--paper-beige) 0%, var(--light-cream) 100%);
+    color: var(--ink-black);
+    font-family: -apple-system, BlinkMacSystemFont, 'SF Pro', 'Segoe UI', Roboto, Arial, sans-serif;
+    font-size: 15px;
+    line-height: 1.55;
+  }
+  main {
+    max-width: 760px;
+    margin: 0 auto;
+    background: rgba(255, 255, 255, 0.96);
+    border: 1px solid var(--border);
+    border-radius: 14px;
+    padding: 28px 32px;
+    box-shadow: 0 12px 40px rgba(26, 26, 26, 0.12);
+  }
+  h1 {
+    margin: 0;
+    font-size: 28px;
+    color: var(--chinese-red);
+  }
+  .subline { color: var(--level-3); font-size: 13px; margin: 6px 0 18px; }
+  .roster { color: var(--level-3); font-size: 13px; margin-bottom: 18px; }
+  ol { list-style: none; padding: 0; margin: 0; display: grid; gap: 12px; }
+  .message {
+    border: 1px solid rgba(139, 0, 0, 0.1);
+    border-radius: 8px;
+    padding: 12px;
+    background: white;
+  }
+  .meta { font-size: 12px; color: var(--level-4); margin-bottom: 6px; }
+  .speaker { color: var(--chinese-red); font-weight: 700; }
+  .message p { margin: 0; white-space: pre-wrap; }
+  .quote {
+    border: 1px solid rgba(139, 0, 0, 0.24);
+    border-radius: 6px;
+    background: rgba(255, 248, 220, 0.6);
+    padding: 10px 12px;
+    margin-top: 8px;
+  }
+  .translation { color: var(--level-3); font-family: 'STSong', 'SimSun', 'Songti SC', serif; }
+  .quote .chinese { font-weight: 600; font-family: 'STSong', 'SimSun', 'Songti SC', serif; }
+  .quote .english { font-style: italic; color: var(--level-3); }
+  .quote cite { display: block; font-size: 12px; color: var(--level-4); font-style: normal; }
+  .insight {
+    border: 1px dashed rgba(139, 0, 0, 0.24);
+    border-radius: 6px;
+    background: rgba(255, 215, 0, 0.12);
+    padding: 8px 10px;
+    margin-top: 8px;
+    font-size: 13px;
+  }
+  .phase {
+    display: flex;
+    align-items: center;
+    gap: 10px;
+    color: var(--level-2);
+    font-size: 12px;
+    font-weight: 700;
+    letter-spacing: 0.04em;
+    text-transform: uppercase;
+  }
+  .phase::before, .phase::after {
+    content: '';
+    flex: 1;
+    border-top: 1px solid rgba(139, 0, 0, 0.24);
+  }
+`;
+
+export const toHtml = (transcript: TranscriptExport): string => {
+  const nameOf = nameResolver(transcript.participants);
+  const title = `Confucian Café — ${transcript.topic}`;
+
+  const items = transcriptTimeline(transcript).map((event) => {
+    if (event.type === 'phase-change') {
+      return `<li class="phase">${escapeHtml(PHASE_LABELS[event.phase])}</li>`;
+    }
+
+    const parts = [
+      `<div class="meta"><span class="speaker">${escapeHtml(nameOf(event.speaker))}</span> · <time datetime="${escapeHtml(event.timestamp)}">${escapeHtml(formatTime(event.timestamp))}</time> · → ${escapeHtml(event.recipients.map(nameOf).join(', '))}${visibilityOf(event) === 'whisper' ? ' · whisper' : ''}</div>`,
+      `<p>${escapeHtml(event.surface)}</p>`,
+      ...messageTranslations(event).map(
+        ({ heading, text }) =>
+          `<p class="translation" lang="zh"><strong>${escapeHtml(heading)}:</strong> ${escapeHtml(text)}</p>`,
+      ),
+    ];
+    if (event.quote) {
+      parts.push(
+        `<div class="quote"><div class="chinese">${escapeHtml(event.quote.chinese)}</div><div class="english">${escapeHtml(event.quote.english)}</div><cite>— ${escapeHtml(event.quote.source)}${quoteStatus(event.quote)}</cite></div>`,
+      );
+    }
+    if (transcript.includeInsights && event.insight) {
+      parts.push(
+        `<div class="insight"><strong>Internal reasoning:</strong> ${escapeHtml(event.insight)}</div>`,
+      );
+    }
+    return `<li class="message">${parts.join('')}</li>`;
+  });
+
+  const roster = transcript.participants
+    .map((philosopher) => `${philosopher.name} (${philosopher.school})`)
+    .join(', ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(title)}</h1>
+<div class="subline">${escapeHtml(transcript.date)}</div>
+${roster ? `<div class="roster"><strong>Participants:</strong> ${escapeHtml(roster)}</div>` : ''}
+<ol>
+${items.join('\n')}
+</ol>
+</main>
+</body>
+</html>
+`;
+};
+
+export const exportTranscript = (
+  format: ExportFormat,
+  transcript: TranscriptExport,
+): string => {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(transcript);
+    case 'jsonl':
+      return toJsonLines(collectConversationEvents(transcript));
+    case 'html':
+      return toHtml(transcript);
+  }
+};
+
+export const exportFilename = (format: ExportFormat, topic: string, date: string) => {
+  const slug =
+    topic
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'dialogue';
+  const day = new Date(date).toISOString().slice(0, 10);
+  return `confucian-cafe-${slug}-${day}.${EXPORT_FILE_EXTENSIONS[format]}`;
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_GUARD_SETTINGS,
+  checkTurn,
+  createGuardState,
+  recordReply,
+  replySimilarity,
+  resetAfterResume,
+  resetForPrompt,
+  trailingPingPong,
+  type GuardSettings,
+  type GuardState,
+} from './guard';
+
+const settings: GuardSettings = {
+  maxAutoTurns: 0,
+  cooldownSeconds: 0,
+  pingPongLimit: 0,
+  duplicateThreshold: 0,
+};
+
+const replay = (
+  turns: Array<[string, string]>,
+  limits: GuardSettings = settings,
+): { state: GuardState; trips: string[] } => {
+  let state = createGuardState();
+  const trips: string[] = [];
+  turns.forEach(([speaker, text], index) => {
+    const result = recordReply(state, limits, { speaker, text }, { now: index * 1000 });
+    state = result.state;
+    if (result.trip) trips.push(result.trip.reason);
+  });
+  return { state, trips };
+};
+
+describe('checkTurn', () => {
+  it('stops once the turn budget for the prompt is spent', () => {
+    const limits = { ...settings, maxAutoTurns: 2 };
+    const { state } = replay([
+      ['confucius', 'Ritual first.'],
+      ['laozi', 'Water first.'],
+    ]);
+
+    expect(checkTurn(state, limits, 'mozi')?.reason).toBe('turn-budget');
+    expect(checkTurn(resetForPrompt(state), limits, 'mozi')).toBeNull();
+  });
+
+  it('enforces the per-philosopher cooldown', () => {
+    const limits = { ...settings, cooldownSeconds: 30 };
+    const { state } = recordReply(
+      createGuardState(),
+      limits,
+      { speaker: 'confucius', text: 'Ritual first.' },
+      { now: 0 },
+    );
+
+    expect(checkTurn(state, limits, 'confucius', { now: 10_000 })?.reason).toBe(
+      'cooldown',
+    );
+    expect(checkTurn(state, limits, 'confucius', { now: 31_000 })).toBeNull();
+    expect(checkTurn(state, limits, 'laozi', { now: 10_000 })).toBeNull();
+  });
+
+  it('lets every turn through with the default limits after a reset', () => {
+    const { state } = replay([['confucius', 'Ritual first.']]);
+
+    expect(
+      checkTurn(resetAfterResume(state), DEFAULT_GUARD_SETTINGS, 'confucius'),
+    ).toBeNull();
+    expect(resetAfterResume(state).recentReplies).toEqual(state.recentReplies);
+  });
+});
+
+describe('recordReply', () => {
+  it('counts trailing A↔B exchanges', () => {
+    expect(trailingPingPong(['a', 'b', 'a', 'b'])).toBe(2);
+    expect(trailingPingPong(['c', 'a', 'b', 'a'])).toBe(1);
+    expect(trailingPingPong(['a', 'a'])).toBe(0);
+  });
+
+  it('trips on ping-pong between the same two philosophers', () => {
+    const limits = { ...settings, pingPongLimit: 2 };
+    const { trips } = replay(
+      [
+        ['confucius', 'Virtue governs.'],
+        ['mozi', 'Benefit governs.'],
+        ['confucius', 'Kinship comes first.'],
+        ['mozi', 'Impartial care comes first.'],
+      ],
+      limits,
+    );
+
+    expect(trips).toEqual(['ping-pong']);
+  });
+
+  it('trips when a reply repeats one of the speaker’s recent replies', () => {
+    const limits = { ...settings, duplicateThreshold: 0.8 };
+    const { trips } = replay(
+      [
+        ['laozi', 'The sage acts without acting and the people order themselves.'],
+        ['mozi', 'Benefit all under heaven.'],
+        ['laozi', 'The sage acts without acting, and the people order themselves!'],
+      ],
+      limits,
+    );
+
+    expect(trips).toEqual(['duplicate']);
+  });
+
+  it('scores unrelated replies as dissimilar', () => {
+    expect(
+      replySimilarity('Ritual shapes the heart.', 'Water yields yet overcomes.'),
+    ).toBe(0);
+    expect(replySimilarity('上善若水', '上善若水')).toBe(1);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Runaway-Conversation Guard
+ *
+ * Replies re-enqueue their addressees, so agents can keep answering each other
+ * without the moderator. The guard counts automatic turns since the last
+ * moderator prompt and watches for cooldown violations, A↔B ping-pong and
+ * near-duplicate replies. A trip auto-pauses the queue; resuming resets the
+ * counters.
+ */
+
+export type GuardSettings = {
+  /** Philosopher turns allowed per moderator prompt; 0 disables the limit. */
+  maxAutoTurns: number;
+  /** Seconds a philosopher must wait before speaking again; 0 disables. */
+  cooldownSeconds: number;
+  /** Back-and-forth exchanges between the same two philosophers; 0 disables. */
+  pingPongLimit: number;
+  /** Similarity (0–1) to one of the speaker's recent replies counted as a repeat; 0 disables. */
+  duplicateThreshold: number;
+};
+
+export type GuardState = {
+  autoTurns: number;
+  /** Speakers of the turns since the last moderator prompt, oldest first. */
+  speakers: string[];
+  lastTurnAt: Record<string, number>;
+  recentReplies: Record<string, string[]>;
+};
+
+export type GuardTripReason = 'turn-budget' | 'cooldown' | 'ping-pong' | 'duplicate';
+
+export type GuardTrip = {
+  reason: GuardTripReason;
+  message: string;
+};
+
+type GuardOptions = {
+  now?: number;
+  /** Display name for a philosopher ID, used in trip messages. */
+  nameOf?: (id: string) => string;
+};
+
+export const DEFAULT_GUARD_SETTINGS: GuardSettings = {
+  maxAutoTurns: 12,
+  cooldownSeconds: 0,
+  pingPongLimit: 4,
+  duplicateThreshold: 0.85,
+};
+
+// Replies per philosopher compared for near-duplicates
+const RECENT_REPLY_LIMIT = 3;
+
+export const createGuardState = (): GuardState => ({
+  autoTurns: 0,
+  speakers: [],
+  lastTurnAt: {},
+  recentReplies: {},
+});
+
+/**
+ * Clears the per-prompt counters when the moderator speaks. Cooldowns and
+ * recent replies carry over.
+ */
+export const resetForPrompt = (state: GuardState): GuardState => ({
+  ...state,
+  autoTurns: 0,
+  speakers: [],
+});
+
+/**
+ * Fresh counters and cooldowns after the moderator resumes a paused council;
+ * recent replies are kept for duplicate detection.
+ */
+export const resetAfterResume = (state: GuardState): GuardState => ({
+  ...createGuardState(),
+  recentReplies: state.recentReplies,
+});
+
+const wordPairs = (text: string): Set<string> => {
+  const words = text.toLowerCase().match(/[a-z0-9']+|[\u3400-\u9fff]/g) ?? [];
+  if (words.length < 2) return new Set(words);
+  return new Set(words.slice(1).map((word, index) => `${words[index]} ${word}`));
+};
+
+/** Jaccard similarity of the word pairs of two texts. */
+export const replySimilarity = (a: string, b: string): number => {
+  const left = wordPairs(a);
+  const right = wordPairs(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  let shared = 0;
+  left.forEach((pair) => {
+    if (right.has(pair)) shared += 1;
+  });
+  return shared / (left.size + right.size - shared);
+};
+
+/**
+ * Checks whether `speaker` may take another turn. Runs before the turn starts.
+ */
+export const checkTurn = (
+  state: GuardState,
+  settings: GuardSettings,
+  speaker: string,
+  { now = Date.now(), nameOf = (id: string) => id }: GuardOptions = {},
+): GuardTrip | null => {
+  if (settings.maxAutoTurns > 0 && state.autoTurns >= settings.maxAutoTurns) {
+    return {
+      reason: 'turn-budget',
+      message: `${state.autoTurns} philosopher turns since the last moderator prompt reached the limit of ${settings.maxAutoTurns}.`,
+    };
+  }
+
+  const last = state.lastTurnAt[speaker];
+  if (settings.cooldownSeconds > 0 && last !== undefined) {
+    const elapsed = (now - last) / 1000;
+    if (elapsed < settings.cooldownSeconds) {
+      return {
+        reason: 'cooldown',
+        message: `${nameOf(speaker)} was due to speak again ${Math.round(elapsed)}s after their last turn; the cooldown is ${settings.cooldownSeconds}s.`,
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Length of the A↔B alternation at the end of `speakers`, counted in
+ * exchanges (one reply from each side).
+ */
+export const trailingPingPong = (speakers: readonly string[]): number => {
+  const last = speakers.length - 1;
+  const a = speakers[last];
+  const b = speakers[last - 1];
+  if (a === undefined || b === undefined || a === b) return 0;
+
+  let length = 2;
+  while (length < speakers.length && speakers[last - length] === (length % 2 ? b : a)) {
+    length += 1;
+  }
+  return Math.floor(length / 2);
+};
+
+/**
+ * Records a finished turn and checks the reply for ping-pong and repetition.
+ */
+export const recordReply = (
+  state: GuardState,
+  settings: GuardSettings,
+  reply: { speaker: string; text: string },
+  { now = Date.now(), nameOf = (id: string) => id }: GuardOptions = {},
+): { state: GuardState; trip: GuardTrip | null } => {
+  const previous = state.recentReplies[reply.speaker] ?? [];
+  const next: GuardState = {
+    autoTurns: state.autoTurns + 1,
+    speakers: [...state.speakers, reply.speaker],
+    lastTurnAt: { ...state.lastTurnAt, [reply.speaker]: now },
+    recentReplies: {
+      ...state.recentReplies,
+      [reply.speaker]: [...previous, reply.text].slice(-RECENT_REPLY_LIMIT),
+    },
+  };
+
+  const exchanges = trailingPingPong(next.speakers);
+  if (settings.pingPongLimit > 0 && exchanges >= settings.pingPongLimit) {
+    const partner = next.speakers[next.speakers.length - 2] ?? '';
+    return {
+      state: next,
+      trip: {
+        reason: 'ping-pong',
+        message: `${nameOf(reply.speaker)} and ${nameOf(partner)} have answered each other ${exchanges} times in a row.`,
+      },
+    };
+  }
+
+  if (settings.duplicateThreshold > 0) {
+    const similarity = Math.max(
+      0,
+      ...previous.map((text) => replySimilarity(text, reply.text)),
+    );
+    if (similarity >= settings.duplicateThreshold) {
+      return {
+        state: next,
+        trip: {
+          reason: 'duplicate',
+          message: `${nameOf(reply.speaker)}'s reply is ${Math.round(similarity * 100)}% similar to one of their recent replies.`,
+        },
+      };
+    }
+  }
+
+  return { state: next, trip: null };
+};
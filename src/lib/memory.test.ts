@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import type { MessageEvent, Philosopher } from '../types';
+import { assembleContextForPhilosopher } from './context';
+import {
+  applyMemorySummary,
+  buildSummaryPrompt,
+  createEmptyMemories,
+  entriesToSummarize,
+  getSummaryFor,
+  pushMemoryEntry,
+  type MemoryState,
+} from './memory';
+
+const confucius: Philosopher = {
+  id: 'confucius',
+  name: 'Confucius',
+  school: 'Confucianism',
+  port: 8001,
+  personaSummary: 'Ritual and benevolence.',
+  personaTemplate: 'You are Confucius.',
+};
+
+const message = (index: number): MessageEvent => ({
+  id: `msg-${index}`,
+  type: 'message',
+  speaker: index % 2 ? 'laozi' : 'moderator',
+  recipients: ['confucius'],
+  phase: 'introduce',
+  timestamp: new Date(Date.UTC(2025, 9, 6, 9, index)).toISOString(),
+  surface: `Statement ${index}`,
+  translations: { english: `Statement ${index}` },
+});
+
+const filled = (count: number, max = 4): MemoryState =>
+  Array.from({ length: count }, (_, index) => message(index)).reduce(
+    pushMemoryEntry,
+    createEmptyMemories([confucius], max),
+  );
+
+describe('entriesToSummarize', () => {
+  it('should wait until the history outgrows the window', () => {
+    expect(entriesToSummarize(filled(4), 'confucius')).toEqual([]);
+  });
+
+  it('should condense all but the latest half-window', () => {
+    const entries = entriesToSummarize(filled(5), 'confucius');
+    expect(entries.map((entry) => entry.id)).toEqual(['msg-0', 'msg-1', 'msg-2']);
+  });
+});
+
+describe('applyMemorySummary', () => {
+  it('should replace condensed entries with a summary record', () => {
+    const state = filled(5);
+    const entries = entriesToSummarize(state, 'confucius');
+    const next = applyMemorySummary(
+      state,
+      'confucius',
+      entries,
+      'Laozi argued for non-action.',
+      '2025-10-06T10:00:00.000Z',
+    );
+
+    expect(next.store.confucius?.map((entry) => entry.id)).toEqual(['msg-3', 'msg-4']);
+    expect(getSummaryFor(next, 'confucius')).toMatchObject({
+      owner: 'confucius',
+      text: 'Laozi argued for non-action.',
+      coveredIds: ['msg-0', 'msg-1', 'msg-2'],
+      coveredSpeakers: ['moderator', 'laozi'],
+      totalEntries: 3,
+      createdAt: '2025-10-06T10:00:00.000Z',
+    });
+  });
+
+  it('should roll earlier summaries into the running totals', () => {
+    let state = filled(5);
+    state = applyMemorySummary(
+      state,
+      'confucius',
+      entriesToSummarize(state, 'confucius'),
+      'First.',
+    );
+    state = [5, 6, 7].map(message).reduce(pushMemoryEntry, state);
+    const entries = entriesToSummarize(state, 'confucius');
+
+    expect(
+      buildSummaryPrompt('Confucius', getSummaryFor(state, 'confucius'), entries),
+    ).toContain('First.');
+
+    state = applyMemorySummary(state, 'confucius', entries, 'Second.');
+    const latest = getSummaryFor(state, 'confucius');
+    expect(latest?.text).toBe('Second.');
+    expect(latest?.totalEntries).toBe(6);
+    expect(latest?.from).toBe(message(0).timestamp);
+    expect(state.summaries?.confucius).toHaveLength(2);
+  });
+});
+
+describe('assembleContextForPhilosopher', () => {
+  const prompt = {
+    recipients: ['confucius'],
+    text: 'Continue.',
+    timestamp: '2025-10-06T11:00:00Z',
+    speaker: 'moderator',
+  };
+
+  it('should include the rolling summary as a MemorySummary section', () => {
+    const state = filled(5);
+    const summarized = applyMemorySummary(
+      state,
+      'confucius',
+      entriesToSummarize(state, 'confucius'),
+      'Laozi argued for non-action.',
+    );
+    const context = assembleContextForPhilosopher(confucius, summarized, prompt);
+
+    expect(context.promptText).toContain('<MemorySummary entries="3"');
+    expect(context.promptText).toContain('Laozi argued for non-action.');
+    expect(context.memorySummary?.totalEntries).toBe(3);
+  });
+
+  it('should omit the section before anything was summarized', () => {
+    const context = assembleContextForPhilosopher(confucius, filled(2), prompt);
+    expect(context.promptText).not.toContain('<MemorySummary');
+    expect(context.memorySummary).toBeNull();
+  });
+});
@@ -1,4 +1,5 @@
-import { Philosopher, MessageEvent } from '../types';
+import { Philosopher, MessageEvent, MessageVisibility } from '../types';
+import { visibilityOf } from './visibility';
 
 export type MemoryEntry = {
   id: string;
@@ -7,15 +8,59 @@ export type MemoryEntry = {
   recipients: string[];
   message: string;
   phase: MessageEvent['phase'];
+  visibility?: MessageVisibility;
+};
+
+/**
+ * LLM-written digest of memory entries that fell out of a philosopher's window.
+ * Each new summary folds in the previous one, so the latest record covers the
+ * whole condensed history; earlier records are kept for the Inspector.
+ */
+export type MemorySummary = {
+  id: string;
+  owner: string;
+  createdAt: string;
+  text: string;
+  /** Entries condensed by this summary (not by earlier ones). */
+  coveredIds: string[];
+  coveredSpeakers: string[];
+  /** Timestamps of the oldest and newest entry condensed so far. */
+  from: string;
+  to: string;
+  /** Entries condensed across this and all earlier summaries. */
+  totalEntries: number;
 };
 
 export type MemoryState = {
   max: number;
   store: Record<string, MemoryEntry[]>;
+  /** Summary history per store key; absent in sessions saved before summaries. */
+  summaries?: Record<string, MemorySummary[]>;
+  /**
+   * Entries that left the store (condensed or overflowed), kept per store key
+   * for long-term recall; absent in sessions saved before recall.
+   */
+  archive?: Record<string, MemoryEntry[]>;
 };
 
 const DEFAULT_MAX = 50;
 
+// Entries past the window wait here for summarization; beyond this multiple of
+// `max` the oldest are dropped so a failing summarizer cannot grow memory forever
+const OVERFLOW_LIMIT_FACTOR = 4;
+
+// Archived entries kept per store key for recall; the oldest are dropped first
+const ARCHIVE_LIMIT = 2000;
+
+const appendToArchive = (
+  archive: MemoryState['archive'],
+  key: string,
+  entries: readonly MemoryEntry[],
+): MemoryState['archive'] =>
+  entries.length
+    ? { ...archive, [key]: [...(archive?.[key] ?? []), ...entries].slice(-ARCHIVE_LIMIT) }
+    : archive;
+
 export const createEmptyMemories = (
   philosophers: readonly Philosopher[],
   max: number = DEFAULT_MAX,
@@ -35,18 +80,30 @@ export const pushMemoryEntry = (state: MemoryState, message: MessageEvent): Memo
     recipients: message.recipients,
     message: message.surface,
     phase: message.phase,
+    visibility: message.visibility,
   };
 
-  const targets = new Set<string>(message.recipients.length ? message.recipients : []);
-  targets.add('all');
+  // Public messages reach every store (others hear them as ambient context);
+  // whispers reach only the speaker and recipients and stay out of `all`
+  const visibility = visibilityOf(message);
+  const targets = new Set<string>(message.recipients);
+  if (visibility === 'whisper') {
+    targets.add(message.speaker);
+  } else {
+    if (visibility === 'public') Object.keys(state.store).forEach(key => targets.add(key));
+    targets.add('all');
+  }
 
   const store: Record<string, MemoryEntry[]> = { ...state.store };
+  let archive = state.archive;
   targets.forEach(target => {
-    const current = store[target] ?? [];
-    store[target] = [...current, entry].slice(-state.max);
+    const next = [...(store[target] ?? []), entry];
+    const overflow = next.length - state.max * OVERFLOW_LIMIT_FACTOR;
+    archive = appendToArchive(archive, target, next.slice(0, Math.max(0, overflow)));
+    store[target] = next.slice(Math.max(0, overflow));
   });
 
-  return { ...state, store };
+  return { ...state, store, archive };
 };
 
 export const getLatestFor = (state: MemoryState, philosopherId: string): MemoryEntry | null => {
@@ -58,3 +115,98 @@ export const getLatestFor = (state: MemoryState, philosopherId: string): MemoryE
 export const getHistoryFor = (state: MemoryState, philosopherId: string): MemoryEntry[] => {
   return state.store[philosopherId] ?? [];
 };
+
+/**
+ * Entries a philosopher no longer sees verbatim: the archive plus store entries
+ * older than the `max` window, oldest first.
+ */
+export const getRecallCandidates = (state: MemoryState, owner: string): MemoryEntry[] => {
+  const list = state.store[owner] ?? [];
+  return [...(state.archive?.[owner] ?? []), ...list.slice(0, Math.max(0, list.length - state.max))];
+};
+
+export const getSummaryFor = (state: MemoryState, owner: string): MemorySummary | null => {
+  const list = state.summaries?.[owner];
+  return list?.[list.length - 1] ?? null;
+};
+
+export const getSummaryHistoryFor = (state: MemoryState, owner: string): MemorySummary[] =>
+  state.summaries?.[owner] ?? [];
+
+/**
+ * Entries due for summarization: once the history outgrows `max`, everything
+ * but the most recent half-window is condensed.
+ */
+export const entriesToSummarize = (state: MemoryState, owner: string): MemoryEntry[] => {
+  const list = state.store[owner] ?? [];
+  if (list.length <= state.max) return [];
+  return list.slice(0, list.length - Math.floor(state.max / 2));
+};
+
+const describeEntry = (entry: MemoryEntry) =>
+  `[${entry.phase}] ${entry.speaker} → ${entry.recipients.join(', ') || 'all'}: ${entry.message}`;
+
+/**
+ * Prompt asking the model to fold older entries into the running summary.
+ */
+export const buildSummaryPrompt = (
+  philosopherName: string,
+  previous: MemorySummary | null,
+  entries: readonly MemoryEntry[],
+): string =>
+  [
+    `You maintain the long-term memory of ${philosopherName} in a philosophical council.`,
+    'Condense the earlier summary and the messages below into one updated summary of at most 200 words.',
+    'Keep each speaker\'s stated positions, agreements, disagreements and open questions, attributed by name; drop pleasantries.',
+    'Reply with the summary text only.',
+    '',
+    'Earlier summary:',
+    previous?.text ?? 'None',
+    '',
+    'Messages to fold in:',
+    ...entries.map(describeEntry),
+  ].join('\n');
+
+/**
+ * Records a new summary for `owner` and moves the entries it condensed from the
+ * verbatim history to the recall archive.
+ */
+export const applyMemorySummary = (
+  state: MemoryState,
+  owner: string,
+  entries: readonly MemoryEntry[],
+  text: string,
+  createdAt: string = new Date().toISOString(),
+): MemoryState => {
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  if (!first || !last) return state;
+
+  const previous = getSummaryFor(state, owner);
+  const coveredIds = entries.map(entry => entry.id);
+  const covered = new Set(coveredIds);
+  const summary: MemorySummary = {
+    id: `summary-${owner}-${Date.parse(createdAt)}`,
+    owner,
+    createdAt,
+    text,
+    coveredIds,
+    coveredSpeakers: Array.from(new Set(entries.map(entry => entry.speaker))),
+    from: previous?.from ?? first.timestamp,
+    to: last.timestamp,
+    totalEntries: (previous?.totalEntries ?? 0) + entries.length,
+  };
+
+  return {
+    ...state,
+    store: {
+      ...state.store,
+      [owner]: (state.store[owner] ?? []).filter(entry => !covered.has(entry.id)),
+    },
+    summaries: {
+      ...state.summaries,
+      [owner]: [...getSummaryHistoryFor(state, owner), summary],
+    },
+    archive: appendToArchive(state.archive, owner, entries),
+  };
+};
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { answeredByFrom, describeLLMChoice, normalizeLLMChoice } from './models';
+
+describe('model selection', () => {
+  it('sends only the fields a philosopher actually chose', () => {
+    expect(normalizeLLMChoice(undefined)).toBeUndefined();
+    expect(normalizeLLMChoice({ model: '  ' })).toBeUndefined();
+    expect(normalizeLLMChoice({ provider: 'claude', model: ' haiku ' })).toEqual({
+      provider: 'claude',
+      model: 'haiku',
+    });
+    expect(normalizeLLMChoice({ provider: 'codex' })).toEqual({ provider: 'codex' });
+  });
+
+  it('describes the choice for the roster', () => {
+    expect(describeLLMChoice(undefined)).toBe('Backend default');
+    expect(describeLLMChoice({ provider: 'claude', model: 'haiku' })).toBe(
+      'Claude Agent SDK · haiku',
+    );
+  });
+
+  it('records the provider and model the backend reports', () => {
+    expect(
+      answeredByFrom({
+        provider: 'claude-agent-sdk',
+        providerKey: 'claude',
+        requestedModel: 'claude-haiku',
+        resolvedModel: 'haiku',
+      }),
+    ).toEqual({ provider: 'claude', model: 'haiku' });
+    expect(answeredByFrom({ agentUrl: 'http://localhost:9100' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Model Selection
+ *
+ * Each philosopher may answer through its own provider and model (Mozi on
+ * Codex, Laozi on Claude haiku, …). The choice travels as `options.provider` /
+ * `options.model` on `/api/stream` and with the agent registration, so A2A
+ * agents use it too. The backend reports which provider and model answered,
+ * and that is recorded on the turn's inspector snapshot.
+ */
+
+import type { AnsweredBy, LLMChoice, LLMProvider } from '../types';
+
+export const LLM_PROVIDERS: readonly LLMProvider[] = [
+  'codex',
+  'claude',
+  'openai',
+  'mock',
+];
+
+export const LLM_PROVIDER_LABELS: Record<LLMProvider, string> = {
+  codex: 'Codex CLI',
+  claude: 'Claude Agent SDK',
+  openai: 'OpenAI-compatible server',
+  mock: 'Scripted mock (offline)',
+};
+
+/** Suggested models per provider; any name the provider accepts may be typed in. */
+export const SUGGESTED_MODELS: Record<LLMProvider, readonly string[]> = {
+  codex: ['gpt5-codex', 'gpt-5'],
+  claude: ['sonnet', 'haiku', 'opus'],
+  // Whatever the local server loaded; these are common Ollama names
+  openai: ['llama3.1:8b', 'qwen2.5:7b', 'mistral'],
+  mock: ['scripted'],
+};
+
+/**
+ * Drops empty fields; returns undefined (the backend default) when nothing is
+ * left to choose. The result is sent as request options as it is.
+ */
+export const normalizeLLMChoice = (choice?: LLMChoice): LLMChoice | undefined => {
+  const model = choice?.model?.trim();
+  if (!choice?.provider && !model) return undefined;
+  return {
+    ...(choice?.provider ? { provider: choice.provider } : {}),
+    ...(model ? { model } : {}),
+  };
+};
+
+export const describeLLMChoice = (choice?: LLMChoice): string => {
+  const normalized = normalizeLLMChoice(choice);
+  if (!normalized) return 'Backend default';
+  const provider = normalized.provider
+    ? LLM_PROVIDER_LABELS[normalized.provider]
+    : 'Default provider';
+  return normalized.model ? `${provider} · ${normalized.model}` : provider;
+};
+
+/** Reads the answering provider and model out of backend or agent metadata. */
+export const answeredByFrom = (
+  metadata?: Record<string, unknown>,
+): AnsweredBy | undefined => {
+  const provider = metadata?.providerKey ?? metadata?.provider;
+  if (typeof provider !== 'string' || !provider) return undefined;
+  const model = metadata?.resolvedModel ?? metadata?.requestedModel;
+  return typeof model === 'string' && model ? { provider, model } : { provider };
+};
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseModelResponse } from './parser';
+import { extractPartialFinal, parseModelResponse } from './parser';
 
 describe('parseModelResponse', () => {
   describe('JSON format parsing', () => {
@@ -173,6 +173,53 @@ describe('parseModelResponse', () => {
       // Falls back to the raw input
       expect(result.finalText).toBe(input);
     });
+
+    it('should extract a cited quote', () => {
+      const input = JSON.stringify({
+        final: 'Learning is a joy.',
+        quote: { chinese: ' 學而時習之 ', english: 'To learn and practise', source: 'Analects 1.1' },
+      });
+
+      const result = parseModelResponse(input);
+
+      expect(result.quote).toEqual({
+        chinese: '學而時習之',
+        english: 'To learn and practise',
+        source: 'Analects 1.1',
+      });
+    });
+
+    it('should accept "citation" with "original"/"translation" keys', () => {
+      const input = JSON.stringify({
+        final: 'Water benefits all.',
+        citation: { original: '上善若水', translation: 'The highest good is like water' },
+      });
+
+      const result = parseModelResponse(input);
+
+      expect(result.quote).toEqual({
+        chinese: '上善若水',
+        english: 'The highest good is like water',
+        source: '',
+      });
+    });
+
+    it('should ignore a quote without text', () => {
+      const input = JSON.stringify({
+        final: 'No quote here.',
+        quote: { source: 'Mencius 2A.6' },
+      });
+
+      expect(parseModelResponse(input).quote).toBeUndefined();
+    });
+
+    it('should flag a whisper only when explicitly true', () => {
+      const whispered = JSON.stringify({ final: 'Between us.', whisper: true });
+      const spoken = JSON.stringify({ final: 'To the council.', whisper: 'yes' });
+
+      expect(parseModelResponse(whispered).whisper).toBe(true);
+      expect(parseModelResponse(spoken).whisper).toBeUndefined();
+    });
   });
 
   describe('Double-newline format parsing', () => {
@@ -346,3 +393,36 @@ describe('parseModelResponse', () => {
     });
   });
 });
+
+describe('extractPartialFinal', () => {
+  it('should return plain text responses unchanged', () => {
+    expect(extractPartialFinal('  The river bends  ')).toBe('The river bends');
+  });
+
+  it('should return empty string before the final key arrives', () => {
+    expect(extractPartialFinal('{"reasoning": "Weigh the levees')).toBe('');
+  });
+
+  it('should surface an unterminated final string', () => {
+    const partial = '{"reasoning": "brief", "final": "Let the water wan';
+    expect(extractPartialFinal(partial)).toBe('Let the water wan');
+  });
+
+  it('should stop at the closing quote of the final string', () => {
+    const partial = '{"final": "Done.", "addressees": ["laozi"]}';
+    expect(extractPartialFinal(partial)).toBe('Done.');
+  });
+
+  it('should decode escape sequences', () => {
+    const partial = '{"final": "Line one\\nSaid \\"ren\\" \\u4EC1';
+    expect(extractPartialFinal(partial)).toBe('Line one\nSaid "ren" 仁');
+  });
+
+  it('should not emit a dangling escape character', () => {
+    expect(extractPartialFinal('{"final": "Wait\\')).toBe('Wait');
+  });
+
+  it('should handle fenced JSON blocks', () => {
+    expect(extractPartialFinal('```json\n{"final": "Ritual')).toBe('Ritual');
+  });
+});
@@ -2,15 +2,37 @@
  * Model Response Parser
  *
  * Parses LLM responses which may contain JSON or plain text.
- * Extracts the final message text, reasoning/analysis, and addressee list.
+ * Extracts the final message text, reasoning/analysis, addressee list, any
+ * classical quote the model cited and whether the reply is a whisper.
  */
 
+import type { QuoteData } from '../types';
+
 export interface ParsedResponse {
   finalText: string;
   reasoning?: string;
   addressees?: string[];
+  quote?: QuoteData;
+  /** True when the model asked to deliver the reply privately. */
+  whisper?: boolean;
 }
 
+const stringField = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : '';
+
+/**
+ * Reads a `quote` (or `citation`) object from the JSON contract. Returns
+ * undefined unless it carries Chinese or English text.
+ */
+const parseQuote = (value: unknown): QuoteData | undefined => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const record = value as Record<string, unknown>;
+  const chinese = stringField(record.chinese ?? record.original);
+  const english = stringField(record.english ?? record.translation);
+  if (!chinese && !english) return undefined;
+  return { chinese, english, source: stringField(record.source ?? record.reference) };
+};
+
 /**
  * Attempts to parse a model response, extracting structured data if present.
  *
@@ -20,13 +42,15 @@ export interface ParsedResponse {
  * 3. Plain text fallback
  *
  * @param raw - Raw response text from the model
- * @returns Parsed response with finalText, optional reasoning, and optional addressees
+ * @returns Parsed response with finalText and optional reasoning, addressees, quote and whisper flag
  */
 export const parseModelResponse = (raw: string): ParsedResponse => {
   const fallback = typeof raw === 'string' ? raw.trim() : '';
   let finalText = fallback;
   let reasoning: string | undefined;
   let addressees: string[] | undefined;
+  let quote: QuoteData | undefined;
+  let whisper: boolean | undefined;
 
   if (typeof raw === 'string') {
     // Try to extract JSON from the response
@@ -40,6 +64,10 @@ export const parseModelResponse = (raw: string): ParsedResponse => {
           parsed.final ?? parsed.answer ?? parsed.response ?? parsed.surface;
         const maybeReasoning = parsed.reasoning ?? parsed.analysis ?? parsed.thinking;
         const maybeAddressees = parsed.addressees ?? parsed.recipients ?? parsed.to;
+        quote = parseQuote(parsed.quote ?? parsed.citation);
+        if (parsed.whisper === true || parsed.private === true) {
+          whisper = true;
+        }
 
         if (typeof maybeFinal === 'string' && maybeFinal.trim()) {
           finalText = maybeFinal.trim();
@@ -75,5 +103,60 @@ export const parseModelResponse = (raw: string): ParsedResponse => {
     }
   }
 
-  return { finalText, reasoning, addressees };
+  return { finalText, reasoning, addressees, quote, whisper };
+};
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Extracts the readable part of a response that is still streaming in.
+ *
+ * While the model is emitting its JSON contract, only the (possibly unterminated)
+ * "final" string is surfaced so the Dialogue Stream never shows raw JSON. Plain-text
+ * responses are returned as-is.
+ *
+ * @param partial - Aggregated response text received so far
+ * @returns Text suitable for rendering in a draft message
+ */
+export const extractPartialFinal = (partial: string): string => {
+  if (typeof partial !== 'string') return '';
+  const trimmed = partial.trimStart();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('```')) {
+    return partial.trim();
+  }
+
+  const keyMatch = /"(?:final|answer|response|surface)"\s*:\s*"/.exec(partial);
+  if (!keyMatch) return '';
+
+  let text = '';
+  for (let index = keyMatch.index + keyMatch[0].length; index < partial.length; index++) {
+    const char = partial[index];
+    if (char === '"') break;
+    if (char !== '\\') {
+      text += char;
+      continue;
+    }
+    const next = partial[index + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = partial.slice(index + 2, index + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      text += String.fromCharCode(parseInt(hex, 16));
+      index += 5;
+      continue;
+    }
+    text += JSON_ESCAPES[next] ?? next;
+    index += 1;
+  }
+
+  return text;
 };
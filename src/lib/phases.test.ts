@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import type { MessageEvent } from '../types';
+import { getNextPhase, getPreviousPhase, haveAllSpokenInPhase } from './phases';
+
+const message = (overrides: Partial<MessageEvent>): MessageEvent => ({
+  id: `msg-${Math.random().toString(36).slice(2, 8)}`,
+  type: 'message',
+  speaker: 'confucius',
+  recipients: ['moderator'],
+  phase: 'introduce',
+  timestamp: '2025-10-06T09:00:00Z',
+  surface: 'text',
+  translations: { english: 'text' },
+  ...overrides,
+});
+
+describe('phase transitions', () => {
+  it('should advance through the sequence and stop at synthesis', () => {
+    expect(getNextPhase('introduce')).toBe('cross-response');
+    expect(getNextPhase('cross-response')).toBe('synthesis');
+    expect(getNextPhase('synthesis')).toBeNull();
+  });
+
+  it('should roll back and stop at introduce', () => {
+    expect(getPreviousPhase('synthesis')).toBe('cross-response');
+    expect(getPreviousPhase('introduce')).toBeNull();
+  });
+});
+
+describe('haveAllSpokenInPhase', () => {
+  const startedAt = '2025-10-06T08:59:00Z';
+
+  it('should be true once every active philosopher has replied in the phase', () => {
+    const messages = [
+      message({ speaker: 'confucius' }),
+      message({ speaker: 'laozi' }),
+      message({ speaker: 'moderator' }),
+    ];
+    expect(
+      haveAllSpokenInPhase(messages, 'introduce', ['confucius', 'laozi'], startedAt),
+    ).toBe(true);
+  });
+
+  it('should ignore drafts, other phases and messages before the phase started', () => {
+    const messages = [
+      message({ speaker: 'confucius' }),
+      message({ speaker: 'laozi', draft: true }),
+      message({ speaker: 'laozi', phase: 'cross-response' }),
+      message({ speaker: 'laozi', timestamp: '2025-10-06T08:00:00Z' }),
+    ];
+    expect(
+      haveAllSpokenInPhase(messages, 'introduce', ['confucius', 'laozi'], startedAt),
+    ).toBe(false);
+  });
+
+  it('should be false with no active philosophers', () => {
+    expect(haveAllSpokenInPhase([], 'introduce', [], startedAt)).toBe(false);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Dialogue Phases
+ *
+ * Moderator-controlled state machine for the council:
+ * introduce → cross-response → synthesis.
+ */
+
+import type { MessageEvent, Phase, PhaseChangeEvent } from '../types';
+
+export const PHASE_SEQUENCE: readonly Phase[] = [
+  'introduce',
+  'cross-response',
+  'synthesis',
+];
+
+export const PHASE_LABELS: Record<Phase, string> = {
+  introduce: 'Introduce',
+  'cross-response': 'Cross-response',
+  synthesis: 'Synthesis',
+};
+
+/**
+ * Phase-specific instruction injected into every prompt assembled during that phase.
+ */
+export const PHASE_DIRECTIVES: Record<Phase, string> = {
+  introduce:
+    'Opening round. State your own position on the topic clearly and concisely; establish the principles you will defend. Do not rebut others yet.',
+  'cross-response':
+    'Cross-response round. Engage directly with the positions other philosophers have stated: quote or paraphrase them, challenge weak points, and concede where they are right.',
+  synthesis:
+    'Synthesis round. Look for common ground across the council. Propose a combined recommendation that reconciles the strongest points raised, and name any disagreement that remains.',
+};
+
+export const getNextPhase = (phase: Phase): Phase | null => {
+  const index = PHASE_SEQUENCE.indexOf(phase);
+  return PHASE_SEQUENCE[index + 1] ?? null;
+};
+
+export const getPreviousPhase = (phase: Phase): Phase | null => {
+  const index = PHASE_SEQUENCE.indexOf(phase);
+  return index > 0 ? (PHASE_SEQUENCE[index - 1] ?? null) : null;
+};
+
+export const createPhaseChange = (
+  phase: Phase,
+  timestamp: string = new Date().toISOString(),
+): PhaseChangeEvent => ({
+  id: `phase-${phase}-${Date.parse(timestamp)}`,
+  type: 'phase-change',
+  phase,
+  timestamp,
+});
+
+/**
+ * Checks whether every active philosopher has delivered a (non-draft) reply in
+ * the given phase since it started. Used to auto-advance the council.
+ *
+ * @param messages - Transcript so far
+ * @param phase - Phase currently in effect
+ * @param activeIds - Philosophers seated in the council
+ * @param phaseStartedAt - ISO timestamp when the phase was entered
+ */
+export const haveAllSpokenInPhase = (
+  messages: readonly MessageEvent[],
+  phase: Phase,
+  activeIds: readonly string[],
+  phaseStartedAt: string,
+): boolean => {
+  if (activeIds.length === 0) return false;
+  const startedAt = Date.parse(phaseStartedAt);
+  const spoken = new Set(
+    messages
+      .filter(
+        (message) =>
+          !message.draft &&
+          message.phase === phase &&
+          Date.parse(message.timestamp) >= startedAt,
+      )
+      .map((message) => message.speaker),
+  );
+  return activeIds.every((id) => spoken.has(id));
+};
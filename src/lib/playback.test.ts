@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import type { ConversationEvent } from '../types';
+import { mockEventSequence, mockMessages } from '../mocks';
+import { toJsonLines } from './export';
+import {
+  MAX_PLAYBACK_GAP_MS,
+  MIN_PLAYBACK_GAP_MS,
+  parseTranscriptJsonl,
+  playbackDelay,
+  playbackTimestamp,
+  revealEvents,
+} from './playback';
+
+describe('parseTranscriptJsonl', () => {
+  it('should round-trip an exported transcript', () => {
+    const events = parseTranscriptJsonl(toJsonLines(mockEventSequence));
+
+    expect(events.map((event) => event.id)).toEqual(
+      mockEventSequence.map((event) => event.id),
+    );
+  });
+
+  it('should sort events chronologically and ignore blank lines', () => {
+    const [first, second] = mockMessages;
+    const text = `${JSON.stringify(second)}\n\n${JSON.stringify(first)}\n`;
+
+    expect(parseTranscriptJsonl(text).map((event) => event.id)).toEqual([
+      first!.id,
+      second!.id,
+    ]);
+  });
+
+  it('should report the offending line', () => {
+    const text = `${JSON.stringify(mockMessages[0])}\n{"type":"unknown","id":"x"}`;
+
+    expect(() => parseTranscriptJsonl(text)).toThrow('Line 2: not a conversation event');
+    expect(() => parseTranscriptJsonl('not json')).toThrow('Line 1: invalid JSON');
+  });
+
+  it('should report the field an event of a known type is missing', () => {
+    const message = mockMessages[0]!;
+    const withoutSpeaker = JSON.stringify({ ...message, speaker: undefined });
+    const badTranslations = JSON.stringify({ ...message, translations: {} });
+    const badRecipients = JSON.stringify({ ...message, recipients: 'laozi' });
+    const translation = {
+      id: 't1',
+      type: 'translation',
+      parentId: message.id,
+      text: '仁',
+    };
+    const snapshot = mockEventSequence.find((event) => event.type === 'context-snapshot');
+
+    expect(() => parseTranscriptJsonl(`\n${withoutSpeaker}`)).toThrow(
+      'Line 2: message event has a missing or invalid "speaker"',
+    );
+    expect(() => parseTranscriptJsonl(badTranslations)).toThrow('"translations"');
+    expect(() => parseTranscriptJsonl(badRecipients)).toThrow('"recipients"');
+    expect(() => parseTranscriptJsonl(JSON.stringify(translation))).toThrow(
+      'Line 1: translation event has a missing or invalid "language"',
+    );
+    expect(() =>
+      parseTranscriptJsonl(
+        JSON.stringify({
+          id: 'p1',
+          type: 'phase-change',
+          phase: 'debate',
+          timestamp: '',
+        }),
+      ),
+    ).toThrow('Line 1: phase-change event has a missing or invalid "timestamp"');
+    expect(() =>
+      parseTranscriptJsonl(JSON.stringify({ ...snapshot, prompt: { templateId: 'x' } })),
+    ).toThrow('Line 1: context-snapshot event has a missing or invalid "prompt"');
+  });
+});
+
+describe('playbackDelay', () => {
+  const at = (id: string, timestamp: string): ConversationEvent => ({
+    id,
+    type: 'phase-change',
+    phase: 'introduce',
+    timestamp,
+  });
+
+  it('should reveal the first event immediately', () => {
+    expect(playbackDelay([at('a', '2025-10-06T09:00:00Z')], 0, 1)).toBe(0);
+  });
+
+  it('should scale the original gap by speed within bounds', () => {
+    const events = [
+      at('a', '2025-10-06T09:00:00Z'),
+      at('b', '2025-10-06T09:00:02Z'),
+      at('c', '2025-10-06T10:00:00Z'),
+      at('d', '2025-10-06T10:00:00Z'),
+    ];
+
+    expect(playbackDelay(events, 1, 2)).toBe(1000);
+    expect(playbackDelay(events, 2, 1)).toBe(MAX_PLAYBACK_GAP_MS);
+    expect(playbackDelay(events, 3, 1)).toBe(MIN_PLAYBACK_GAP_MS);
+  });
+});
+
+describe('revealEvents', () => {
+  it('should split the revealed slice by event type and track the phase', () => {
+    const cursor =
+      mockEventSequence.findIndex((event) => event.type === 'phase-change') + 1;
+    const revealed = revealEvents(mockEventSequence, cursor);
+
+    expect(revealed.snapshots).toHaveLength(1);
+    expect(revealed.phaseChanges).toHaveLength(1);
+    expect(revealed.phase).toBe('cross-response');
+    expect(revealed.messages.every((message) => message.type === 'message')).toBe(true);
+  });
+
+  it('should reveal nothing at cursor zero', () => {
+    const revealed = revealEvents(mockEventSequence, 0);
+
+    expect(revealed.messages).toEqual([]);
+    expect(playbackTimestamp(mockEventSequence, 0)).toBeNull();
+  });
+});
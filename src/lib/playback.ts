@@ -0,0 +1,227 @@
+/**
+ * Transcript Playback
+ *
+ * Loads a `ConversationEvent` JSONL transcript (as produced by the exporter) and
+ * reveals it event by event. Playback is purely client-side: nothing here talks
+ * to the backend.
+ */
+
+import type {
+  ConversationEvent,
+  InspectorSnapshot,
+  MessageEvent,
+  Phase,
+  PhaseChangeEvent,
+  TranslationEvent,
+} from '../types';
+import { PHASE_SEQUENCE } from './phases';
+import { TARGET_LANGUAGES, type TargetLanguage } from './translation';
+
+export const PLAYBACK_SPEEDS: readonly number[] = [0.5, 1, 2, 4, 8];
+
+/** Long silences in the original run are capped so a replay never stalls. */
+export const MAX_PLAYBACK_GAP_MS = 4000;
+export const MIN_PLAYBACK_GAP_MS = 250;
+
+export type PlaybackState = {
+  label: string;
+  events: ConversationEvent[];
+  /** Number of events revealed so far. */
+  cursor: number;
+  playing: boolean;
+  speed: number;
+};
+
+export type RevealedTranscript = {
+  messages: MessageEvent[];
+  phaseChanges: PhaseChangeEvent[];
+  snapshots: InspectorSnapshot[];
+  translations: TranslationEvent[];
+  phase: Phase;
+};
+
+type Fields = Record<string, unknown>;
+type FieldCheck = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Fields =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isTimestamp: FieldCheck = (value) =>
+  isString(value) && !Number.isNaN(Date.parse(value));
+const isPhase: FieldCheck = (value) => PHASE_SEQUENCE.includes(value as Phase);
+const hasStrings =
+  (...keys: string[]): FieldCheck =>
+  (value) =>
+    isRecord(value) && keys.every((key) => isString(value[key]));
+
+/** Fields each event type needs to be replayed, and what they must hold. */
+const REQUIRED_FIELDS: Record<ConversationEvent['type'], Record<string, FieldCheck>> = {
+  message: {
+    timestamp: isTimestamp,
+    speaker: isString,
+    recipients: (value) => Array.isArray(value) && value.every(isString),
+    surface: isString,
+    translations: hasStrings('english'),
+    phase: isPhase,
+  },
+  translation: {
+    parentId: isString,
+    language: (value) => TARGET_LANGUAGES.includes(value as TargetLanguage),
+    text: isString,
+  },
+  'phase-change': {
+    timestamp: isTimestamp,
+    phase: isPhase,
+  },
+  'context-snapshot': {
+    timestamp: isTimestamp,
+    phase: isPhase,
+    contextId: isString,
+    round: (value) => typeof value === 'number',
+    audience: isString,
+    userPrompt: isString,
+    prompt: hasStrings('templateId', 'templateSkeleton', 'rendered'),
+    contextMessages: (value) => Array.isArray(value) && value.every(isRecord),
+  },
+};
+
+/** Why `value` cannot be replayed, or null for a valid conversation event. */
+const invalidEventReason = (value: unknown): string | null => {
+  if (
+    !isRecord(value) ||
+    !isString(value.id) ||
+    !isString(value.type) ||
+    !Object.hasOwn(REQUIRED_FIELDS, value.type)
+  ) {
+    return 'not a conversation event';
+  }
+  const type = value.type as ConversationEvent['type'];
+  const invalid = Object.entries(REQUIRED_FIELDS[type]).find(
+    ([field, check]) => !check(value[field]),
+  );
+  return invalid ? `${type} event has a missing or invalid "${invalid[0]}"` : null;
+};
+
+const timestampOf = (event: ConversationEvent, fallback: number) =>
+  'timestamp' in event ? Date.parse(event.timestamp) : fallback;
+
+/**
+ * Orders events chronologically. Translations carry no timestamp and stay right
+ * after the event that precedes them.
+ */
+export const sortEvents = (events: readonly ConversationEvent[]): ConversationEvent[] => {
+  let previous = Number.NEGATIVE_INFINITY;
+  return events
+    .map((event, index) => {
+      previous = timestampOf(event, previous);
+      return { event, index, time: previous };
+    })
+    .sort((a, b) => a.time - b.time || a.index - b.index)
+    .map(({ event }) => event);
+};
+
+/**
+ * Parses a JSONL transcript. Blank lines are ignored; anything else that is not
+ * a conversation event with the fields its type requires is rejected with its
+ * line number.
+ */
+export const parseTranscriptJsonl = (text: string): ConversationEvent[] => {
+  const events: ConversationEvent[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1}: invalid JSON`);
+    }
+    const reason = invalidEventReason(parsed);
+    if (reason) {
+      throw new Error(`Line ${index + 1}: ${reason}`);
+    }
+    events.push(parsed as ConversationEvent);
+  });
+  return sortEvents(events);
+};
+
+export const createPlayback = (
+  label: string,
+  events: readonly ConversationEvent[],
+  speed = 1,
+): PlaybackState => ({
+  label,
+  events: sortEvents(events),
+  cursor: 0,
+  playing: true,
+  speed,
+});
+
+/**
+ * Milliseconds to wait before revealing `events[cursor]`, scaled by speed.
+ * The first event is shown immediately.
+ */
+export const playbackDelay = (
+  events: readonly ConversationEvent[],
+  cursor: number,
+  speed: number,
+): number => {
+  const next = events[cursor];
+  const previous = events[cursor - 1];
+  if (!next || !previous || !('timestamp' in next) || !('timestamp' in previous)) {
+    return cursor === 0 ? 0 : MIN_PLAYBACK_GAP_MS / speed;
+  }
+  const gap = Date.parse(next.timestamp) - Date.parse(previous.timestamp);
+  const clamped = Math.min(MAX_PLAYBACK_GAP_MS, Math.max(MIN_PLAYBACK_GAP_MS, gap));
+  return clamped / speed;
+};
+
+/**
+ * Projects the first `cursor` events onto the shapes the dialogue views render.
+ */
+export const revealEvents = (
+  events: readonly ConversationEvent[],
+  cursor: number,
+): RevealedTranscript => {
+  const revealed: RevealedTranscript = {
+    messages: [],
+    phaseChanges: [],
+    snapshots: [],
+    translations: [],
+    phase: 'introduce',
+  };
+
+  events.slice(0, cursor).forEach((event) => {
+    switch (event.type) {
+      case 'message':
+        revealed.messages.push(event);
+        revealed.phase = event.phase;
+        break;
+      case 'phase-change':
+        revealed.phaseChanges.push(event);
+        revealed.phase = event.phase;
+        break;
+      case 'context-snapshot':
+        revealed.snapshots.push(event);
+        break;
+      case 'translation':
+        revealed.translations.push(event);
+        break;
+    }
+  });
+
+  return revealed;
+};
+
+/**
+ * Timestamp of the most recently revealed event, for the playback clock.
+ */
+export const playbackTimestamp = (
+  events: readonly ConversationEvent[],
+  cursor: number,
+): string | null => {
+  for (let index = Math.min(cursor, events.length) - 1; index >= 0; index -= 1) {
+    const event = events[index];
+    if (event && 'timestamp' in event) return event.timestamp;
+  }
+  return null;
+};
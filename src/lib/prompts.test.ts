@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import type { Philosopher, ResponseTask } from '../types';
+import { assembleContextForPhilosopher } from './context';
+import { buildSummaryPrompt, createEmptyMemories } from './memory';
+import { buildBidPrompt } from './scheduler';
+
+// The backend mock provider (backend/lib/llm/providers/mockProvider.js,
+// classifyPrompt) tells the orchestrator's prompts apart by these anchors;
+// rewording a prompt must keep them or offline mode answers the wrong kind
+const confucius: Philosopher = {
+  id: 'confucius',
+  name: 'Confucius',
+  school: 'Confucianism',
+  port: 8001,
+  personaSummary: 'Ritual and benevolence.',
+  personaTemplate: 'You are Confucius.',
+};
+
+const task: ResponseTask = {
+  id: 'task-1',
+  philosopherId: 'confucius',
+  trigger: {
+    id: 'msg-1',
+    type: 'message',
+    speaker: 'laozi',
+    recipients: ['confucius'],
+    phase: 'introduce',
+    timestamp: '2025-10-06T10:00:00Z',
+    surface: 'Ritual is the husk of loyalty.',
+    translations: { english: 'Ritual is the husk of loyalty.' },
+  },
+};
+
+describe('prompt anchors used by the mock provider', () => {
+  it('keeps the bid, summary and turn anchors', () => {
+    const bid = buildBidPrompt(confucius, [task], 'Ritual');
+    expect(bid).toMatch(/How urgently do you need to speak next\?/);
+    expect(bid.match(/^You are (.+?) \(/)?.[1]).toBe('Confucius');
+
+    const summary = buildSummaryPrompt('Confucius', null, []);
+    expect(summary.match(/^You maintain the long-term memory of (.+?) in /)?.[1]).toBe(
+      'Confucius',
+    );
+
+    const { promptText } = assembleContextForPhilosopher(
+      confucius,
+      createEmptyMemories([confucius]),
+      {
+        recipients: ['confucius'],
+        text: 'Begin.',
+        timestamp: '2025-10-06T10:00:00Z',
+        speaker: 'moderator',
+      },
+      'Ritual',
+    );
+    expect(promptText.match(/<SystemPersona philosopher="([^"]+)"/)?.[1]).toBe(
+      'confucius',
+    );
+    expect(
+      promptText.match(/The topic to be discussed today is: (.*)/)?.[1]?.trim(),
+    ).toBe('Ritual');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import {
+  groupBatches,
+  mergeBatches,
+  moveInQueue,
+  reassignTasks,
+  removeFromQueue,
+  splitTask,
+  takeNextBatch,
+} from './queue';
+import type { QueueState } from './sessions';
+import type { MessageEvent, ResponseTask } from '../types';
+
+const trigger = (id: string, speaker: string): MessageEvent => ({
+  id,
+  type: 'message',
+  speaker,
+  recipients: ['confucius'],
+  phase: 'introduce',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  surface: `${speaker} asks`,
+  translations: { english: `${speaker} asks` },
+});
+
+const task = (id: string, speaker: string): ResponseTask => ({
+  id,
+  philosopherId: 'confucius',
+  trigger: trigger(`msg-${id}`, speaker),
+});
+
+const queueState = (): QueueState => ({
+  queue: ['confucius', 'laozi', 'mozi'],
+  pending: new Map([
+    ['confucius', [task('a', 'moderator'), task('b', 'laozi'), task('c', 'mozi')]],
+    ['laozi', [task('d', 'moderator')]],
+    ['mozi', [task('e', 'moderator')]],
+  ]),
+});
+
+const ids = (tasks: readonly ResponseTask[]) => tasks.map((entry) => entry.id);
+
+describe('queue editing', () => {
+  it('moves a speaker to a new position and clamps the index', () => {
+    expect(moveInQueue(queueState(), 'mozi', 0).queue).toEqual([
+      'mozi',
+      'confucius',
+      'laozi',
+    ]);
+    expect(moveInQueue(queueState(), 'confucius', 9).queue).toEqual([
+      'laozi',
+      'mozi',
+      'confucius',
+    ]);
+  });
+
+  it('removes a speaker together with their pending tasks', () => {
+    const original = queueState();
+    const { state, removed } = removeFromQueue(original, 'confucius');
+
+    expect(state.queue).toEqual(['laozi', 'mozi']);
+    expect(state.pending.has('confucius')).toBe(false);
+    expect(ids(removed)).toEqual(['a', 'b', 'c']);
+    expect(original.pending.has('confucius')).toBe(true);
+  });
+
+  it('answers a split trigger in a later turn', () => {
+    const state = splitTask(queueState(), 'confucius', 'a');
+    const tasks = state.pending.get('confucius') ?? [];
+
+    expect(groupBatches(tasks).map(ids)).toEqual([['b', 'c'], ['a']]);
+    const { batch, rest } = takeNextBatch(tasks);
+    expect(ids(batch)).toEqual(['b', 'c']);
+    expect(ids(rest)).toEqual(['a']);
+  });
+
+  it('leaves a trigger that is already alone in its turn', () => {
+    const state = queueState();
+    expect(splitTask(state, 'laozi', 'd')).toBe(state);
+  });
+
+  it('merges split batches back into one turn', () => {
+    const split = splitTask(splitTask(queueState(), 'confucius', 'a'), 'confucius', 'b');
+    expect(groupBatches(split.pending.get('confucius') ?? [])).toHaveLength(3);
+
+    const merged = mergeBatches(split, 'confucius');
+    expect(groupBatches(merged.pending.get('confucius') ?? []).map(ids)).toEqual([
+      ['a', 'b', 'c'],
+    ]);
+  });
+
+  it('hands failed triggers to another philosopher as one batch', () => {
+    const split = splitTask(queueState(), 'confucius', 'a');
+    const reassigned = reassignTasks(split.pending.get('confucius') ?? [], 'mozi');
+
+    expect(reassigned.map((entry) => entry.philosopherId)).toEqual([
+      'mozi',
+      'mozi',
+      'mozi',
+    ]);
+    expect(reassigned.map((entry) => entry.trigger.id)).toEqual([
+      'msg-a',
+      'msg-b',
+      'msg-c',
+    ]);
+    expect(groupBatches(reassigned)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Queue Editing
+ *
+ * Pure operations behind the moderator's queue panel. Each returns a new
+ * `QueueState`, so the orchestrator can swap `globalQueueRef.current` in one
+ * assignment even while a speaker holds the global lock: the in-flight turn
+ * has already taken its tasks out of `pending`.
+ *
+ * A philosopher's pending tasks are answered together in one turn unless the
+ * moderator splits a trigger off; split triggers carry a higher `batch` and
+ * are answered in later turns, in batch order.
+ */
+
+import type { ResponseTask } from '../types';
+import type { QueueState } from './sessions';
+
+const batchOf = (task: ResponseTask) => task.batch ?? 0;
+
+/** Pending tasks grouped into the turns that will answer them, earliest first. */
+export const groupBatches = (tasks: readonly ResponseTask[]): ResponseTask[][] => {
+  const batches = new Map<number, ResponseTask[]>();
+  tasks.forEach((task) => {
+    batches.set(batchOf(task), [...(batches.get(batchOf(task)) ?? []), task]);
+  });
+  return Array.from(batches.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, batch]) => batch);
+};
+
+/** Tasks answered in the philosopher's next turn, and those left waiting. */
+export const takeNextBatch = (
+  tasks: readonly ResponseTask[],
+): { batch: ResponseTask[]; rest: ResponseTask[] } => {
+  const [batch = [], ...rest] = groupBatches(tasks);
+  return { batch, rest: rest.flat() };
+};
+
+/** Moves a queued philosopher to `index` (clamped to the queue). */
+export const moveInQueue = (state: QueueState, id: string, index: number): QueueState => {
+  if (!state.queue.includes(id)) return state;
+  const queue = state.queue.filter((entry) => entry !== id);
+  queue.splice(Math.max(0, Math.min(index, queue.length)), 0, id);
+  return { ...state, queue };
+};
+
+/** Drops a philosopher from the queue together with all their pending tasks. */
+export const removeFromQueue = (
+  state: QueueState,
+  id: string,
+): { state: QueueState; removed: ResponseTask[] } => {
+  const pending = new Map(state.pending);
+  const removed = pending.get(id) ?? [];
+  pending.delete(id);
+  return {
+    state: { queue: state.queue.filter((entry) => entry !== id), pending },
+    removed,
+  };
+};
+
+/**
+ * Gives one trigger a turn of its own after the philosopher's other batches.
+ * A task already alone in its batch is left as it is.
+ */
+export const splitTask = (state: QueueState, id: string, taskId: string): QueueState => {
+  const tasks = state.pending.get(id);
+  const task = tasks?.find((entry) => entry.id === taskId);
+  if (!tasks || !task) return state;
+  if (tasks.filter((entry) => batchOf(entry) === batchOf(task)).length < 2) return state;
+
+  const batch = Math.max(...tasks.map(batchOf)) + 1;
+  const pending = new Map(state.pending);
+  pending.set(
+    id,
+    tasks.map((entry) => (entry.id === taskId ? { ...entry, batch } : entry)),
+  );
+  return { ...state, pending };
+};
+
+/** Folds all of a philosopher's batches back into a single turn. */
+export const mergeBatches = (state: QueueState, id: string): QueueState => {
+  const tasks = state.pending.get(id);
+  if (!tasks || groupBatches(tasks).length < 2) return state;
+  const pending = new Map(state.pending);
+  pending.set(
+    id,
+    tasks.map((task) => ({ ...task, batch: 0 })),
+  );
+  return { ...state, pending };
+};
+
+/**
+ * Hands tasks to another philosopher, e.g. when a failed turn is reassigned.
+ * They form a single batch for the new speaker.
+ */
+export const reassignTasks = (
+  tasks: readonly ResponseTask[],
+  philosopherId: string,
+): ResponseTask[] =>
+  tasks.map((task, index) => ({
+    ...task,
+    id: `task-${philosopherId}-${task.trigger.id}-${Date.now()}-${index}`,
+    philosopherId,
+    batch: 0,
+  }));
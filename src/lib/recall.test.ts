@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import type { MessageEvent, Philosopher } from '../types';
+import { assembleContextForPhilosopher } from './context';
+import {
+  applyMemorySummary,
+  createEmptyMemories,
+  entriesToSummarize,
+  getRecallCandidates,
+  pushMemoryEntry,
+} from './memory';
+import { buildRecallIndex, recallExchanges, searchRecallIndex, tokenize } from './recall';
+
+const confucius: Philosopher = {
+  id: 'confucius',
+  name: 'Confucius',
+  school: 'Confucianism',
+  port: 8001,
+  personaSummary: 'Ritual and benevolence.',
+  personaTemplate: 'You are Confucius.',
+};
+
+const message = (index: number, surface: string): MessageEvent => ({
+  id: `msg-${index}`,
+  type: 'message',
+  speaker: 'mozi',
+  recipients: ['confucius'],
+  phase: 'introduce',
+  timestamp: new Date(Date.UTC(2025, 9, 6, 9, index)).toISOString(),
+  surface,
+  translations: { english: surface },
+});
+
+const SURFACES = [
+  'Mourning rites should be simple; lavish funerals waste the wealth of the people.',
+  'Universal love extends care to strangers as to kin.',
+  'Offensive war is theft on a grand scale.',
+  'Heaven rewards those who benefit others.',
+  'Music and feasting drain the granaries.',
+  'Let the worthy be promoted regardless of birth.',
+];
+
+const prompt = {
+  recipients: ['confucius'],
+  text: 'Should the three-year mourning for parents be kept?',
+  timestamp: '2025-10-06T11:00:00Z',
+  speaker: 'moderator',
+};
+
+describe('tokenize', () => {
+  it('should drop stopwords and split Chinese into bigrams', () => {
+    expect(tokenize('The rites of Zhou')).toEqual(['rites', 'zhou']);
+    expect(tokenize('克己復禮')).toEqual(['克己', '己復', '復禮']);
+  });
+});
+
+describe('searchRecallIndex', () => {
+  it('should rank the entry sharing rare query terms first', () => {
+    const state = SURFACES.map((surface, index) => message(index, surface)).reduce(
+      pushMemoryEntry,
+      createEmptyMemories([confucius]),
+    );
+    const index = buildRecallIndex(state.store.confucius ?? []);
+
+    const [best] = searchRecallIndex(index, 'mourning and funerals');
+    expect(best?.entry.id).toBe('msg-0');
+    expect(searchRecallIndex(index, 'calligraphy')).toEqual([]);
+  });
+});
+
+describe('recallExchanges', () => {
+  it('should only search entries outside the verbatim window', () => {
+    let state = SURFACES.map((surface, index) => message(index, surface)).reduce(
+      pushMemoryEntry,
+      createEmptyMemories([confucius], 4),
+    );
+    expect(getRecallCandidates(state, 'confucius').map((entry) => entry.id)).toEqual([
+      'msg-0',
+      'msg-1',
+    ]);
+
+    // Condensed entries leave the store but stay recallable from the archive
+    state = applyMemorySummary(
+      state,
+      'confucius',
+      entriesToSummarize(state, 'confucius'),
+      'Mozi argued for frugality.',
+    );
+    expect(state.store.confucius?.map((entry) => entry.id)).toEqual(['msg-4', 'msg-5']);
+
+    const recalled = recallExchanges(state, 'confucius', prompt.text);
+    expect(recalled.map((item) => item.entry.id)).toEqual(['msg-0']);
+  });
+
+  it('should quote recalled exchanges with their original timestamps', () => {
+    const state = SURFACES.map((surface, index) => message(index, surface)).reduce(
+      pushMemoryEntry,
+      createEmptyMemories([confucius], 4),
+    );
+    const recalled = recallExchanges(state, 'confucius', prompt.text);
+    const context = assembleContextForPhilosopher(confucius, state, prompt, undefined, {
+      recalled,
+    });
+
+    expect(context.promptText).toContain('<RecalledExchanges');
+    expect(context.promptText).toContain(`[${message(0, '').timestamp}]`);
+    expect(context.budget.sections.recalled.included).toBe(1);
+    expect(context.recalled[0]?.entry.id).toBe('msg-0');
+  });
+
+  it('should omit the section when nothing is recalled', () => {
+    const state = createEmptyMemories([confucius]);
+    const context = assembleContextForPhilosopher(confucius, state, prompt);
+    expect(context.promptText).not.toContain('<RecalledExchanges');
+    expect(context.budget.sections.recalled.tokens).toBe(0);
+  });
+});
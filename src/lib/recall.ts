@@ -0,0 +1,139 @@
+/**
+ * Long-Term Recall
+ *
+ * Offline BM25 retrieval over memory entries that have left a philosopher's
+ * verbatim window (older store entries and the condensed archive). The top
+ * matches for the current turn are quoted in the prompt as
+ * `<RecalledExchanges>` with their original timestamps.
+ */
+
+import { getRecallCandidates, type MemoryEntry, type MemoryState } from './memory';
+
+export type RecalledExchange = {
+  entry: MemoryEntry;
+  score: number;
+};
+
+type IndexedEntry = {
+  entry: MemoryEntry;
+  terms: Map<string, number>;
+  length: number;
+};
+
+export type RecallIndex = {
+  entries: IndexedEntry[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+};
+
+/** Default number of exchanges recalled per turn. */
+export const DEFAULT_RECALL_LIMIT = 3;
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be but by do does for from had has have he her his how i if in ' +
+    'into is it its me my no not of on or our she so than that the their them then there ' +
+    'these they this to us was we were what when which who why will with would you your'
+  ).split(' '),
+);
+
+const CJK_RUN = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]+/g;
+const WORD = /[a-z0-9]+(?:'[a-z]+)?/g;
+
+/**
+ * Splits text into index terms: lower-cased English words without stopwords,
+ * and character bigrams for runs of Chinese (single characters for one-character
+ * runs), so classical phrases match without a segmenter.
+ */
+export const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  const lower = text.toLowerCase();
+
+  for (const word of lower.match(WORD) ?? []) {
+    if (word.length > 1 && !STOPWORDS.has(word)) terms.push(word);
+  }
+
+  for (const run of lower.match(CJK_RUN) ?? []) {
+    if (run.length === 1) {
+      terms.push(run);
+      continue;
+    }
+    for (let index = 0; index < run.length - 1; index += 1) {
+      terms.push(run.slice(index, index + 2));
+    }
+  }
+
+  return terms;
+};
+
+export const buildRecallIndex = (entries: readonly MemoryEntry[]): RecallIndex => {
+  const documentFrequency = new Map<string, number>();
+  const indexed = entries.map((entry) => {
+    const tokens = tokenize(entry.message);
+    const terms = new Map<string, number>();
+    tokens.forEach((term) => terms.set(term, (terms.get(term) ?? 0) + 1));
+    terms.forEach((_, term) =>
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1),
+    );
+    return { entry, terms, length: tokens.length };
+  });
+
+  const totalLength = indexed.reduce((sum, item) => sum + item.length, 0);
+  return {
+    entries: indexed,
+    documentFrequency,
+    averageLength: indexed.length ? totalLength / indexed.length : 0,
+  };
+};
+
+/**
+ * Ranks indexed entries against `query` by BM25 and returns the best `limit`
+ * with a positive score, highest first.
+ */
+export const searchRecallIndex = (
+  index: RecallIndex,
+  query: string,
+  limit: number = DEFAULT_RECALL_LIMIT,
+): RecalledExchange[] => {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const total = index.entries.length;
+  if (!queryTerms.length || !total) return [];
+
+  const scored = index.entries.map(({ entry, terms, length }) => {
+    let score = 0;
+    queryTerms.forEach((term) => {
+      const frequency = terms.get(term);
+      if (!frequency) return;
+      const documents = index.documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (total - documents + 0.5) / (documents + 0.5));
+      const norm = K1 * (1 - B + (B * length) / (index.averageLength || 1));
+      score += (idf * frequency * (K1 + 1)) / (frequency + norm);
+    });
+    return { entry, score };
+  });
+
+  return scored
+    .filter((item) => item.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * Older exchanges relevant to `query` from the philosopher's long-term memory,
+ * returned in chronological order.
+ */
+export const recallExchanges = (
+  state: MemoryState,
+  owner: string,
+  query: string,
+  limit: number = DEFAULT_RECALL_LIMIT,
+): RecalledExchange[] =>
+  searchRecallIndex(
+    buildRecallIndex(getRecallCandidates(state, owner)),
+    query,
+    limit,
+  ).sort((a, b) => a.entry.timestamp.localeCompare(b.entry.timestamp));
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { backoffDelay, isTransientError, withRetries, type RetryPolicy } from './retry';
+
+const policy: RetryPolicy = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 250 };
+const noWait = async () => {};
+
+describe('isTransientError', () => {
+  it('retries rate limits, server errors and network failures', () => {
+    expect(isTransientError(new Error('Backend error 503: overloaded'))).toBe(true);
+    expect(isTransientError(new Error('Agent error 429: slow down'))).toBe(true);
+    expect(isTransientError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isTransientError(new Error('Backend stream error: upstream reset'))).toBe(
+      true,
+    );
+  });
+
+  it('gives up on client errors', () => {
+    expect(isTransientError(new Error('Backend error 400: bad request'))).toBe(false);
+    expect(isTransientError(new Error('Agent does not accept text input'))).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles per attempt up to the cap, minus jitter', () => {
+    expect([1, 2, 3].map((attempt) => backoffDelay(attempt, policy, () => 0))).toEqual([
+      100, 200, 250,
+    ]);
+    expect(backoffDelay(1, policy, () => 1)).toBe(75);
+  });
+});
+
+describe('withRetries', () => {
+  it('retries transient failures until a call succeeds', async () => {
+    const retries: number[] = [];
+    const result = await withRetries(
+      async (attempt) => {
+        if (attempt < 3) throw new Error('Backend error 502: bad gateway');
+        return 'reply';
+      },
+      { policy, wait: noWait, onRetry: (_error, attempt) => retries.push(attempt) },
+    );
+
+    expect(result).toBe('reply');
+    expect(retries).toEqual([1, 2]);
+  });
+
+  it('rethrows the last error once attempts run out', async () => {
+    let calls = 0;
+    const failing = withRetries(
+      async () => {
+        calls += 1;
+        throw new Error('Backend error 500: boom');
+      },
+      { policy, wait: noWait },
+    );
+
+    await expect(failing).rejects.toThrow('Backend error 500: boom');
+    expect(calls).toBe(3);
+  });
+
+  it('does not retry permanent failures', async () => {
+    let calls = 0;
+    const failing = withRetries(
+      async () => {
+        calls += 1;
+        throw new Error('Backend error 401: unauthorized');
+      },
+      { policy, wait: noWait },
+    );
+
+    await expect(failing).rejects.toThrow('401');
+    expect(calls).toBe(1);
+  });
+});
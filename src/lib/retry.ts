@@ -0,0 +1,90 @@
+/**
+ * Turn Retries
+ *
+ * Backend and agent calls fail with plain `Error`s whose message carries the
+ * HTTP status (`Backend error 503: …`) or with a `TypeError` when the network
+ * is down. Transient failures are retried with exponential backoff; a turn that
+ * still fails becomes a `FailedTurn` the moderator can retry, skip or reassign.
+ */
+
+export type RetryPolicy = {
+  /** Calls made in total, including the first. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+};
+
+// Rate limits, timeouts and server-side failures are worth another try
+const TRANSIENT_STATUS = /\b(?:error|unavailable) \(?(408|425|429|5\d\d)\b/i;
+const TRANSIENT_MESSAGE =
+  /failed to fetch|network|timed? ?out|overloaded|stream error|stream ended|ECONNRESET/i;
+
+export const errorReason = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+export const isTransientError = (error: unknown): boolean => {
+  if (error instanceof TypeError) return true;
+  const reason = errorReason(error);
+  return TRANSIENT_STATUS.test(reason) || TRANSIENT_MESSAGE.test(reason);
+};
+
+/** Delay before retry number `attempt` (1-based): doubling, capped, with up to 25% jitter. */
+export const backoffDelay = (
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  random: () => number = Math.random,
+): number => {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay * (1 - 0.25 * random()));
+};
+
+/** Resolves after `ms`, or rejects with an `AbortError` when `signal` aborts first. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const abort = () => {
+      window.clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    else signal?.addEventListener('abort', abort, { once: true });
+  });
+
+type RetryOptions = {
+  policy?: RetryPolicy;
+  signal?: AbortSignal;
+  /** Called before each retry with the failure and the upcoming delay. */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  wait?: (ms: number, signal?: AbortSignal) => Promise<void>;
+};
+
+/**
+ * Calls `fn` until it succeeds, the error is not transient, the signal aborts
+ * or the policy's attempts run out; the last error is rethrown.
+ */
+export const withRetries = async <T>(
+  fn: (attempt: number) => Promise<T>,
+  { policy = DEFAULT_RETRY_POLICY, signal, onRetry, wait = sleep }: RetryOptions = {},
+): Promise<T> => {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (signal?.aborted || attempt >= policy.maxAttempts || !isTransientError(error)) {
+        throw error;
+      }
+      const delay = backoffDelay(attempt, policy);
+      onRetry?.(error, attempt, delay);
+      await wait(delay, signal);
+    }
+  }
+};
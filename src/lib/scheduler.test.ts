@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { SCHEDULERS, parseBid, rotateAfter, type SchedulerContext } from './scheduler';
+
+const context = (overrides: Partial<SchedulerContext> = {}): SchedulerContext => ({
+  roster: ['confucius', 'laozi', 'mozi', 'mencius'],
+  lastSpeaker: null,
+  picked: null,
+  ...overrides,
+});
+
+describe('addressee-order scheduler', () => {
+  const scheduler = SCHEDULERS['addressee-order'];
+
+  it('should append newcomers in addressee order without duplicates', () => {
+    const queue = scheduler.enqueue(['mozi'], ['laozi', 'mozi', 'confucius'], context());
+    expect(queue).toEqual(['mozi', 'laozi', 'confucius']);
+  });
+
+  it('should pick the head of the queue', async () => {
+    expect((await scheduler.selectNext(['laozi', 'mozi'], context())).next).toBe('laozi');
+  });
+});
+
+describe('round-robin scheduler', () => {
+  const scheduler = SCHEDULERS['round-robin'];
+
+  it('should order the queue by roster, continuing after the last speaker', () => {
+    expect(
+      rotateAfter(['confucius', 'mencius', 'laozi'], context().roster, 'laozi'),
+    ).toEqual(['mencius', 'confucius', 'laozi']);
+    const queue = scheduler.enqueue(
+      ['confucius'],
+      ['mencius', 'mozi'],
+      context({ lastSpeaker: 'laozi' }),
+    );
+    expect(queue).toEqual(['mozi', 'mencius', 'confucius']);
+  });
+
+  it('should rotate again once the last speaker changes', async () => {
+    const decision = await scheduler.selectNext(
+      ['mozi', 'mencius', 'confucius'],
+      context({ lastSpeaker: 'mozi' }),
+    );
+    expect(decision).toEqual({
+      next: 'mencius',
+      queue: ['mencius', 'confucius', 'mozi'],
+    });
+  });
+});
+
+describe('moderator-picks scheduler', () => {
+  const scheduler = SCHEDULERS['moderator-picks'];
+
+  it('should wait until the moderator picks a queued philosopher', async () => {
+    expect((await scheduler.selectNext(['laozi', 'mozi'], context())).next).toBeNull();
+    expect(
+      (await scheduler.selectNext(['laozi', 'mozi'], context({ picked: 'mencius' })))
+        .next,
+    ).toBeNull();
+    expect(
+      (await scheduler.selectNext(['laozi', 'mozi'], context({ picked: 'mozi' }))).next,
+    ).toBe('mozi');
+  });
+});
+
+describe('bidding scheduler', () => {
+  const scheduler = SCHEDULERS.bidding;
+
+  it('should let the highest bidder speak and order the queue by bid', async () => {
+    const scores: Record<string, number> = { laozi: 3, mozi: 9, confucius: 3 };
+    const decision = await scheduler.selectNext(
+      ['laozi', 'mozi', 'confucius'],
+      context({ bid: async (id) => scores[id] ?? 0 }),
+    );
+    expect(decision.next).toBe('mozi');
+    expect(decision.queue).toEqual(['mozi', 'laozi', 'confucius']);
+    expect(decision.bids).toEqual(scores);
+  });
+
+  it('should treat a failed bid as zero', async () => {
+    const decision = await scheduler.selectNext(
+      ['laozi', 'mozi'],
+      context({
+        bid: async (id) => {
+          if (id === 'laozi') throw new Error('offline');
+          return 1;
+        },
+      }),
+    );
+    expect(decision.next).toBe('mozi');
+    expect(decision.bids?.laozi).toBe(0);
+  });
+});
+
+describe('parseBid', () => {
+  it('should read and clamp the first number', () => {
+    expect(parseBid('7')).toBe(7);
+    expect(parseBid('Urgency: 12/10')).toBe(10);
+    expect(parseBid('none')).toBe(0);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Turn-Taking Schedulers
+ *
+ * The global queue holds philosophers with pending tasks; a scheduler decides
+ * where newly addressed philosophers are placed and who speaks next. The queue
+ * is kept in the scheduler's order so the Speaking Order card reflects it.
+ */
+
+import type { Philosopher, ResponseTask } from '../types';
+
+export type SchedulerId =
+  | 'addressee-order'
+  | 'round-robin'
+  | 'moderator-picks'
+  | 'bidding';
+
+export type SchedulerContext = {
+  /** Philosopher IDs in roster order. */
+  roster: readonly string[];
+  lastSpeaker: string | null;
+  /** Philosopher the moderator chose to speak next, if any. */
+  picked: string | null;
+  /** Asks a candidate how urgently it wants to speak (0–10); used by bidding. */
+  bid?: (philosopherId: string) => Promise<number>;
+};
+
+export type SchedulerDecision = {
+  /** Philosopher to speak now, or null to wait. */
+  next: string | null;
+  /** Queue in the scheduler's order after the decision. */
+  queue: string[];
+  /** Urgency scores gathered by bidding. */
+  bids?: Record<string, number>;
+};
+
+export type TurnScheduler = {
+  id: SchedulerId;
+  label: string;
+  description: string;
+  /** Queue after `addressees` (in order) gained pending tasks. */
+  enqueue: (
+    queue: readonly string[],
+    addressees: readonly string[],
+    context: SchedulerContext,
+  ) => string[];
+  selectNext: (
+    queue: readonly string[],
+    context: SchedulerContext,
+  ) => SchedulerDecision | Promise<SchedulerDecision>;
+};
+
+export const DEFAULT_SCHEDULER: SchedulerId = 'addressee-order';
+
+// Newcomers join at the back; philosophers already queued keep their place
+const appendNew = (queue: readonly string[], addressees: readonly string[]) => {
+  const next = [...queue];
+  addressees.forEach((id) => {
+    if (!next.includes(id)) next.push(id);
+  });
+  return next;
+};
+
+/**
+ * Orders the queue by roster position, starting after the last speaker.
+ * Philosophers missing from the roster keep their relative order at the end.
+ */
+export const rotateAfter = (
+  queue: readonly string[],
+  roster: readonly string[],
+  lastSpeaker: string | null,
+): string[] => {
+  const start = lastSpeaker ? roster.indexOf(lastSpeaker) + 1 : 0;
+  const position = (id: string) => {
+    const index = roster.indexOf(id);
+    return index === -1 ? roster.length : (index - start + roster.length) % roster.length;
+  };
+  return [...queue].sort((a, b) => position(a) - position(b));
+};
+
+const addresseeOrder: TurnScheduler = {
+  id: 'addressee-order',
+  label: 'Addressee order',
+  description:
+    'Philosophers speak in the order they were addressed; someone already waiting keeps their place.',
+  enqueue: appendNew,
+  selectNext: (queue) => ({ next: queue[0] ?? null, queue: [...queue] }),
+};
+
+const roundRobin: TurnScheduler = {
+  id: 'round-robin',
+  label: 'Round robin',
+  description:
+    'Waiting philosophers speak in roster order, continuing after whoever spoke last.',
+  enqueue: (queue, addressees, { roster, lastSpeaker }) =>
+    rotateAfter(appendNew(queue, addressees), roster, lastSpeaker),
+  selectNext: (queue, { roster, lastSpeaker }) => {
+    const ordered = rotateAfter(queue, roster, lastSpeaker);
+    return { next: ordered[0] ?? null, queue: ordered };
+  },
+};
+
+const moderatorPicks: TurnScheduler = {
+  id: 'moderator-picks',
+  label: 'Moderator picks',
+  description: 'Nobody speaks until the moderator picks the next speaker from the queue.',
+  enqueue: appendNew,
+  selectNext: (queue, { picked }) => ({
+    next: picked && queue.includes(picked) ? picked : null,
+    queue: [...queue],
+  }),
+};
+
+const bidding: TurnScheduler = {
+  id: 'bidding',
+  label: 'Bidding',
+  description:
+    'Each waiting philosopher bids how urgently it wants to speak; the highest bidder goes next.',
+  enqueue: appendNew,
+  selectNext: async (queue, { bid }) => {
+    if (!bid || queue.length < 2) return { next: queue[0] ?? null, queue: [...queue] };
+
+    const scores = await Promise.all(queue.map((id) => bid(id).catch(() => 0)));
+    const bids = Object.fromEntries(queue.map((id, index) => [id, scores[index] ?? 0]));
+    // Stable sort: ties keep their queue order
+    const ordered = [...queue].sort((a, b) => (bids[b] ?? 0) - (bids[a] ?? 0));
+    return { next: ordered[0] ?? null, queue: ordered, bids };
+  },
+};
+
+export const SCHEDULERS: Record<SchedulerId, TurnScheduler> = {
+  'addressee-order': addresseeOrder,
+  'round-robin': roundRobin,
+  'moderator-picks': moderatorPicks,
+  bidding,
+};
+
+export const SCHEDULER_IDS = Object.keys(SCHEDULERS) as SchedulerId[];
+
+/**
+ * Short prompt asking a philosopher to rate its urgency to speak on the waiting
+ * messages.
+ */
+export const buildBidPrompt = (
+  philosopher: Philosopher,
+  tasks: readonly ResponseTask[],
+  topic: string,
+): string =>
+  [
+    `You are ${philosopher.name} (${philosopher.school}) in a philosophical council on "${topic}".`,
+    'These messages await your reply:',
+    ...tasks.map((task) => `[${task.trigger.speaker}]: ${task.trigger.surface}`),
+    '',
+    'How urgently do you need to speak next? Consider whether you are challenged, misrepresented or hold a decisive point.',
+    'Answer with a single integer from 0 (no need) to 10 (must speak now) and nothing else.',
+  ].join('\n');
+
+/** Reads the first number in a bid reply, clamped to 0–10; 0 when absent. */
+export const parseBid = (text: string): number => {
+  const match = text.match(/-?\d+(?:\.\d+)?/);
+  if (!match) return 0;
+  return Math.min(10, Math.max(0, Number(match[0])));
+};
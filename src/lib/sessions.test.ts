@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import type { MessageEvent, ResponseTask } from '../types';
+import { deserializeQueue, isSessionState, serializeQueue } from './sessions';
+
+const trigger: MessageEvent = {
+  id: 'user-1',
+  type: 'message',
+  speaker: 'moderator',
+  recipients: ['confucius', 'laozi'],
+  phase: 'introduce',
+  timestamp: '2025-10-06T09:00:00Z',
+  surface: 'Discuss the flood.',
+  translations: { english: 'Discuss the flood.' },
+};
+
+const task = (philosopherId: string): ResponseTask => ({
+  id: `task-${philosopherId}`,
+  philosopherId,
+  trigger,
+});
+
+describe('serializeQueue', () => {
+  it('should round-trip the queue order and pending tasks', () => {
+    const state = {
+      queue: ['laozi', 'mozi'],
+      pending: new Map([
+        ['laozi', [task('laozi')]],
+        ['mozi', [task('mozi')]],
+      ]),
+    };
+
+    const restored = deserializeQueue(JSON.parse(JSON.stringify(serializeQueue(state))));
+
+    expect(restored.queue).toEqual(['laozi', 'mozi']);
+    expect(restored.pending.get('mozi')).toEqual([task('mozi')]);
+  });
+
+  it('should put the in-flight turn back at the front of the queue', () => {
+    const state = {
+      queue: ['laozi'],
+      pending: new Map([['laozi', [task('laozi')]]]),
+    };
+
+    const serialized = serializeQueue(state, {
+      philosopherId: 'confucius',
+      tasks: [task('confucius')],
+    });
+
+    expect(serialized.queue).toEqual(['confucius', 'laozi']);
+    expect(new Map(serialized.pending).get('confucius')).toEqual([task('confucius')]);
+    expect(state.pending.has('confucius')).toBe(false);
+  });
+
+  it('should put every parallel turn back in order', () => {
+    const state = {
+      queue: ['laozi', 'zhuangzi'],
+      pending: new Map([['zhuangzi', [task('zhuangzi')]]]),
+    };
+
+    const serialized = serializeQueue(state, [
+      { philosopherId: 'confucius', tasks: [task('confucius')] },
+      { philosopherId: 'mozi', tasks: [task('mozi')] },
+    ]);
+
+    expect(serialized.queue).toEqual(['confucius', 'mozi', 'laozi', 'zhuangzi']);
+    expect(new Map(serialized.pending).get('mozi')).toEqual([task('mozi')]);
+  });
+});
+
+describe('isSessionState', () => {
+  it('should reject snapshots missing required fields', () => {
+    expect(isSessionState(null)).toBe(false);
+    expect(isSessionState({ version: 1, topic: 'The Way' })).toBe(false);
+  });
+});
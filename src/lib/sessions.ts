@@ -0,0 +1,133 @@
+/**
+ * Session Serialization
+ *
+ * Converts the orchestrator's React state and refs into a JSON-safe snapshot that
+ * the backend stores verbatim, and back again.
+ */
+
+import type {
+  FailedTurn,
+  InspectorSnapshot,
+  MessageEvent,
+  PendingDraft,
+  Phase,
+  PhaseChangeEvent,
+  Philosopher,
+  ResponseTask,
+  SessionSummary,
+  TranslationEvent,
+  TranslationLanguage,
+  VisibilityPolicy,
+} from '../types';
+import type { MemoryState } from './memory';
+import type { SchedulerId } from './scheduler';
+import type { GuardSettings } from './guard';
+import type { BroadcastSettings } from './broadcast';
+
+export const SESSION_STATE_VERSION = 1;
+
+export type QueueState = {
+  queue: string[];
+  pending: Map<string, ResponseTask[]>;
+};
+
+export type SerializedQueue = {
+  queue: string[];
+  pending: Array<[string, ResponseTask[]]>;
+};
+
+export type SessionState = {
+  version: number;
+  topic: string;
+  sessionDate: string;
+  philosophers: Philosopher[];
+  activeIds: string[];
+  showInsights: boolean;
+  phase: Phase;
+  phaseChanges: PhaseChangeEvent[];
+  autoAdvancePhase: boolean;
+  messages: MessageEvent[];
+  snapshots: InspectorSnapshot[];
+  memories: MemoryState;
+  eventFeed: string[];
+  queue: SerializedQueue;
+  processedMessageIds: string[];
+  isPaused: boolean;
+  translations?: TranslationEvent[];
+  displayLanguage?: TranslationLanguage;
+  autoTranslate?: boolean;
+  visibilityPolicy?: VisibilityPolicy;
+  scheduler?: SchedulerId;
+  guardSettings?: GuardSettings;
+  approvalMode?: boolean;
+  pendingDrafts?: PendingDraft[];
+  broadcastSettings?: BroadcastSettings;
+  failedTurns?: FailedTurn[];
+};
+
+export type SessionRecord = SessionSummary & {
+  state: SessionState;
+};
+
+type InFlightTurn = { philosopherId: string; tasks: ResponseTask[] };
+
+/**
+ * Serializes the global queue. Tasks belonging to a turn that is still in flight
+ * are put back at the front so a restored session re-runs that turn instead of
+ * silently dropping it.
+ *
+ * @param queueState - Contents of `globalQueueRef`
+ * @param inFlight - Tasks dequeued by the speaker(s) currently holding the global
+ *   lock; several during a parallel broadcast, kept in the given order
+ */
+export const serializeQueue = (
+  queueState: QueueState,
+  inFlight?: InFlightTurn | readonly InFlightTurn[] | null,
+): SerializedQueue => {
+  const pending = new Map(queueState.pending);
+  const turns = ([] as InFlightTurn[])
+    .concat(inFlight ?? [])
+    .filter((turn) => turn.tasks.length > 0);
+
+  turns.forEach((turn) => {
+    const existing = pending.get(turn.philosopherId) ?? [];
+    pending.set(turn.philosopherId, [...turn.tasks, ...existing]);
+  });
+  const resumed = turns.map((turn) => turn.philosopherId);
+  const queue = [...resumed, ...queueState.queue.filter((id) => !resumed.includes(id))];
+
+  return { queue, pending: Array.from(pending.entries()) };
+};
+
+export const deserializeQueue = (
+  serialized: SerializedQueue | undefined,
+): QueueState => ({
+  queue: [...(serialized?.queue ?? [])],
+  pending: new Map(serialized?.pending ?? []),
+});
+
+/**
+ * Drops streaming drafts: their content is regenerated when the queue resumes.
+ */
+export const withoutDrafts = (messages: readonly MessageEvent[]): MessageEvent[] =>
+  messages.filter((message) => !message.draft);
+
+/**
+ * Minimal structural check before trusting a snapshot loaded from disk.
+ */
+export const isSessionState = (value: unknown): value is SessionState => {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<SessionState>;
+  return (
+    typeof candidate.version === 'number' &&
+    candidate.version <= SESSION_STATE_VERSION &&
+    typeof candidate.topic === 'string' &&
+    Array.isArray(candidate.philosophers) &&
+    Array.isArray(candidate.messages) &&
+    Array.isArray(candidate.snapshots) &&
+    !!candidate.memories &&
+    typeof candidate.memories === 'object' &&
+    !!candidate.queue &&
+    Array.isArray(candidate.queue.queue)
+  );
+};
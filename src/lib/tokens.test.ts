@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { estimateTokens, truncateToTokens } from './tokens';
+
+describe('estimateTokens', () => {
+  it('should count about four Latin characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+
+  it('should count CJK characters individually', () => {
+    expect(estimateTokens('學而時習之')).toBe(5);
+    expect(estimateTokens('學而 time')).toBe(4);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('should leave text that fits untouched', () => {
+    expect(truncateToTokens('Rectify the names.', 10)).toBe('Rectify the names.');
+  });
+
+  it('should cut at a word boundary and mark the cut', () => {
+    const text = 'The superior man is modest in his speech but exceeds in his actions.';
+    const shortened = truncateToTokens(text, 8);
+    expect(shortened.endsWith('…')).toBe(true);
+    expect(estimateTokens(shortened)).toBeLessThanOrEqual(8);
+    expect(text.startsWith(shortened.slice(0, -1))).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Token Estimation
+ *
+ * Dependency-free approximation of model token counts, used to keep assembled
+ * prompts inside a context budget. Latin text averages about four characters per
+ * token; CJK characters are counted as one token each.
+ */
+
+const CJK_PATTERN = /[\u3000-\u303f\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uff00-\uffef]/g;
+const CHARS_PER_TOKEN = 4;
+
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / CHARS_PER_TOKEN);
+};
+
+/**
+ * Shortens text to roughly `maxTokens`, cutting at a word boundary when one is
+ * close and marking the cut with an ellipsis. Returns '' when nothing fits.
+ */
+export const truncateToTokens = (text: string, maxTokens: number): string => {
+  if (estimateTokens(text) <= maxTokens) return text;
+  if (maxTokens <= 1) return '';
+
+  // Binary search for the longest prefix that fits, leaving room for the ellipsis
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(text.slice(0, mid)) <= maxTokens - 1) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const prefix = text.slice(0, low);
+  const lastSpace = prefix.lastIndexOf(' ');
+  const cut = lastSpace > low * 0.8 ? prefix.slice(0, lastSpace) : prefix;
+  return cut ? `${cut.trimEnd()}…` : '';
+};
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import type { MessageEvent } from '../types';
+import {
+  applyTranslations,
+  createTranslationEvent,
+  pruneTranslations,
+  textInLanguage,
+  upsertTranslation,
+} from './translation';
+
+const message = (overrides: Partial<MessageEvent>): MessageEvent => ({
+  id: 'msg-1',
+  type: 'message',
+  speaker: 'confucius',
+  recipients: ['moderator'],
+  phase: 'introduce',
+  timestamp: '2025-10-06T09:00:00Z',
+  surface: 'Rectify the names.',
+  translations: { english: 'Rectify the names.' },
+  ...overrides,
+});
+
+describe('translation events', () => {
+  it('should link a translation to its message', () => {
+    expect(createTranslationEvent('msg-1', 'chinese', '正名。')).toEqual({
+      id: 'translation-msg-1:chinese',
+      type: 'translation',
+      parentId: 'msg-1',
+      language: 'chinese',
+      text: '正名。',
+    });
+  });
+
+  it('should replace an existing translation for the same message and language', () => {
+    const first = createTranslationEvent('msg-1', 'chinese', '正名');
+    const other = createTranslationEvent('msg-1', 'classical_chinese', '必也正名乎');
+    const updated = upsertTranslation(
+      [first, other],
+      createTranslationEvent('msg-1', 'chinese', '正名。'),
+    );
+    expect(updated.map((event) => event.text)).toEqual(['必也正名乎', '正名。']);
+  });
+
+  it('should drop translations of messages that no longer exist', () => {
+    const kept = createTranslationEvent('msg-1', 'chinese', '正名。');
+    const orphan = createTranslationEvent('msg-2', 'chinese', '無為。');
+    expect(pruneTranslations([kept, orphan], [message({})])).toEqual([kept]);
+  });
+});
+
+describe('applyTranslations', () => {
+  it('should merge translations into the message map', () => {
+    const [merged] = applyTranslations(
+      [message({})],
+      [
+        createTranslationEvent('msg-1', 'chinese', '正名。'),
+        createTranslationEvent('msg-1', 'classical_chinese', '必也正名乎。'),
+      ],
+    );
+    expect(merged?.translations).toEqual({
+      english: 'Rectify the names.',
+      chinese: '正名。',
+      classical_chinese: '必也正名乎。',
+    });
+  });
+
+  it('should leave untranslated messages untouched', () => {
+    const original = message({ id: 'msg-2' });
+    const [result] = applyTranslations(
+      [original],
+      [createTranslationEvent('msg-1', 'chinese', '正名。')],
+    );
+    expect(result).toBe(original);
+  });
+});
+
+describe('textInLanguage', () => {
+  it('should fall back to English until a translation arrives', () => {
+    const untranslated = message({});
+    expect(textInLanguage(untranslated, 'chinese')).toEqual({
+      text: 'Rectify the names.',
+      translated: false,
+    });
+
+    const translated = message({
+      translations: { english: 'Rectify the names.', chinese: '正名。' },
+    });
+    expect(textInLanguage(translated, 'chinese')).toEqual({
+      text: '正名。',
+      translated: true,
+    });
+    expect(textInLanguage(translated, 'english').text).toBe('Rectify the names.');
+  });
+});
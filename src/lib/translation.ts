@@ -0,0 +1,109 @@
+/**
+ * Translations
+ *
+ * Philosopher replies are translated on demand (or automatically) into modern and
+ * Classical Chinese by `/api/translate`. Each result is kept as a
+ * `TranslationEvent` linked to its message by `parentId` and merged into the
+ * message's `translations` map for display.
+ */
+
+import type { MessageEvent, TranslationEvent, TranslationLanguage } from '../types';
+
+export type TargetLanguage = TranslationEvent['language'];
+
+export const TRANSLATION_LANGUAGES: readonly TranslationLanguage[] = [
+  'english',
+  'chinese',
+  'classical_chinese',
+];
+
+export const TARGET_LANGUAGES: readonly TargetLanguage[] = [
+  'chinese',
+  'classical_chinese',
+];
+
+export const TRANSLATION_LANGUAGE_LABELS: Record<TranslationLanguage, string> = {
+  english: 'English',
+  chinese: '中文',
+  classical_chinese: '文言',
+};
+
+/** Key used to track in-flight translation requests. */
+export const translationKey = (parentId: string, language: TargetLanguage) =>
+  `${parentId}:${language}`;
+
+export const createTranslationEvent = (
+  parentId: string,
+  language: TargetLanguage,
+  text: string,
+): TranslationEvent => ({
+  id: `translation-${translationKey(parentId, language)}`,
+  type: 'translation',
+  parentId,
+  language,
+  text,
+});
+
+/**
+ * Adds or replaces the translation for the same message and language.
+ */
+export const upsertTranslation = (
+  translations: readonly TranslationEvent[],
+  event: TranslationEvent,
+): TranslationEvent[] => [
+  ...translations.filter(
+    (existing) =>
+      existing.parentId !== event.parentId || existing.language !== event.language,
+  ),
+  event,
+];
+
+/**
+ * Merges translation events into the `translations` map of their messages.
+ * Messages without translations are returned unchanged (same reference).
+ */
+export const applyTranslations = (
+  messages: readonly MessageEvent[],
+  translations: readonly TranslationEvent[],
+): MessageEvent[] => {
+  const byParent = new Map<string, TranslationEvent[]>();
+  translations.forEach((event) => {
+    byParent.set(event.parentId, [...(byParent.get(event.parentId) ?? []), event]);
+  });
+
+  return messages.map((message) => {
+    const events = byParent.get(message.id);
+    if (!events) return message;
+    const merged = { ...message.translations };
+    events.forEach((event) => {
+      merged[event.language] = event.text;
+    });
+    return { ...message, translations: merged };
+  });
+};
+
+/**
+ * Text to show for a message in the given language, falling back to English
+ * when no translation exists yet.
+ */
+export const textInLanguage = (
+  message: MessageEvent,
+  language: TranslationLanguage,
+): { text: string; translated: boolean } => {
+  const translated = language === 'english' ? undefined : message.translations[language];
+  return translated
+    ? { text: translated, translated: true }
+    : { text: message.surface, translated: false };
+};
+
+/**
+ * Drops translations whose parent message no longer exists (e.g. after a
+ * session is cleared).
+ */
+export const pruneTranslations = (
+  translations: readonly TranslationEvent[],
+  messages: readonly MessageEvent[],
+): TranslationEvent[] => {
+  const ids = new Set(messages.map((message) => message.id));
+  return translations.filter((event) => ids.has(event.parentId));
+};
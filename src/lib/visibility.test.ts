@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import type { MessageEvent, MessageVisibility, Philosopher } from '../types';
+import { assembleContextForPhilosopher } from './context';
+import { createEmptyMemories, pushMemoryEntry } from './memory';
+import { audienceFor, canSee, resolveVisibility } from './visibility';
+
+const roster: Philosopher[] = ['confucius', 'laozi', 'mozi'].map((id) => ({
+  id,
+  name: id,
+  school: 'School',
+  port: 8001,
+  personaSummary: '',
+  personaTemplate: `You are ${id}.`,
+}));
+const ids = roster.map((philosopher) => philosopher.id);
+
+const message = (visibility?: MessageVisibility): MessageEvent => ({
+  id: `msg-${visibility ?? 'legacy'}`,
+  type: 'message',
+  speaker: 'confucius',
+  recipients: ['laozi', 'moderator'],
+  phase: 'introduce',
+  timestamp: '2025-10-06T09:00:00Z',
+  surface: 'Between the two of us.',
+  translations: { english: 'Between the two of us.' },
+  visibility,
+});
+
+const prompt = {
+  recipients: ['mozi'],
+  text: 'Continue.',
+  timestamp: '2025-10-06T11:00:00Z',
+  speaker: 'moderator',
+};
+
+describe('resolveVisibility', () => {
+  it('should let a whisper override the session policy', () => {
+    expect(resolveVisibility('public')).toBe('public');
+    expect(resolveVisibility('public', true)).toBe('whisper');
+  });
+});
+
+describe('audienceFor', () => {
+  it('should list who could see a message under each visibility', () => {
+    expect(audienceFor(message('public'), ids)).toEqual(ids);
+    expect(audienceFor(message('addressed'), ids)).toEqual(['confucius', 'laozi']);
+    expect(audienceFor(message('whisper'), ids)).toEqual(['confucius', 'laozi']);
+    expect(canSee(message(), 'mozi')).toBe(false);
+  });
+
+  it('should treat a broadcast as visible to all unless whispered', () => {
+    const broadcast = { ...message('addressed'), recipients: ['all'] };
+    expect(audienceFor(broadcast, ids)).toEqual(ids);
+    expect(audienceFor({ ...broadcast, visibility: 'whisper' }, ids)).toEqual([
+      'confucius',
+    ]);
+  });
+});
+
+describe('pushMemoryEntry visibility', () => {
+  it('should let others overhear public messages as ambient context', () => {
+    const state = pushMemoryEntry(createEmptyMemories(roster), message('public'));
+    expect(state.store.mozi?.map((entry) => entry.id)).toEqual(['msg-public']);
+
+    const [mozi] = roster.slice(2);
+    const context = assembleContextForPhilosopher(mozi!, state, prompt);
+    expect(context.promptText).toMatch(/<AmbientContext[^>]*>[\s\S]*Between the two/);
+    expect(context.budget.sections.ambient.included).toBe(1);
+  });
+
+  it('should keep addressed messages to their recipients', () => {
+    const state = pushMemoryEntry(createEmptyMemories(roster), message('addressed'));
+    expect(state.store.mozi).toEqual([]);
+    expect(state.store.all).toHaveLength(1);
+  });
+
+  it('should keep whispers out of other stores and the shared log', () => {
+    const state = pushMemoryEntry(createEmptyMemories(roster), message('whisper'));
+    expect(state.store.mozi).toEqual([]);
+    expect(state.store.all).toEqual([]);
+    expect(state.store.confucius?.[0]?.visibility).toBe('whisper');
+
+    const [, laozi] = roster;
+    const context = assembleContextForPhilosopher(laozi!, state, prompt);
+    expect(context.promptText).toContain('"whisper": true');
+  });
+});
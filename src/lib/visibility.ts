@@ -0,0 +1,51 @@
+/**
+ * Message Visibility
+ *
+ * Decides which philosophers hear a message. The session policy covers ordinary
+ * messages (`public` or `addressed`); a whisper reaches only its speaker and
+ * recipients and never appears in anyone else's ambient context. The moderator
+ * sees every message.
+ */
+
+import type { MessageEvent, MessageVisibility, VisibilityPolicy } from '../types';
+
+export const DEFAULT_VISIBILITY_POLICY: VisibilityPolicy = 'addressed';
+
+export const VISIBILITY_POLICIES: readonly VisibilityPolicy[] = ['public', 'addressed'];
+
+export const VISIBILITY_LABELS: Record<MessageVisibility, string> = {
+  public: 'Public council',
+  addressed: 'Addressed only',
+  whisper: 'Whisper',
+};
+
+export const resolveVisibility = (
+  policy: VisibilityPolicy,
+  whisper?: boolean,
+): MessageVisibility => (whisper ? 'whisper' : policy);
+
+export const visibilityOf = (
+  message: Pick<MessageEvent, 'visibility'>,
+): MessageVisibility => message.visibility ?? DEFAULT_VISIBILITY_POLICY;
+
+/**
+ * Philosophers (from `participantIds`) who could see the message, in roster
+ * order.
+ */
+export const audienceFor = (
+  message: Pick<MessageEvent, 'speaker' | 'recipients' | 'visibility'>,
+  participantIds: readonly string[],
+): string[] => {
+  const visibility = visibilityOf(message);
+  if (visibility === 'public') return [...participantIds];
+
+  const broadcast = visibility === 'addressed' && message.recipients.includes('all');
+  return participantIds.filter(
+    (id) => broadcast || id === message.speaker || message.recipients.includes(id),
+  );
+};
+
+export const canSee = (
+  message: Pick<MessageEvent, 'speaker' | 'recipients' | 'visibility'>,
+  philosopherId: string,
+): boolean => audienceFor(message, [philosopherId]).length > 0;
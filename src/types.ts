@@ -7,18 +7,63 @@ export type Philosopher = {
   port: number;
   personaSummary: string;
   personaTemplate: string;
+  /** Set for external A2A agents invited by agent-card URL; turns go to `url`. */
+  remoteAgent?: RemoteAgent;
+  /** Prompt size limit in estimated tokens; defaults to `DEFAULT_CONTEXT_BUDGET`. */
+  contextBudget?: number;
+  /** Provider and model for this philosopher's turns; absent means the backend default. */
+  llm?: LLMChoice;
+};
+
+/** LLM providers the backend can route a turn to (see `backend/lib/llm`). */
+export type LLMProvider = 'codex' | 'claude' | 'openai' | 'mock';
+
+export type LLMChoice = {
+  provider?: LLMProvider;
+  /** Provider-specific model name, e.g. `haiku`, `gpt5-codex` or `llama3.1:8b`. */
+  model?: string;
+};
+
+/** Provider and model that actually produced a reply, as reported by the backend. */
+export type AnsweredBy = {
+  provider: string;
+  model?: string;
+};
+
+export type RemoteAgent = {
+  url: string;
+  cardUrl: string;
+  streaming: boolean;
 };
 
 export type TranslationLanguage = 'english' | 'chinese' | 'classical_chinese';
 
+/** English surface plus any translations received so far. */
 export type TranslationMap = {
   english: string;
+} & Partial<Record<Exclude<TranslationLanguage, 'english'>, string>>;
+
+export type QuoteVerificationStatus = 'verified' | 'close-paraphrase' | 'unverified';
+
+/** Result of checking a quote against the local corpus (`/api/quotes/verify`). */
+export type QuoteVerification = {
+  status: QuoteVerificationStatus;
+  /** Best containment ratio against a corpus passage, 0–1. */
+  score: number;
+  /** Closest corpus passage, when one overlaps at all. */
+  match?: { id: string; source: string; chinese: string; english: string };
+  note?: string;
 };
 
 export type QuoteData = {
   chinese: string;
   english: string;
   source: string;
+  /** Corpus passage id when the quote came from `/api/quotes/search`. */
+  passageId?: string;
+  /** True for a corpus passage shown because the reply cited no quote of its own. */
+  retrieved?: boolean;
+  verification?: QuoteVerification;
 };
 
 export type MessageEvent = {
@@ -32,8 +77,21 @@ export type MessageEvent = {
   insight?: string;
   quote?: QuoteData;
   translations: TranslationMap;
+  /** True while the reply is still streaming in from the backend. */
+  draft?: boolean;
+  /** Who could hear the message; absent means `addressed`. */
+  visibility?: MessageVisibility;
 };
 
+/**
+ * Session-wide rule for ordinary messages: `public` lets every philosopher
+ * overhear them as ambient context, `addressed` delivers them to recipients only.
+ */
+export type VisibilityPolicy = 'public' | 'addressed';
+
+/** A message's delivery: the session policy, or a private `whisper`. */
+export type MessageVisibility = VisibilityPolicy | 'whisper';
+
 export type TranslationEvent = {
   id: string;
   type: 'translation';
@@ -64,6 +122,14 @@ export type SnapshotEvent = {
     rendered: string;
   };
   contextMessages: Array<Pick<MessageEvent, 'id' | 'speaker' | 'phase' | 'surface' | 'timestamp'>>;
+  /** Rolling memory summary that was part of the prompt, if any. */
+  memorySummary?: {
+    id: string;
+    createdAt: string;
+    totalEntries: number;
+    from: string;
+    to: string;
+  };
 };
 
 export type ConversationEvent =
@@ -80,6 +146,37 @@ export type SnapshotCallPayload = {
   triggerId: string;
   final: string;
   reasoning?: string;
+  budget?: ContextBudgetReport;
+  /** Older exchanges recalled into the prompt with their BM25 scores. */
+  recalled?: Array<Pick<MessageEvent, 'id' | 'speaker' | 'timestamp'> & { score: number }>;
+  answeredBy?: AnsweredBy;
+};
+
+/** Prompt sections in the order they claim the context budget. */
+export type ContextSection =
+  | 'persona'
+  | 'directive'
+  | 'summary'
+  | 'direct'
+  | 'recalled'
+  | 'ambient';
+
+export type ContextSectionUsage = {
+  tokens: number;
+  /** Items (messages, or the summary) that made it into the prompt. */
+  included: number;
+  /** Included items that were cut short to fit. */
+  shortened: number;
+  /** Items left out for lack of budget. */
+  dropped: number;
+};
+
+export type ContextBudgetReport = {
+  limit: number;
+  used: number;
+  /** True when persona and directive alone exceed the limit; they are never cut. */
+  overBudget: boolean;
+  sections: Record<ContextSection, ContextSectionUsage>;
 };
 
 // Note: LanguageDefaults type removed - English-only interface
@@ -87,8 +184,44 @@ export type SnapshotCallPayload = {
 export type ComposerSubmission = {
   prompt: string;
   recipients: string[];
+  whisper?: boolean;
 };
 
 export type InspectorSnapshot = SnapshotEvent & {
   callPayload?: SnapshotCallPayload;
 };
+
+export type ResponseTask = {
+  id: string;
+  philosopherId: string;
+  trigger: MessageEvent;
+  /** Split-off turn this task is answered in (see `lib/queue.ts`); absent means 0. */
+  batch?: number;
+};
+
+/**
+ * A turn whose backend call still failed after automatic retries. Its tasks are
+ * kept until the moderator retries, skips or reassigns them.
+ */
+export type FailedTurn = {
+  id: string;
+  philosopherId: string;
+  tasks: ResponseTask[];
+  reason: string;
+  attempts: number;
+  failedAt: string;
+};
+
+/** A finished reply awaiting the moderator's review in approval mode. */
+export type PendingDraft = {
+  message: MessageEvent;
+  /** Tasks the reply answered, re-queued if the moderator asks for a regeneration. */
+  tasks: ResponseTask[];
+};
+
+export type SessionSummary = {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+};
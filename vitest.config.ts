@@ -7,6 +7,8 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'jsdom',
+    // backend/tests run under node:test (`npm test`, i.e. `node --test tests/`, in backend/)
+    include: ['src/**/*.{test,spec}.{ts,tsx}'],
     setupFiles: './src/test/setup.ts',
     coverage: {
       provider: 'v8',